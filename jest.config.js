@@ -20,6 +20,9 @@ export default {
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   
+  // Resolve TypeScript sources before the compiled files kept beside them
+  moduleFileExtensions: ['ts', 'js', 'json'],
+  
   // Transform configuration
   transform: {
     '^.+\\.ts$': ['ts-jest', {
@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Request Authentication
+ *
+ * This module turns an `AuthConfig` into an authenticator that resolves the
+ * `UserContext` of a request from its credentials. The server runs the
+ * authenticator for every tool call, whichever transport it arrives on, and
+ * hands the resulting user to middleware and tools.
+ *
+ * Supported methods:
+ * - `api-key`: key in a header, mapped to a configured user
+ * - `bearer`: static tokens or a verification callback
+ * - `basic`: username and password checked by a callback
+ * - `oauth2`: RFC 7662 token introspection
+ * - `custom`: any authenticator function
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  ApiKeyAuthOptions,
+  AuthConfig,
+  AuthenticationError,
+  Authenticator,
+  AuthRequest,
+  BasicAuthOptions,
+  BearerAuthOptions,
+  CustomAuthOptions,
+  ExternalApiError,
+  OAuth2IntrospectionOptions,
+  ServerConfigError,
+  UserContext,
+} from '../types/index.js';
+
+/**
+ * JSON-RPC error code for calls rejected because the caller is not authenticated
+ */
+export const UNAUTHENTICATED = -32004;
+
+/**
+ * Create an authenticator for an authentication configuration
+ *
+ * When `required` is set, requests without credentials are rejected as well
+ * as requests with invalid ones.
+ *
+ * @param config - Authentication method, its options and whether it is required
+ * @returns Authenticator resolving the caller of a request
+ * @throws {ServerConfigError} When the options do not fit the method
+ *
+ * @example
+ * ```typescript
+ * const authenticate = createAuthenticator({
+ *   method: 'api-key',
+ *   required: true,
+ *   options: { keys: { 'k-123': { id: 'ci', roles: ['deployer'], permissions: [] } } },
+ * });
+ * ```
+ */
+export function createAuthenticator(config: AuthConfig): Authenticator {
+  const authenticate = createMethodAuthenticator(config);
+
+  if (!config.required) {
+    return authenticate;
+  }
+
+  return async request => {
+    const user = await authenticate(request);
+    if (!user) {
+      throw new AuthenticationError('Authentication required', { transport: request.transport });
+    }
+    return user;
+  };
+}
+
+/**
+ * Build a `UserContext` from token claims
+ *
+ * The id comes from `sub`, `username` or `client_id`. Roles come from the
+ * roles claim and permissions from `permissions` or the space-separated `scope`.
+ *
+ * @param claims - JWT or introspection claims
+ * @param rolesClaim - Claim holding the caller's roles
+ * @returns User context for the token's subject
+ * @throws {AuthenticationError} When the claims identify no subject
+ */
+export function toUserContext(claims: Record<string, unknown>, rolesClaim = 'roles'): UserContext {
+  const id = [claims.sub, claims.username, claims.client_id].find(
+    (value): value is string => typeof value === 'string' && value.length > 0
+  );
+  if (!id) {
+    throw new AuthenticationError('Token does not identify a subject');
+  }
+
+  const name = typeof claims.name === 'string' ? claims.name : undefined;
+
+  return {
+    id,
+    ...(name && { name }),
+    roles: toStringList(claims[rolesClaim]),
+    permissions: toStringList(claims.permissions ?? claims.scope),
+    metadata: claims,
+  };
+}
+
+/**
+ * Extract the credentials from an `Authorization` header value
+ *
+ * @param header - Header value, e.g. `Bearer abc123`
+ * @param scheme - Expected scheme in lower case; the header's scheme is matched case-insensitively
+ * @returns The credentials, or undefined when the header is absent or uses another scheme
+ */
+export function parseAuthorization(header: string | undefined, scheme: string): string | undefined {
+  const separator = header?.indexOf(' ') ?? -1;
+  if (!header || separator < 0 || header.slice(0, separator).toLowerCase() !== scheme) {
+    return undefined;
+  }
+
+  return header.slice(separator + 1).trim() || undefined;
+}
+
+/**
+ * Map an authentication failure to a JSON-RPC error
+ *
+ * @param error - Authentication failure for the call
+ * @returns MCP error with the `UNAUTHENTICATED` code
+ */
+export function toUnauthenticatedError(error: AuthenticationError): McpError {
+  return new McpError(UNAUTHENTICATED, error.message);
+}
+
+/**
+ * Create the authenticator for the configured method, ignoring `required`
+ */
+function createMethodAuthenticator(config: AuthConfig): Authenticator {
+  switch (config.method) {
+    case 'api-key':
+      return createApiKeyAuthenticator(config.options as unknown as ApiKeyAuthOptions);
+
+    case 'bearer':
+      return createBearerAuthenticator(config.options as BearerAuthOptions);
+
+    case 'basic':
+      return createBasicAuthenticator(config.options as unknown as BasicAuthOptions);
+
+    case 'oauth2':
+      return createIntrospectionAuthenticator(
+        config.options as unknown as OAuth2IntrospectionOptions
+      );
+
+    case 'custom': {
+      const { authenticate } = config.options as unknown as CustomAuthOptions;
+      if (typeof authenticate !== 'function') {
+        throw new ServerConfigError('Custom authentication requires an authenticate function');
+      }
+      return authenticate;
+    }
+
+    default:
+      throw new ServerConfigError(`Unsupported authentication method: ${String(config.method)}`);
+  }
+}
+
+/**
+ * Authenticate by API key header
+ */
+function createApiKeyAuthenticator(options: ApiKeyAuthOptions): Authenticator {
+  if (!options.keys) {
+    throw new ServerConfigError('API key authentication requires keys');
+  }
+
+  const headerName = options.headerName ?? 'x-api-key';
+  const keys = new Map(Object.entries(options.keys));
+
+  return async request => {
+    const key = getHeader(request, headerName);
+    if (key === undefined) {
+      return undefined;
+    }
+
+    const user = keys.get(key);
+    if (!user) {
+      throw new AuthenticationError('Invalid API key');
+    }
+    return user;
+  };
+}
+
+/**
+ * Authenticate by `Authorization: Bearer` token
+ */
+function createBearerAuthenticator(options: BearerAuthOptions): Authenticator {
+  if (!options.tokens && !options.verify) {
+    throw new ServerConfigError('Bearer authentication requires tokens or a verify function');
+  }
+
+  const tokens = new Map(Object.entries(options.tokens ?? {}));
+
+  return async request => {
+    const token = getAuthorization(request, 'bearer');
+    if (token === undefined) {
+      return undefined;
+    }
+
+    const user = tokens.get(token) ?? (await options.verify?.(token));
+    if (!user) {
+      throw new AuthenticationError('Invalid bearer token');
+    }
+    return user;
+  };
+}
+
+/**
+ * Authenticate by `Authorization: Basic` credentials
+ */
+function createBasicAuthenticator(options: BasicAuthOptions): Authenticator {
+  if (typeof options.verify !== 'function') {
+    throw new ServerConfigError('Basic authentication requires a verify function');
+  }
+
+  return async request => {
+    const encoded = getAuthorization(request, 'basic');
+    if (encoded === undefined) {
+      return undefined;
+    }
+
+    const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator < 0) {
+      throw new AuthenticationError('Malformed basic credentials');
+    }
+
+    const user = await options.verify(decoded.slice(0, separator), decoded.slice(separator + 1));
+    if (!user) {
+      throw new AuthenticationError('Invalid username or password');
+    }
+    return user;
+  };
+}
+
+/**
+ * Authenticate bearer tokens by introspection at the authorization server
+ */
+function createIntrospectionAuthenticator(options: OAuth2IntrospectionOptions): Authenticator {
+  if (!options.introspectionUrl || !options.clientId || !options.clientSecret) {
+    throw new ServerConfigError(
+      'OAuth2 authentication requires introspectionUrl, clientId and clientSecret'
+    );
+  }
+
+  const clientCredentials = Buffer.from(`${options.clientId}:${options.clientSecret}`).toString(
+    'base64'
+  );
+
+  return async request => {
+    const token = getAuthorization(request, 'bearer');
+    if (token === undefined) {
+      return undefined;
+    }
+
+    let claims: Record<string, unknown>;
+    try {
+      const response = await fetch(options.introspectionUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${clientCredentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      claims = (await response.json()) as Record<string, unknown>;
+    } catch (error) {
+      throw new ExternalApiError(
+        `Token introspection failed: ${error instanceof Error ? error.message : String(error)}`,
+        { introspectionUrl: options.introspectionUrl }
+      );
+    }
+
+    if (claims.active !== true) {
+      throw new AuthenticationError('Access token is not active');
+    }
+
+    return toUserContext(claims, options.rolesClaim);
+  };
+}
+
+/**
+ * Read a header, taking the first value of repeated headers
+ */
+function getHeader(request: AuthRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read the credentials of an `Authorization` header using the given scheme
+ *
+ * @returns The credentials, or undefined when the header is absent or uses another scheme
+ */
+function getAuthorization(request: AuthRequest, scheme: string): string | undefined {
+  return parseAuthorization(getHeader(request, 'authorization'), scheme);
+}
+
+/**
+ * Normalize a claim holding a list as an array or a space-separated string
+ */
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+
+  return typeof value === 'string' ? value.split(' ').filter(Boolean) : [];
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tool Authorization
+ *
+ * This module decides which callers may see and call a tool. A tool's own
+ * `access` policy applies when it declares one; otherwise the policy configured
+ * for its category applies. Tools without either are open to every caller.
+ *
+ * A policy is satisfied when the caller has at least one of its roles and all
+ * of its permissions. Anonymous callers never satisfy a policy.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  AuthorizationConfig,
+  AuthorizationError,
+  McpTool,
+  ToolAccessPolicy,
+  UserContext,
+} from '../types/index.js';
+
+/**
+ * JSON-RPC error code for calls rejected because the caller lacks access to the tool
+ */
+export const FORBIDDEN = -32005;
+
+/**
+ * Resolve the policy that applies to a tool
+ *
+ * @param tool - Tool being listed or called
+ * @param config - Category policies
+ * @returns The tool's own policy, else its category's, else undefined
+ */
+export function resolveToolPolicy(
+  tool: McpTool,
+  config: AuthorizationConfig = {}
+): ToolAccessPolicy | undefined {
+  return tool.access ?? config.categories?.[tool.category];
+}
+
+/**
+ * Check whether a caller may see and call a tool
+ *
+ * @param tool - Tool being listed or called
+ * @param user - Authenticated caller, if any
+ * @param config - Category policies
+ * @returns True when no policy applies or the caller satisfies it
+ */
+export function isToolAuthorized(
+  tool: McpTool,
+  user: UserContext | undefined,
+  config?: AuthorizationConfig
+): boolean {
+  const policy = resolveToolPolicy(tool, config);
+  if (!policy) {
+    return true;
+  }
+  if (!user) {
+    return false;
+  }
+
+  const { roles = [], permissions = [] } = policy;
+  return (
+    (roles.length === 0 || roles.some(role => user.roles.includes(role))) &&
+    permissions.every(permission => user.permissions.includes(permission))
+  );
+}
+
+/**
+ * Require that a caller may call a tool
+ *
+ * @param tool - Tool being called
+ * @param user - Authenticated caller, if any
+ * @param config - Category policies
+ * @throws {AuthorizationError} When the caller does not satisfy the tool's policy
+ */
+export function authorizeToolCall(
+  tool: McpTool,
+  user: UserContext | undefined,
+  config?: AuthorizationConfig
+): void {
+  if (!isToolAuthorized(tool, user, config)) {
+    throw new AuthorizationError(`Not authorized to call tool: ${tool.name}`, {
+      toolName: tool.name,
+      userId: user?.id,
+      policy: resolveToolPolicy(tool, config),
+    });
+  }
+}
+
+/**
+ * Map an authorization failure to a JSON-RPC error
+ *
+ * @param error - Authorization failure for the call
+ * @returns MCP error with the `FORBIDDEN` code
+ */
+export function toForbiddenError(error: AuthorizationError): McpError {
+  return new McpError(FORBIDDEN, error.message);
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Password Hashing and Basic Credentials
+ *
+ * This module hashes passwords with scrypt and checks HTTP Basic credentials
+ * against a store of hashed passwords. Hashes are self-describing strings of
+ * the form `scrypt$N$r$p$salt$hash` (salt and hash base64-encoded), so the
+ * cost parameters can be raised without invalidating existing hashes.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+import {
+  AuthenticationError,
+  BasicCredentialsConfig,
+  ServerConfigError,
+  UserContext,
+} from '../types/index.js';
+
+/**
+ * Default scrypt cost parameters (N, r, p)
+ */
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 } as const;
+
+/**
+ * Length in bytes of salts and derived keys
+ */
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a password for a credentials store
+ *
+ * @param password - Plain-text password
+ * @returns Self-describing scrypt hash
+ *
+ * @example
+ * ```typescript
+ * const passwordHash = await hashPassword(process.env.ADMIN_PASSWORD!);
+ * ```
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, KEY_LENGTH, { N, r, p });
+
+  return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a hash produced by `hashPassword`
+ *
+ * @param password - Plain-text password
+ * @param passwordHash - Stored hash
+ * @returns True when the password matches
+ * @throws {ServerConfigError} When the hash is not a scrypt hash
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    throw new ServerConfigError('Unsupported password hash format');
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Create a verifier for HTTP Basic credentials
+ *
+ * Unknown usernames cost as much as wrong passwords, so response times do not
+ * reveal which usernames exist.
+ *
+ * @param config - Hashed credentials keyed by username
+ * @returns Function resolving the caller of a username and password
+ * @throws {ServerConfigError} When a stored hash is malformed
+ */
+export function createBasicCredentialVerifier(
+  config: BasicCredentialsConfig
+): (username: string, password: string) => Promise<UserContext> {
+  const users = new Map(Object.entries(config.users));
+  for (const [username, credential] of users) {
+    if (!credential.passwordHash?.startsWith('scrypt$')) {
+      throw new ServerConfigError(`Credential for '${username}' is not a scrypt password hash`);
+    }
+  }
+
+  // Compared against for unknown usernames
+  const decoy = hashPassword(randomBytes(SALT_LENGTH).toString('base64'));
+
+  return async (username, password) => {
+    const credential = users.get(username);
+    const matches = await verifyPassword(password, credential?.passwordHash ?? (await decoy));
+
+    if (!credential || !matches) {
+      throw new AuthenticationError('Invalid username or password');
+    }
+
+    return {
+      id: username,
+      ...(credential.name && { name: credential.name }),
+      roles: credential.roles ?? [],
+      permissions: credential.permissions ?? [],
+    };
+  };
+}
+
+/**
+ * Promisified scrypt key derivation
+ */
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  length: number,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // Allow the memory N * r * 128 bytes needs, with headroom
+    scrypt(
+      password,
+      salt,
+      length,
+      { ...options, maxmem: 256 * options.N! * options.r! },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Development OAuth 2.1 Authorization Server
+ *
+ * This module provides an in-process authorization server for developing and
+ * testing MCP clients against the HTTP transport's `oauth2` mode without an
+ * external identity provider. It supports dynamic client registration
+ * (RFC 7591), the authorization code flow with PKCE, rotating refresh tokens
+ * and token revocation, using the SDK's OAuth endpoint handlers.
+ *
+ * Every authorization request is approved for the configured user without a
+ * login page. It must never be enabled in production.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { generateKeyPairSync, KeyObject, randomBytes, randomUUID } from 'crypto';
+import type { RequestHandler, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import {
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidScopeError,
+  InvalidTokenError,
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import {
+  AuthorizationParams,
+  OAuthServerProvider,
+} from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+
+import { JsonWebKeySet, OAuth2ResourceConfig } from '../types/index.js';
+
+/**
+ * Lifetime of authorization codes in milliseconds
+ */
+const AUTHORIZATION_CODE_TTL = 60000;
+
+/**
+ * Default access token lifetime in seconds
+ */
+const DEFAULT_ACCESS_TOKEN_TTL = 3600;
+
+/**
+ * Authorization granted to a client, pending exchange or renewable by refresh token
+ */
+interface Grant {
+  readonly clientId: string;
+  readonly scopes: string[];
+}
+
+/**
+ * Authorization code awaiting exchange
+ */
+interface PendingAuthorization extends Grant {
+  readonly codeChallenge: string;
+  readonly redirectUri: string;
+  readonly expiresAt: number;
+}
+
+/**
+ * In-process authorization server issuing access tokens for one resource
+ *
+ * @example
+ * ```typescript
+ * const authServer = new DevAuthorizationServer({
+ *   resource: 'http://localhost:8080/mcp',
+ *   issuer: 'http://localhost:8080',
+ * });
+ *
+ * app.use(authServer.router());
+ * ```
+ */
+export class DevAuthorizationServer implements OAuthServerProvider {
+  private readonly _config: OAuth2ResourceConfig;
+  private readonly _clients = new Map<string, OAuthClientInformationFull>();
+  private readonly _codes = new Map<string, PendingAuthorization>();
+  private readonly _refreshTokens = new Map<string, Grant>();
+  private readonly _privateKey: KeyObject;
+  private readonly _publicKey: KeyObject;
+  private readonly _keyId = randomUUID();
+
+  /**
+   * Public keys verifying the access tokens issued by this server
+   */
+  readonly jwks: JsonWebKeySet;
+
+  /**
+   * Create a development authorization server
+   *
+   * @param config - Protected resource the tokens are issued for; `issuer` is this server's URL
+   */
+  constructor(config: OAuth2ResourceConfig) {
+    this._config = config;
+
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this._privateKey = privateKey;
+    this._publicKey = publicKey;
+    this.jwks = {
+      keys: [
+        { ...publicKey.export({ format: 'jwk' }), kid: this._keyId, alg: 'RS256', use: 'sig' },
+      ],
+    };
+  }
+
+  /**
+   * Create the Express router serving the authorization server endpoints
+   * (`/authorize`, `/token`, `/register`, `/revoke` and metadata); it must be
+   * mounted at the application root
+   *
+   * @returns Router handling the OAuth endpoints
+   */
+  router(): RequestHandler {
+    return mcpAuthRouter({
+      provider: this,
+      issuerUrl: new URL(this._config.issuer),
+      scopesSupported: this._config.scopesSupported,
+      resourceName: this._config.resourceName,
+    });
+  }
+
+  get clientsStore(): OAuthRegisteredClientsStore {
+    return {
+      getClient: clientId => this._clients.get(clientId),
+      // The SDK's registration handler assigns the client id before storing
+      registerClient: client => {
+        const registered = client as OAuthClientInformationFull;
+        this._clients.set(registered.client_id, registered);
+        return registered;
+      },
+    };
+  }
+
+  /**
+   * Approve the request for the development user and redirect with a code
+   */
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: Response
+  ): Promise<void> {
+    this._checkResource(params.resource);
+
+    const code = randomBytes(32).toString('base64url');
+    this._codes.set(code, {
+      clientId: client.client_id,
+      scopes: params.scopes ?? [],
+      codeChallenge: params.codeChallenge,
+      redirectUri: params.redirectUri,
+      expiresAt: Date.now() + AUTHORIZATION_CODE_TTL,
+    });
+
+    const redirect = new URL(params.redirectUri);
+    redirect.searchParams.set('code', code);
+    if (params.state !== undefined) {
+      redirect.searchParams.set('state', params.state);
+    }
+    res.redirect(302, redirect.href);
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string
+  ): Promise<string> {
+    return this._findCode(client, authorizationCode).codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string,
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const pending = this._findCode(client, authorizationCode);
+    this._codes.delete(authorizationCode);
+
+    if (redirectUri !== undefined && redirectUri !== pending.redirectUri) {
+      throw new InvalidGrantError('redirect_uri does not match the authorization request');
+    }
+    this._checkResource(resource);
+
+    return this._issueTokens(pending);
+  }
+
+  /**
+   * Exchange a refresh token; each refresh token is single-use and replaced
+   */
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const grant = this._refreshTokens.get(refreshToken);
+    if (!grant || grant.clientId !== client.client_id) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+    if (scopes?.some(scope => !grant.scopes.includes(scope))) {
+      throw new InvalidScopeError('Requested scopes exceed the original grant');
+    }
+    this._checkResource(resource);
+
+    this._refreshTokens.delete(refreshToken);
+    return this._issueTokens({ clientId: grant.clientId, scopes: scopes ?? grant.scopes });
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    try {
+      const claims = jwt.verify(token, this._publicKey, {
+        algorithms: ['RS256'],
+        issuer: this._config.issuer,
+      }) as jwt.JwtPayload;
+
+      return {
+        token,
+        clientId: String(claims.client_id),
+        scopes: typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [],
+        expiresAt: claims.exp,
+        resource: new URL(this._config.resource),
+      };
+    } catch (error) {
+      throw new InvalidTokenError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest
+  ): Promise<void> {
+    if (this._refreshTokens.get(request.token)?.clientId === client.client_id) {
+      this._refreshTokens.delete(request.token);
+    }
+  }
+
+  /**
+   * Sign an access token for the protected resource and store a refresh token
+   */
+  private _issueTokens(grant: Grant): OAuthTokens {
+    const dev = this._config.devAuthorizationServer ?? {};
+    const expiresIn = dev.accessTokenTtl ?? DEFAULT_ACCESS_TOKEN_TTL;
+    const scope = grant.scopes.join(' ');
+
+    const accessToken = jwt.sign(
+      {
+        client_id: grant.clientId,
+        ...(scope && { scope }),
+        ...(dev.roles && { roles: dev.roles }),
+      },
+      this._privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: this._keyId,
+        issuer: this._config.issuer,
+        audience: this._config.resource,
+        subject: dev.subject ?? 'dev-user',
+        expiresIn,
+      }
+    );
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    this._refreshTokens.set(refreshToken, grant);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      ...(scope && { scope }),
+      refresh_token: refreshToken,
+    };
+  }
+
+  /**
+   * Look up an unexpired authorization code issued to a client
+   *
+   * @throws {InvalidGrantError} When the code is unknown, expired or issued to another client
+   */
+  private _findCode(client: OAuthClientInformationFull, code: string): PendingAuthorization {
+    const pending = this._codes.get(code);
+    if (!pending || pending.clientId !== client.client_id || pending.expiresAt < Date.now()) {
+      throw new InvalidGrantError('Invalid authorization code');
+    }
+    return pending;
+  }
+
+  /**
+   * Reject RFC 8707 resource indicators other than the protected resource
+   *
+   * @throws {InvalidRequestError} When the requested resource is another server
+   */
+  private _checkResource(resource: URL | undefined): void {
+    if (resource && resource.href !== new URL(this._config.resource).href) {
+      throw new InvalidRequestError(`Unknown resource: ${resource.href}`);
+    }
+  }
+}
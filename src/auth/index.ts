@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Authentication Module Index
+ *
+ * This module provides the main exports for authenticating MCP requests,
+ * resolving the `UserContext` handed to tools and authorizing tool access.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+// Authenticators
+export {
+  createAuthenticator,
+  toUserContext,
+  toUnauthenticatedError,
+  parseAuthorization,
+  UNAUTHENTICATED,
+} from './authenticator.js';
+
+// Bearer token verifiers
+export {
+  createTokenVerifier,
+  StaticTokenVerifier,
+  JwksTokenVerifier,
+  IntrospectionTokenVerifier,
+} from './verifiers.js';
+
+// JWT issuance, refresh and revocation
+export { JwtTokenIssuer } from './tokens.js';
+
+// Password hashing and Basic credentials
+export { hashPassword, verifyPassword, createBasicCredentialVerifier } from './credentials.js';
+
+// OAuth 2.1 protected resource
+export {
+  createProtectedResourceMetadata,
+  createBearerChallenge,
+  getResourceMetadataUrl,
+  getTokenScopes,
+  getMissingToolScopes,
+  PROTECTED_RESOURCE_METADATA_PATH,
+} from './oauth2.js';
+export { DevAuthorizationServer } from './dev-authorization-server.js';
+
+// Authorization
+export {
+  authorizeToolCall,
+  isToolAuthorized,
+  resolveToolPolicy,
+  toForbiddenError,
+  FORBIDDEN,
+} from './authorization.js';
+
+// Re-export authentication types from main types
+export type {
+  AuthConfig,
+  AuthorizationConfig,
+  AuthMethod,
+  AuthRequest,
+  Authenticator,
+  UserContext,
+  ApiKeyAuthOptions,
+  BearerAuthOptions,
+  BasicAuthOptions,
+  OAuth2IntrospectionOptions,
+  CustomAuthOptions,
+  ToolAccessPolicy,
+  TokenVerifier,
+  BearerVerifierConfig,
+  StaticTokenVerifierConfig,
+  JwksTokenVerifierConfig,
+  IntrospectionTokenVerifierConfig,
+  BasicCredentialsConfig,
+  StoredCredential,
+  JsonWebKeySet,
+  OAuth2ResourceConfig,
+  DevAuthorizationServerConfig,
+  JwtSigningKey,
+  TokenIssuanceConfig,
+  IssuedTokens,
+  RefreshedTokens,
+} from '../types/index.js';
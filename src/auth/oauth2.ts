@@ -0,0 +1,103 @@
+/**
+ * @fileoverview OAuth 2.1 Protected Resource Support
+ *
+ * This module provides the pieces of the MCP authorization spec that a
+ * protected resource needs: OAuth 2.0 Protected Resource Metadata (RFC 9728),
+ * `WWW-Authenticate` challenges pointing clients at that metadata (RFC 6750),
+ * and per-tool scope checks for access tokens.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { OAuth2ResourceConfig, UserContext } from '../types/index.js';
+
+/**
+ * Path prefix of protected resource metadata documents
+ */
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Get the URL of a resource's protected resource metadata
+ *
+ * The well-known prefix is inserted between the host and the resource path,
+ * so `https://api.example.com/mcp` publishes its metadata at
+ * `https://api.example.com/.well-known/oauth-protected-resource/mcp`.
+ *
+ * @param resource - Canonical URI of the protected resource
+ * @returns Metadata URL
+ */
+export function getResourceMetadataUrl(resource: string): string {
+  const url = new URL(resource);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return new URL(`${PROTECTED_RESOURCE_METADATA_PATH}${path}`, url.origin).href;
+}
+
+/**
+ * Build the protected resource metadata document (RFC 9728)
+ *
+ * @param config - Protected resource settings
+ * @returns Metadata naming the resource, its authorization server and scopes
+ */
+export function createProtectedResourceMetadata(
+  config: OAuth2ResourceConfig
+): Record<string, unknown> {
+  return {
+    resource: config.resource,
+    authorization_servers: [config.issuer],
+    bearer_methods_supported: ['header'],
+    ...(config.scopesSupported && { scopes_supported: config.scopesSupported }),
+    ...(config.resourceName && { resource_name: config.resourceName }),
+  };
+}
+
+/**
+ * Build a bearer `WWW-Authenticate` challenge for the protected resource
+ *
+ * @param config - Protected resource settings
+ * @param error - RFC 6750 error code, e.g. `invalid_token` or `insufficient_scope`
+ * @param scopes - Scopes the request needs, for `insufficient_scope`
+ * @returns Challenge header value
+ */
+export function createBearerChallenge(
+  config: OAuth2ResourceConfig,
+  error?: string,
+  scopes?: readonly string[]
+): string {
+  const params = [`resource_metadata="${getResourceMetadataUrl(config.resource)}"`];
+  if (error) {
+    params.push(`error="${error}"`);
+  }
+  if (scopes?.length) {
+    params.push(`scope="${scopes.join(' ')}"`);
+  }
+  return `Bearer ${params.join(', ')}`;
+}
+
+/**
+ * Get the scopes granted to the access token a user authenticated with
+ *
+ * @param user - User resolved from an access token
+ * @returns Scopes from the token's `scope` claim
+ */
+export function getTokenScopes(user: UserContext | undefined): string[] {
+  const scope = user?.metadata?.scope;
+  return typeof scope === 'string' ? scope.split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Find the scopes a tool call needs that a token lacks
+ *
+ * @param config - Protected resource settings with the per-tool scopes
+ * @param toolName - Tool being called
+ * @param granted - Scopes granted to the access token
+ * @returns Required scopes, or an empty array when the token has them all
+ */
+export function getMissingToolScopes(
+  config: OAuth2ResourceConfig,
+  toolName: string,
+  granted: readonly string[]
+): readonly string[] {
+  const required = config.toolScopes?.[toolName] ?? [];
+  return required.some(scope => !granted.includes(scope)) ? required : [];
+}
@@ -0,0 +1,339 @@
+/**
+ * @fileoverview JWT Issuance, Refresh and Revocation
+ *
+ * This module issues the short-lived access tokens of the HTTP transport's
+ * `jwt` authentication. Access tokens are HMAC-signed JWTs carrying the
+ * caller's roles and permissions, with the signing key named in the `kid`
+ * header so keys can be rotated while older tokens stay valid. Refresh tokens
+ * are opaque and single-use: each refresh replaces the token, and presenting a
+ * replaced token again revokes every token of the same login.
+ *
+ * All state is held in memory and is lost on restart.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+import {
+  AuthenticationError,
+  HttpAuthConfig,
+  IssuedTokens,
+  RefreshedTokens,
+  JwtSigningKey,
+  ServerConfigError,
+  TokenVerifier,
+  UserContext,
+} from '../types/index.js';
+import { toUserContext } from './authenticator.js';
+
+/**
+ * Default access token lifetime
+ */
+const DEFAULT_ACCESS_TOKEN_EXPIRATION = '15m';
+
+/**
+ * Default refresh token lifetime in seconds
+ */
+const DEFAULT_REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Algorithms accepted when verifying access tokens
+ */
+const HMAC_ALGORITHMS: jwt.Algorithm[] = ['HS256', 'HS384', 'HS512'];
+
+/**
+ * Login a refresh token renews, shared by every token rotated from it
+ */
+interface RefreshGrant {
+  readonly user: UserContext;
+  readonly family: string;
+  readonly expiresAt: number;
+  /** Expiry of the last access token issued for the login, in milliseconds */
+  readonly accessExpiresAt: number;
+}
+
+/**
+ * Issues, verifies and revokes the `jwt` mode's access and refresh tokens
+ *
+ * @example
+ * ```typescript
+ * const issuer = new JwtTokenIssuer({
+ *   enabled: true,
+ *   type: 'jwt',
+ *   jwtKeys: [{ kid: '2024-06', secret: process.env.JWT_SECRET! }],
+ *   jwtExpiration: '10m',
+ * });
+ *
+ * const tokens = issuer.issue({ id: 'ci', roles: ['deployer'], permissions: [] });
+ * const user = await issuer.verify(tokens.access_token);
+ * ```
+ */
+export class JwtTokenIssuer implements TokenVerifier {
+  private readonly _keys: JwtSigningKey[];
+  private readonly _legacySecret?: string;
+  private readonly _expiration: string;
+  private readonly _refreshTokenTtl: number;
+  /** Active refresh tokens by hash */
+  private readonly _refreshTokens = new Map<string, RefreshGrant>();
+  /** Replaced refresh tokens by hash, kept to detect reuse */
+  private readonly _usedRefreshTokens = new Map<string, RefreshGrant>();
+  /** Revoked access token and login ids, until their access tokens expire (ms) */
+  private readonly _revokedIds = new Map<string, number>();
+
+  /**
+   * Create a token issuer
+   *
+   * @param auth - `jwt` authentication configuration
+   * @throws {ServerConfigError} When neither `jwtKeys` nor `jwtSecret` is configured
+   */
+  constructor(auth: HttpAuthConfig) {
+    this._keys = [...(auth.jwtKeys ?? [])];
+    this._legacySecret = auth.jwtSecret;
+    if (this._keys.length === 0 && this._legacySecret) {
+      this._keys.push({ kid: 'default', secret: this._legacySecret });
+    }
+    if (this._keys.length === 0) {
+      throw new ServerConfigError('JWT authentication requires jwtKeys or a jwtSecret');
+    }
+
+    this._expiration = auth.jwtExpiration ?? DEFAULT_ACCESS_TOKEN_EXPIRATION;
+    this._refreshTokenTtl = auth.issuance?.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL;
+  }
+
+  /**
+   * Issue an access token and a refresh token starting a new login
+   *
+   * @param user - Caller the tokens identify
+   * @returns Token response
+   */
+  issue(user: UserContext): IssuedTokens {
+    return this._issue(user, randomUUID());
+  }
+
+  /**
+   * Exchange a refresh token for new tokens; the presented token is spent
+   *
+   * @param refreshToken - Refresh token from an earlier response
+   * @returns Token response with a replacement refresh token, and the token's user
+   * @throws {AuthenticationError} When the token is unknown, expired or already used
+   */
+  refresh(refreshToken: string): RefreshedTokens {
+    this._prune();
+    const hash = hashToken(refreshToken);
+
+    const reused = this._usedRefreshTokens.get(hash);
+    if (reused) {
+      // A spent token coming back means it leaked; end the whole login
+      this._revokeFamily(reused.family);
+      throw new AuthenticationError('Refresh token has already been used', {
+        userId: reused.user.id,
+      });
+    }
+
+    const grant = this._refreshTokens.get(hash);
+    if (!grant) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    this._refreshTokens.delete(hash);
+    this._usedRefreshTokens.set(hash, grant);
+    return { tokens: this._issue(grant.user, grant.family), user: grant.user };
+  }
+
+  /**
+   * Revoke an access token, or a refresh token and every token rotated from it
+   *
+   * Unknown tokens are ignored so callers cannot probe which tokens exist,
+   * and so are access tokens this issuer did not sign, which would otherwise
+   * grow the revocation list without bound.
+   *
+   * @param token - Access or refresh token
+   */
+  revoke(token: string): void {
+    this._prune();
+
+    const grant = this._refreshTokens.get(hashToken(token));
+    if (grant) {
+      this._revokeFamily(grant.family);
+      return;
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = this._verifySignature(token);
+    } catch {
+      return;
+    }
+
+    if (claims.jti && claims.exp) {
+      this._revokedIds.set(claims.jti, claims.exp * 1000);
+    }
+  }
+
+  /**
+   * Verify an access token
+   *
+   * @param token - Access token
+   * @returns The caller the token identifies
+   * @throws {AuthenticationError} When the token is invalid, expired or revoked
+   */
+  async verify(token: string): Promise<UserContext> {
+    const claims = this._verifySignature(token);
+    if ([claims.jti, claims.sid].some(id => id !== undefined && this._revokedIds.has(id))) {
+      throw new AuthenticationError('Access token has been revoked');
+    }
+    return toUserContext(claims);
+  }
+
+  /**
+   * Check an access token's signature and expiry against the signing keys
+   *
+   * @param token - Access token
+   * @returns The token's claims
+   * @throws {AuthenticationError} When the token is malformed, expired or not signed by a known key
+   */
+  private _verifySignature(token: string): jwt.JwtPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new AuthenticationError('Malformed access token');
+    }
+
+    const kid = decoded.header.kid;
+    // Tokens without a key id predate key rotation and use the configured secret
+    const secret =
+      kid === undefined ? this._legacySecret : this._keys.find(key => key.kid === kid)?.secret;
+    if (!secret) {
+      throw new AuthenticationError('Access token signed with an unknown key', { kid });
+    }
+
+    let claims: string | jwt.JwtPayload;
+    try {
+      claims = jwt.verify(token, secret, { algorithms: HMAC_ALGORITHMS });
+    } catch (error) {
+      throw new AuthenticationError(
+        `Invalid access token: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (typeof claims !== 'object') {
+      throw new AuthenticationError('Access token has no claims');
+    }
+    return claims;
+  }
+
+  /**
+   * Sign new tokens with a new key; earlier keys keep verifying the tokens
+   * they signed until retired
+   *
+   * @param key - New signing key
+   * @throws {ServerConfigError} When the key id is already in use
+   */
+  rotateKey(key: JwtSigningKey): void {
+    if (this._keys.some(existing => existing.kid === key.kid)) {
+      throw new ServerConfigError(`Signing key '${key.kid}' already exists`);
+    }
+    this._keys.unshift(key);
+  }
+
+  /**
+   * Stop accepting tokens signed with a key
+   *
+   * @param kid - Key id to retire
+   * @throws {ServerConfigError} When the key is the current signing key
+   */
+  retireKey(kid: string): void {
+    if (this._keys[0]!.kid === kid) {
+      throw new ServerConfigError('The current signing key cannot be retired');
+    }
+    const index = this._keys.findIndex(key => key.kid === kid);
+    if (index >= 0) {
+      this._keys.splice(index, 1);
+    }
+  }
+
+  /**
+   * Sign an access token and store a refresh token for a login
+   */
+  private _issue(user: UserContext, family: string): IssuedTokens {
+    this._prune();
+    const key = this._keys[0]!;
+
+    const accessToken = jwt.sign(
+      {
+        ...(user.name && { name: user.name }),
+        roles: user.roles,
+        permissions: user.permissions,
+        sid: family,
+      },
+      key.secret,
+      {
+        algorithm: 'HS256',
+        keyid: key.kid,
+        subject: user.id,
+        jwtid: randomUUID(),
+        expiresIn: this._expiration as jwt.SignOptions['expiresIn'],
+      }
+    );
+    const { iat, exp } = jwt.decode(accessToken) as jwt.JwtPayload;
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    this._refreshTokens.set(hashToken(refreshToken), {
+      user,
+      family,
+      expiresAt: Date.now() + this._refreshTokenTtl * 1000,
+      accessExpiresAt: exp! * 1000,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: exp! - iat!,
+      refresh_token: refreshToken,
+    };
+  }
+
+  /**
+   * Revoke every refresh and access token of a login
+   */
+  private _revokeFamily(family: string): void {
+    let accessExpiresAt = 0;
+    for (const store of [this._refreshTokens, this._usedRefreshTokens]) {
+      for (const [hash, grant] of store) {
+        if (grant.family === family) {
+          accessExpiresAt = Math.max(accessExpiresAt, grant.accessExpiresAt);
+          store.delete(hash);
+        }
+      }
+    }
+    this._revokedIds.set(family, accessExpiresAt);
+  }
+
+  /**
+   * Forget expired refresh tokens and revocations of expired access tokens
+   */
+  private _prune(): void {
+    const now = Date.now();
+    for (const store of [this._refreshTokens, this._usedRefreshTokens]) {
+      for (const [hash, grant] of store) {
+        if (grant.expiresAt <= now) {
+          store.delete(hash);
+        }
+      }
+    }
+    for (const [id, expiresAt] of this._revokedIds) {
+      if (expiresAt <= now) {
+        this._revokedIds.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Hash a refresh token for storage, so a memory dump does not reveal usable tokens
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('base64url');
+}
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Bearer Token Verifiers
+ *
+ * This module provides the `TokenVerifier` implementations used by the HTTP
+ * transport's `bearer` authentication:
+ * - `static`: a fixed map of tokens to callers
+ * - `jwt`: JWTs signed with an asymmetric key from a JWKS file, URL or object
+ * - `introspection`: a callback resolving token claims, such as an RFC 7662
+ *   introspection request
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import jwt from 'jsonwebtoken';
+
+import {
+  AuthenticationError,
+  BearerVerifierConfig,
+  IntrospectionTokenVerifierConfig,
+  JsonWebKeySet,
+  JwksTokenVerifierConfig,
+  ServerConfigError,
+  StaticTokenVerifierConfig,
+  TokenVerifier,
+  UserContext,
+} from '../types/index.js';
+import { toUserContext } from './authenticator.js';
+
+/**
+ * Signature algorithms accepted for JWKS keys that do not name one.
+ * Symmetric algorithms are excluded: a public key must never verify an HMAC.
+ */
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+/**
+ * Minimum time between re-reads of a key set for unknown key ids, so forged
+ * key ids cannot make every request hit the JWKS endpoint
+ */
+const JWKS_RELOAD_INTERVAL = 30000;
+
+/**
+ * Create the token verifier for a bearer configuration
+ *
+ * @param config - Verification strategy and its options
+ * @returns Token verifier
+ * @throws {ServerConfigError} When the options do not fit the strategy
+ */
+export function createTokenVerifier(config: BearerVerifierConfig): TokenVerifier {
+  switch (config.type) {
+    case 'static':
+      return new StaticTokenVerifier(config);
+    case 'jwt':
+      return new JwksTokenVerifier(config);
+    case 'introspection':
+      return new IntrospectionTokenVerifier(config);
+    default:
+      throw new ServerConfigError(
+        `Unsupported bearer verifier: ${String((config as { type?: unknown }).type)}`
+      );
+  }
+}
+
+/**
+ * Verifies tokens against a fixed map of tokens to callers
+ */
+export class StaticTokenVerifier implements TokenVerifier {
+  private readonly _tokens: ReadonlyMap<string, UserContext>;
+
+  constructor(config: StaticTokenVerifierConfig) {
+    if (!config.tokens) {
+      throw new ServerConfigError('Static bearer verification requires tokens');
+    }
+    this._tokens = new Map(Object.entries(config.tokens));
+  }
+
+  async verify(token: string): Promise<UserContext> {
+    const user = this._tokens.get(token);
+    if (!user) {
+      throw new AuthenticationError('Invalid bearer token');
+    }
+    return user;
+  }
+}
+
+/**
+ * Verifies JWTs against the public keys of a JSON Web Key Set
+ *
+ * A JWKS file or URL is read on first use and read again (at most every 30
+ * seconds) when a token names a key id it does not contain, so rotated keys
+ * are picked up without a restart.
+ */
+export class JwksTokenVerifier implements TokenVerifier {
+  private readonly _config: JwksTokenVerifierConfig;
+  private _keys?: Promise<Map<string | undefined, SigningKey>>;
+  private _loadedAt = 0;
+
+  constructor(config: JwksTokenVerifierConfig) {
+    if (!config.jwksFile && !config.jwksUri && !config.jwks) {
+      throw new ServerConfigError('JWT bearer verification requires a jwksFile, jwksUri or jwks');
+    }
+    this._config = config;
+  }
+
+  async verify(token: string): Promise<UserContext> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new AuthenticationError('Malformed bearer token');
+    }
+
+    const kid = decoded.header.kid;
+    let key = selectKey(await this._loadKeys(), kid);
+    if (!key && kid !== undefined && Date.now() - this._loadedAt >= JWKS_RELOAD_INTERVAL) {
+      key = selectKey(await this._loadKeys(true), kid);
+    }
+    if (!key) {
+      throw new AuthenticationError('Bearer token signed with an unknown key', { kid });
+    }
+
+    let claims: string | jwt.JwtPayload;
+    try {
+      claims = jwt.verify(token, key.key, {
+        algorithms: key.algorithms,
+        ...(this._config.issuer && { issuer: this._config.issuer }),
+        ...(this._config.audience && {
+          audience: this._config.audience as string | [string, ...string[]],
+        }),
+      });
+    } catch (error) {
+      throw new AuthenticationError(
+        `Invalid bearer token: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (typeof claims !== 'object') {
+      throw new AuthenticationError('Bearer token has no claims');
+    }
+    return toUserContext(claims, this._config.rolesClaim);
+  }
+
+  /**
+   * Read the signing keys, keyed by key id
+   *
+   * @param reload - Read the key set again instead of using the cached keys
+   * @throws {ServerConfigError} When the key set cannot be read or holds no usable keys
+   */
+  private _loadKeys(reload = false): Promise<Map<string | undefined, SigningKey>> {
+    if (!this._keys || reload) {
+      const loading = readJwks(this._config);
+      this._loadedAt = Date.now();
+      // Retry on the next token rather than caching a failed read
+      loading.catch(() => {
+        if (this._keys === loading) {
+          this._keys = undefined;
+        }
+      });
+      this._keys = loading;
+    }
+    return this._keys;
+  }
+}
+
+/**
+ * Verifies tokens with a callback that resolves their claims
+ */
+export class IntrospectionTokenVerifier implements TokenVerifier {
+  private readonly _config: IntrospectionTokenVerifierConfig;
+
+  constructor(config: IntrospectionTokenVerifierConfig) {
+    if (typeof config.introspect !== 'function') {
+      throw new ServerConfigError(
+        'Introspection bearer verification requires an introspect function'
+      );
+    }
+    this._config = config;
+  }
+
+  async verify(token: string): Promise<UserContext> {
+    const claims = await this._config.introspect(token);
+    if (claims?.active !== true) {
+      throw new AuthenticationError('Access token is not active');
+    }
+    return toUserContext(claims, this._config.rolesClaim);
+  }
+}
+
+// =============================================================================
+// JWKS Loading
+// =============================================================================
+
+/**
+ * Public key and the algorithms it may verify
+ */
+interface SigningKey {
+  readonly key: KeyObject;
+  readonly algorithms: jwt.Algorithm[];
+}
+
+/**
+ * Pick the key for a token's key id; a token naming no key may use the only key
+ */
+function selectKey(
+  keys: Map<string | undefined, SigningKey>,
+  kid: string | undefined
+): SigningKey | undefined {
+  if (kid === undefined && keys.size === 1) {
+    return keys.values().next().value;
+  }
+  return keys.get(kid);
+}
+
+/**
+ * Read the signing keys of the configured key set
+ *
+ * @param config - JWKS file, URL or in-memory key set, in order of precedence
+ * @returns Keys by key id
+ * @throws {ServerConfigError} When the key set cannot be read or holds no usable keys
+ */
+async function readJwks(
+  config: JwksTokenVerifierConfig
+): Promise<Map<string | undefined, SigningKey>> {
+  const source = config.jwksFile ?? config.jwksUri ?? 'inline';
+  let jwks: JsonWebKeySet;
+  try {
+    if (config.jwksFile) {
+      jwks = JSON.parse(await readFile(config.jwksFile, 'utf8'));
+    } else if (config.jwksUri) {
+      const response = await fetch(config.jwksUri, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      jwks = (await response.json()) as JsonWebKeySet;
+    } else {
+      jwks = config.jwks!;
+    }
+  } catch (error) {
+    throw new ServerConfigError(
+      `JWKS could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      { source }
+    );
+  }
+
+  const keys = new Map<string | undefined, SigningKey>();
+  for (const jwk of (jwks.keys ?? []) as Array<JsonWebKey & { kid?: string; use?: string }>) {
+    if (jwk.use && jwk.use !== 'sig') {
+      continue;
+    }
+    // Only public keys: 'oct' secrets would make any HMAC-signed token verifiable
+    if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') {
+      continue;
+    }
+
+    const algorithms = jwk.alg ? [jwk.alg as jwt.Algorithm] : ASYMMETRIC_ALGORITHMS;
+    keys.set(jwk.kid, { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithms });
+  }
+
+  if (keys.size === 0) {
+    throw new ServerConfigError('JWKS holds no public signing keys', { source });
+  }
+  return keys;
+}
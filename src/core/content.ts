@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Tool Result Conversion for MCP Servers
+ *
+ * This module turns a `ToolResult` into an MCP `tools/call` result: typed
+ * content blocks, `structuredContent` checked against the tool's output
+ * schema, and `isError` for failed executions.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { McpTool, ToolContent, ToolExecutionError, ToolResult } from '../types/index.js';
+import { isPlainObject } from '../utils/index.js';
+import { formatZodIssues } from '../utils/validation.js';
+import { toWireContent } from './resources.js';
+
+/**
+ * Convert a tool result to its `tools/call` protocol form
+ *
+ * When the result carries no `content`, a single text block is derived from
+ * `data` (strings as-is, anything else as JSON), from `structuredContent`, or
+ * from `error` for failures. For tools with an `outputSchema`, successful
+ * results must provide `structuredContent` (or an object `data`) matching it.
+ *
+ * @param tool - Tool that produced the result
+ * @param result - Result returned by the tool
+ * @returns Result sent to the client
+ * @throws {ToolExecutionError} When structured output does not match the output schema
+ */
+export function toCallToolResult(tool: McpTool, result: ToolResult): CallToolResult {
+  const structuredContent = result.success ? resolveStructuredContent(tool, result) : undefined;
+
+  return {
+    content: (result.content ?? defaultContent(result, structuredContent)).map(toWireToolContent),
+    ...(structuredContent && { structuredContent }),
+    ...(!result.success && { isError: true }),
+  };
+}
+
+/**
+ * Check a tool result against the tool's output schema
+ *
+ * For transports that answer with the `ToolResult` itself instead of a
+ * `tools/call` result; applies the same rules as {@link toCallToolResult}.
+ *
+ * @param tool - Tool that produced the result
+ * @param result - Result returned by the tool
+ * @returns The result, with `structuredContent` as parsed by the output schema
+ * @throws {ToolExecutionError} When structured output does not match the output schema
+ */
+export function validateToolOutput(tool: McpTool, result: ToolResult): ToolResult {
+  const structuredContent = result.success ? resolveStructuredContent(tool, result) : undefined;
+
+  return structuredContent ? { ...result, structuredContent } : result;
+}
+
+/**
+ * Convert a content block to its protocol form, base64-encoding binary data
+ *
+ * @param content - Content returned by a tool
+ * @returns Content block as sent to clients
+ */
+export function toWireToolContent(content: ToolContent): CallToolResult['content'][number] {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', text: content.text };
+
+    case 'image':
+    case 'audio':
+      return { type: content.type, data: toBase64(content.data), mimeType: content.mimeType };
+
+    case 'resource':
+      return {
+        type: 'resource',
+        resource: toWireContent(content.resource, content.resource.uri),
+      };
+
+    case 'resource_link':
+      return {
+        type: 'resource_link',
+        uri: content.uri,
+        name: content.name,
+        ...(content.title && { title: content.title }),
+        ...(content.description && { description: content.description }),
+        ...(content.mimeType && { mimeType: content.mimeType }),
+      };
+  }
+}
+
+/**
+ * Pick and validate the structured output of a successful result
+ */
+function resolveStructuredContent(
+  tool: McpTool,
+  result: ToolResult
+): Record<string, unknown> | undefined {
+  if (!tool.outputSchema) {
+    return result.structuredContent;
+  }
+
+  const candidate =
+    result.structuredContent ?? (isPlainObject(result.data) ? result.data : undefined);
+
+  const parsed = tool.outputSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw new ToolExecutionError(
+      `Tool '${tool.name}' returned output that does not match its output schema`,
+      { toolName: tool.name, issues: formatZodIssues(parsed.error) }
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Derive a text block for results that carry no explicit content
+ */
+function defaultContent(
+  result: ToolResult,
+  structuredContent: Record<string, unknown> | undefined
+): ToolContent[] {
+  if (!result.success) {
+    return [{ type: 'text', text: result.error ?? 'Tool execution failed' }];
+  }
+
+  const value = result.data ?? structuredContent;
+  if (value === undefined) {
+    return [];
+  }
+
+  return [
+    { type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) },
+  ];
+}
+
+/**
+ * Encode binary data as base64, passing strings through unchanged
+ */
+function toBase64(data: Uint8Array | string): string {
+  return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
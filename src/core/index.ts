@@ -20,6 +20,21 @@ export {
   ServerBuilder as Builder,
 } from './server.js';
 
+// Resource registry
+export { ResourceRegistry, RESOURCE_NOT_FOUND } from './resources.js';
+
+// Prompt registry
+export { PromptRegistry } from './prompts.js';
+
+// Tool middleware
+export { runMiddleware } from './middleware.js';
+
+// Tool plugins
+export { PluginLoader } from './plugins.js';
+
+// Tool result conversion
+export { toCallToolResult, toWireToolContent } from './content.js';
+
 // Import for internal use
 import { createServerBuilder } from './server.js';
 
@@ -30,6 +45,18 @@ export type {
   ServerState,
   ServerStats,
   HealthCheckResult,
+  McpResource,
+  McpResourceTemplate,
+  ResourceContent,
+  ResourceDescriptor,
+  McpPrompt,
+  PromptMessage,
+  ToolContent,
+  ToolMiddleware,
+  ToolCallContext,
+  ToolCallOptions,
+  PluginConfig,
+  PluginLoadResult,
 } from '../types/index.js';
 
 // Utility re-exports for convenience
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Tool Middleware Pipeline
+ *
+ * This module runs the middleware registered on a server around a tool call.
+ * Middleware forms an onion: the first registered wraps all the others, so
+ * its `before` hook runs first and its `after` and `error` hooks run last.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { ToolCallContext, ToolMiddleware, ToolResult } from '../types/index.js';
+
+/**
+ * Run a tool call through a middleware chain
+ *
+ * @param middleware - Middleware in registration order
+ * @param context - Call context passed to every hook
+ * @param execute - Innermost step that executes the tool
+ * @returns Result after every `after` hook has run
+ * @throws The original error, or the error thrown by an `error` hook, when no hook recovers
+ *
+ * @example
+ * ```typescript
+ * const result = await runMiddleware([audit, redact], context, () =>
+ *   tool.execute(context.args)
+ * );
+ * ```
+ */
+export function runMiddleware(
+  middleware: readonly ToolMiddleware[],
+  context: ToolCallContext,
+  execute: (context: ToolCallContext) => Promise<ToolResult>
+): Promise<ToolResult> {
+  const dispatch = async (index: number): Promise<ToolResult> => {
+    const current = middleware[index];
+    if (!current) {
+      return execute(context);
+    }
+
+    await current.before?.(context);
+
+    let result: ToolResult;
+    try {
+      result = await dispatch(index + 1);
+    } catch (error) {
+      if (!current.error) {
+        throw error;
+      }
+
+      const recovered = await current.error(context, error);
+      if (!recovered) {
+        throw error;
+      }
+
+      return recovered;
+    }
+
+    return (await current.after?.(context, result)) ?? result;
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,339 @@
+/**
+ * @fileoverview Tool Plugin Loader
+ *
+ * This module discovers tool modules in configured directories and packages,
+ * registers their tools with a server and, when watching, reloads or removes
+ * them as plugin files change. A plugin that fails to load is logged and
+ * skipped without affecting the server or other plugins.
+ *
+ * A plugin is an ES module that exports `McpTool` objects, or arrays of them,
+ * as its default export or as named exports. Other exports are ignored.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { FSWatcher, watch } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { extname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Logger } from 'winston';
+
+import {
+  McpServer,
+  McpTool,
+  PluginConfig,
+  PluginLoadError,
+  PluginLoadResult,
+  isMcpTool,
+} from '../types/index.js';
+import { createDefaultLogger } from '../utils/logger.js';
+
+/**
+ * File extensions loaded from plugin directories
+ */
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs']);
+
+/**
+ * Quiet period after a file change before the plugin is reloaded, so that
+ * editors and deploy tools writing a file in several steps cause one reload
+ */
+const RELOAD_DELAY = 100;
+
+/**
+ * Server operations the loader needs
+ */
+type PluginHost = Pick<McpServer, 'getTool' | 'registerTool' | 'unregisterTool'>;
+
+/**
+ * Loads tool plugins into a server
+ *
+ * @example
+ * ```typescript
+ * const loader = new PluginLoader(server, {
+ *   directories: ['/opt/mcp/plugins'],
+ *   packages: ['@acme/mcp-weather-tools'],
+ *   watch: true,
+ * });
+ *
+ * const results = await loader.start();
+ * ```
+ */
+export class PluginLoader {
+  private readonly _host: PluginHost;
+  private readonly _config: PluginConfig;
+  private readonly _logger: Logger;
+  private readonly _plugins = new Map<string, readonly McpTool[]>();
+  private readonly _watchers: FSWatcher[] = [];
+  private readonly _pendingReloads = new Map<string, NodeJS.Timeout>();
+  private _generation = 0;
+
+  /**
+   * Create a plugin loader
+   *
+   * @param host - Server the plugin tools are registered with
+   * @param config - Plugin directories, packages and watch mode
+   * @param logger - Logger for load results; a default logger is created when omitted
+   */
+  constructor(host: PluginHost, config: PluginConfig, logger?: Logger) {
+    this._host = host;
+    this._config = config;
+    this._logger =
+      logger ??
+      createDefaultLogger({ level: 'info', format: 'pretty', output: 'console' }, 'plugins');
+  }
+
+  /**
+   * Get the tool names registered by each loaded plugin
+   */
+  get plugins(): ReadonlyMap<string, readonly string[]> {
+    return new Map(
+      Array.from(this._plugins, ([source, tools]) => [source, tools.map(tool => tool.name)])
+    );
+  }
+
+  /**
+   * Load every configured plugin and start watching the plugin directories
+   * when `watch` is enabled
+   *
+   * @returns Outcome of each plugin load
+   */
+  async start(): Promise<PluginLoadResult[]> {
+    const results = await this.loadAll();
+
+    if (this._config.watch) {
+      for (const directory of this._config.directories) {
+        this._watchDirectory(resolve(directory));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Stop watching plugin directories; loaded tools stay registered
+   */
+  stop(): void {
+    for (const watcher of this._watchers.splice(0)) {
+      watcher.close();
+    }
+
+    for (const timer of this._pendingReloads.values()) {
+      clearTimeout(timer);
+    }
+    this._pendingReloads.clear();
+  }
+
+  /**
+   * Load every configured package and every plugin file in the configured directories
+   *
+   * @returns Outcome of each plugin load
+   */
+  async loadAll(): Promise<PluginLoadResult[]> {
+    const sources = [...(this._config.packages ?? [])];
+
+    for (const directory of this._config.directories) {
+      sources.push(...(await this._listPluginFiles(resolve(directory))));
+    }
+
+    const results: PluginLoadResult[] = [];
+    for (const source of sources) {
+      results.push(await this.load(source));
+    }
+
+    return results;
+  }
+
+  /**
+   * Load, or reload, a single plugin
+   *
+   * The tools of a previously loaded version are replaced. Failures are
+   * logged and reported in the result; they are never thrown.
+   *
+   * @param source - Plugin file path or package name
+   * @returns Outcome of the load
+   */
+  async load(source: string): Promise<PluginLoadResult> {
+    const key = this._isFileSource(source) ? resolve(source) : source;
+
+    try {
+      const tools = await this._importTools(key);
+      const previous = this._plugins.get(key) ?? [];
+
+      // A plugin may replace its own tools but not tools registered elsewhere
+      for (const tool of tools) {
+        const existing = this._host.getTool(tool.name);
+        if (existing && !previous.includes(existing)) {
+          throw new PluginLoadError(key, `Tool '${tool.name}' is already registered`);
+        }
+      }
+
+      this.unload(key);
+      for (const tool of tools) {
+        this._host.registerTool(tool);
+      }
+      this._plugins.set(key, tools);
+
+      const names = tools.map(tool => tool.name);
+      this._logger.info('Plugin loaded', { source: key, tools: names });
+      return { source: key, tools: names };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this._logger.error('Plugin failed to load', { source: key, error: message });
+      return { source: key, tools: [], error: message };
+    }
+  }
+
+  /**
+   * Unregister the tools of a plugin
+   *
+   * Tools that have since been replaced by another registration are left alone.
+   *
+   * @param source - Plugin file path or package name
+   * @returns Names of the tools that were unregistered
+   */
+  unload(source: string): string[] {
+    const key = this._isFileSource(source) ? resolve(source) : source;
+    const tools = this._plugins.get(key);
+    if (!tools) {
+      return [];
+    }
+
+    this._plugins.delete(key);
+    const removed = tools
+      .filter(tool => this._host.getTool(tool.name) === tool)
+      .map(tool => tool.name);
+
+    for (const name of removed) {
+      this._host.unregisterTool(name);
+    }
+
+    this._logger.info('Plugin unloaded', { source: key, tools: removed });
+    return removed;
+  }
+
+  /**
+   * Import a plugin module and collect the tools it exports
+   *
+   * @param source - Absolute file path or package name
+   * @returns Exported tools, without duplicates
+   * @throws {PluginLoadError} When the module cannot be imported or exports no tools
+   */
+  private async _importTools(source: string): Promise<McpTool[]> {
+    // ES modules are cached by URL, so every file load gets a fresh one
+    const specifier = isAbsolute(source)
+      ? `${pathToFileURL(source).href}?generation=${++this._generation}`
+      : source;
+
+    let module: Record<string, unknown>;
+    try {
+      module = (await import(specifier)) as Record<string, unknown>;
+    } catch (error) {
+      throw new PluginLoadError(
+        source,
+        `Failed to import plugin: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const tools = new Set<McpTool>();
+    for (const value of Object.values(module)) {
+      for (const candidate of Array.isArray(value) ? value : [value]) {
+        if (isMcpTool(candidate)) {
+          tools.add(candidate);
+        }
+      }
+    }
+
+    if (tools.size === 0) {
+      throw new PluginLoadError(source, 'Plugin exports no tools');
+    }
+
+    return Array.from(tools);
+  }
+
+  /**
+   * List the plugin files in a directory
+   *
+   * @param directory - Absolute directory path
+   * @returns Absolute paths of plugin files, sorted by name
+   */
+  private async _listPluginFiles(directory: string): Promise<string[]> {
+    try {
+      const entries = await readdir(directory, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isFile() && PLUGIN_EXTENSIONS.has(extname(entry.name)))
+        .map(entry => join(directory, entry.name))
+        .sort();
+    } catch (error) {
+      this._logger.error('Plugin directory could not be read', {
+        directory,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Reload or unload plugins when files in a directory change
+   *
+   * @param directory - Absolute directory path
+   */
+  private _watchDirectory(directory: string): void {
+    try {
+      const watcher = watch(directory, (_event, filename) => {
+        if (filename && PLUGIN_EXTENSIONS.has(extname(filename))) {
+          this._scheduleReload(join(directory, filename.toString()));
+        }
+      });
+
+      watcher.on('error', error => {
+        this._logger.error('Plugin directory watch failed', { directory, error: error.message });
+      });
+
+      this._watchers.push(watcher);
+      this._logger.debug('Watching plugin directory', { directory });
+    } catch (error) {
+      this._logger.error('Plugin directory could not be watched', {
+        directory,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Reload a plugin file once it has stopped changing, or unload it if it was removed
+   *
+   * @param file - Absolute plugin file path
+   */
+  private _scheduleReload(file: string): void {
+    clearTimeout(this._pendingReloads.get(file));
+
+    this._pendingReloads.set(
+      file,
+      setTimeout(async () => {
+        this._pendingReloads.delete(file);
+
+        const exists = await stat(file).then(
+          stats => stats.isFile(),
+          () => false
+        );
+
+        if (exists) {
+          await this.load(file);
+        } else {
+          this.unload(file);
+        }
+      }, RELOAD_DELAY)
+    );
+  }
+
+  /**
+   * Check whether a plugin source is a file path rather than a package name
+   *
+   * @param source - Plugin source
+   * @returns True for absolute and relative paths
+   */
+  private _isFileSource(source: string): boolean {
+    return isAbsolute(source) || source.startsWith('./') || source.startsWith('../');
+  }
+}
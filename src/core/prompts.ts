@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Prompt Registry for MCP Servers
+ *
+ * This module stores the prompts registered on a server and turns them into
+ * MCP `prompts/list` and `prompts/get` results. Prompt arguments are declared
+ * as a Zod object schema, advertised to clients as named arguments and
+ * validated before the prompt is rendered.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+  PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ZodTypeAny } from 'zod';
+
+import { McpPrompt, PromptMessage } from '../types/index.js';
+import { formatZodIssues } from '../utils/validation.js';
+import { toWireContent } from './resources.js';
+
+/**
+ * Registry of prompts keyed by name
+ *
+ * @example
+ * ```typescript
+ * const registry = new PromptRegistry();
+ * registry.register(reviewPrompt);
+ *
+ * const result = await registry.get('code-review', { code: 'let x = 1' });
+ * ```
+ */
+export class PromptRegistry {
+  private readonly _prompts: Map<string, McpPrompt> = new Map();
+
+  /**
+   * Number of registered prompts
+   */
+  get size(): number {
+    return this._prompts.size;
+  }
+
+  /**
+   * Register a prompt, replacing any prompt with the same name
+   *
+   * @param prompt - Prompt to register
+   * @returns True if an existing prompt was replaced
+   */
+  register(prompt: McpPrompt): boolean {
+    const replaced = this._prompts.has(prompt.name);
+    this._prompts.set(prompt.name, prompt);
+    return replaced;
+  }
+
+  /**
+   * Get a prompt by name
+   */
+  getPrompt(name: string): McpPrompt | undefined {
+    return this._prompts.get(name);
+  }
+
+  /**
+   * List registered prompts with their arguments
+   *
+   * @returns Prompt entries for `prompts/list`
+   */
+  list(): Prompt[] {
+    return Array.from(this._prompts.values()).map(prompt => ({
+      name: prompt.name,
+      ...(prompt.title && { title: prompt.title }),
+      ...(prompt.description && { description: prompt.description }),
+      arguments: describeArguments(prompt),
+    }));
+  }
+
+  /**
+   * Validate arguments and render a prompt
+   *
+   * @param name - Prompt name
+   * @param args - String arguments supplied by the client
+   * @returns Rendered messages for `prompts/get`
+   * @throws {McpError} `InvalidParams` for unknown prompts or invalid arguments
+   */
+  async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const prompt = this._prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`, { prompt: name });
+    }
+
+    let parsed: Record<string, unknown> = args;
+    if (prompt.arguments) {
+      const result = prompt.arguments.safeParse(args);
+      if (!result.success) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt '${name}'`, {
+          prompt: name,
+          issues: formatZodIssues(result.error),
+        });
+      }
+      parsed = result.data;
+    }
+
+    const messages = await prompt.render(parsed);
+
+    return {
+      ...(prompt.description && { description: prompt.description }),
+      messages: messages.map(toWireMessage),
+    };
+  }
+}
+
+/**
+ * Derive the advertised argument list from a prompt's arguments schema
+ */
+function describeArguments(prompt: McpPrompt): PromptArgument[] {
+  if (!prompt.arguments) {
+    return [];
+  }
+
+  return Object.entries(prompt.arguments.shape as Record<string, ZodTypeAny>).map(
+    ([name, schema]) => ({
+      name,
+      ...(schema.description && { description: schema.description }),
+      required: !schema.isOptional(),
+    })
+  );
+}
+
+/**
+ * Convert a rendered message to its protocol form
+ */
+function toWireMessage(message: PromptMessage): GetPromptResult['messages'][number] {
+  if (message.content.type === 'text') {
+    return { role: message.role, content: { type: 'text', text: message.content.text } };
+  }
+
+  return {
+    role: message.role,
+    content: {
+      type: 'resource',
+      resource: toWireContent(message.content.resource, message.content.resource.uri),
+    },
+  };
+}
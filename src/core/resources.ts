@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Resource Registry for MCP Servers
+ *
+ * This module stores the static resources and URI-template resource families
+ * registered on a server, and turns them into MCP `resources/list`,
+ * `resources/templates/list` and `resources/read` results.
+ *
+ * Features:
+ * - Static resources at fixed URIs
+ * - RFC 6570 URI templates with variable extraction
+ * - Text and binary (base64) contents
+ * - Client subscriptions for `notifications/resources/updated`
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  McpResource,
+  McpResourceTemplate,
+  ResourceContent,
+  ResourceDescriptor,
+  ValidationError,
+} from '../types/index.js';
+
+/**
+ * JSON-RPC error code for unknown resource URIs (MCP specification)
+ */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Registered template with its parsed URI template
+ */
+interface TemplateEntry {
+  readonly template: McpResourceTemplate;
+  readonly matcher: UriTemplate;
+}
+
+/**
+ * Registry of resources and resource templates
+ *
+ * @example
+ * ```typescript
+ * const registry = new ResourceRegistry();
+ * registry.registerResource({
+ *   uri: 'db://schema',
+ *   name: 'schema',
+ *   mimeType: 'text/plain',
+ *   read: async () => ({ text: await dumpSchema() }),
+ * });
+ *
+ * const result = await registry.read('db://schema');
+ * ```
+ *
+ * @template S - Subscriber type; each connected client session subscribes separately
+ */
+export class ResourceRegistry<S extends object = object> {
+  private readonly _resources: Map<string, McpResource> = new Map();
+  private readonly _templates: Map<string, TemplateEntry> = new Map();
+  private readonly _subscriptions: Map<string, Set<S>> = new Map();
+
+  /**
+   * Number of registered static resources
+   */
+  get resourceCount(): number {
+    return this._resources.size;
+  }
+
+  /**
+   * Number of registered resource templates
+   */
+  get templateCount(): number {
+    return this._templates.size;
+  }
+
+  /**
+   * Register a static resource, replacing any resource with the same URI
+   *
+   * @param resource - Resource to register
+   * @returns True if an existing resource was replaced
+   */
+  registerResource(resource: McpResource): boolean {
+    const replaced = this._resources.has(resource.uri);
+    this._resources.set(resource.uri, resource);
+    return replaced;
+  }
+
+  /**
+   * Register a resource template, replacing any template with the same name
+   *
+   * @param template - Template to register
+   * @returns True if an existing template was replaced
+   * @throws {ValidationError} When the URI template cannot be parsed
+   */
+  registerTemplate(template: McpResourceTemplate): boolean {
+    let matcher: UriTemplate;
+    try {
+      matcher = new UriTemplate(template.uriTemplate);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid URI template '${template.uriTemplate}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const replaced = this._templates.has(template.name);
+    this._templates.set(template.name, { template, matcher });
+    return replaced;
+  }
+
+  /**
+   * Get a static resource by URI
+   */
+  getResource(uri: string): McpResource | undefined {
+    return this._resources.get(uri);
+  }
+
+  /**
+   * Get a resource template by name
+   */
+  getTemplate(name: string): McpResourceTemplate | undefined {
+    return this._templates.get(name)?.template;
+  }
+
+  /**
+   * List static resources plus the concrete resources enumerated by templates
+   *
+   * @returns Resource entries for `resources/list`
+   */
+  async listResources(): Promise<Resource[]> {
+    const resources: Resource[] = Array.from(this._resources.values()).map(toResourceEntry);
+
+    for (const { template } of this._templates.values()) {
+      if (!template.list) {
+        continue;
+      }
+
+      const listed = await template.list();
+      resources.push(
+        ...listed.map(descriptor => toResourceEntry({ mimeType: template.mimeType, ...descriptor }))
+      );
+    }
+
+    return resources;
+  }
+
+  /**
+   * List registered templates
+   *
+   * @returns Template entries for `resources/templates/list`
+   */
+  listTemplates(): ResourceTemplate[] {
+    return Array.from(this._templates.values()).map(({ template }) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      ...(template.title && { title: template.title }),
+      ...(template.description && { description: template.description }),
+      ...(template.mimeType && { mimeType: template.mimeType }),
+    }));
+  }
+
+  /**
+   * Read a resource by URI
+   *
+   * Static resources are matched exactly first, then templates in
+   * registration order.
+   *
+   * @param uri - Resource URI requested by the client
+   * @returns Contents for `resources/read`
+   * @throws {McpError} With code {@link RESOURCE_NOT_FOUND} when nothing matches
+   */
+  async read(uri: string): Promise<ReadResourceResult> {
+    const resource = this._resources.get(uri);
+    if (resource) {
+      const contents = await resource.read(new URL(uri));
+      return { contents: normalizeContents(contents, uri, resource.mimeType) };
+    }
+
+    for (const { template, matcher } of this._templates.values()) {
+      const variables = matcher.match(uri);
+      if (variables) {
+        const contents = await template.read(new URL(uri), variables);
+        return { contents: normalizeContents(contents, uri, template.mimeType) };
+      }
+    }
+
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  /**
+   * Check whether a URI is served by a static resource or a template
+   */
+  has(uri: string): boolean {
+    if (this._resources.has(uri)) {
+      return true;
+    }
+
+    for (const { matcher } of this._templates.values()) {
+      if (matcher.match(uri)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a client subscription to resource updates
+   *
+   * Without a subscriber the URI is only validated, for callers that cannot
+   * receive notifications.
+   *
+   * @param uri - URI to watch
+   * @param subscriber - Client session that receives the updates
+   * @throws {McpError} With code {@link RESOURCE_NOT_FOUND} for unknown URIs
+   */
+  subscribe(uri: string, subscriber?: S): void {
+    if (!this.has(uri)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+    }
+    if (!subscriber) {
+      return;
+    }
+
+    const subscribers = this._subscriptions.get(uri) ?? new Set<S>();
+    subscribers.add(subscriber);
+    this._subscriptions.set(uri, subscribers);
+  }
+
+  /**
+   * Remove one client's subscription; other clients keep theirs
+   */
+  unsubscribe(uri: string, subscriber?: S): void {
+    const subscribers = this._subscriptions.get(uri);
+    if (!subscriber || !subscribers) {
+      return;
+    }
+
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0) {
+      this._subscriptions.delete(uri);
+    }
+  }
+
+  /**
+   * Remove every subscription of a client, e.g. when its session closes
+   */
+  removeSubscriber(subscriber: S): void {
+    for (const uri of [...this._subscriptions.keys()]) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  /**
+   * Get the clients subscribed to updates for a URI
+   */
+  getSubscribers(uri: string): S[] {
+    return [...(this._subscriptions.get(uri) ?? [])];
+  }
+
+  /**
+   * Check whether clients subscribed to updates for a URI
+   */
+  isSubscribed(uri: string): boolean {
+    return this._subscriptions.has(uri);
+  }
+}
+
+/**
+ * Build a `resources/list` entry, omitting unset optional fields
+ */
+function toResourceEntry(resource: ResourceDescriptor): Resource {
+  return {
+    uri: resource.uri,
+    name: resource.name,
+    ...(resource.title && { title: resource.title }),
+    ...(resource.description && { description: resource.description }),
+    ...(resource.mimeType && { mimeType: resource.mimeType }),
+  };
+}
+
+/**
+ * Fill in URI and MIME type defaults for every content entry
+ */
+function normalizeContents(
+  contents: ResourceContent | ResourceContent[],
+  uri: string,
+  mimeType: string | undefined
+): ReadResourceResult['contents'] {
+  return (Array.isArray(contents) ? contents : [contents]).map(content =>
+    toWireContent(content, uri, mimeType)
+  );
+}
+
+/**
+ * Convert resource contents to their protocol form, base64-encoding binary data
+ *
+ * @param content - Contents returned by a resource or prompt
+ * @param uri - URI used when the contents do not name one
+ * @param mimeType - MIME type used when the contents do not name one
+ * @returns Text or blob contents as sent to clients
+ */
+export function toWireContent(
+  content: ResourceContent,
+  uri: string,
+  mimeType?: string
+): ReadResourceResult['contents'][number] {
+  const base = {
+    uri: content.uri ?? uri,
+    ...((content.mimeType ?? mimeType) && { mimeType: content.mimeType ?? mimeType }),
+  };
+
+  if ('text' in content) {
+    return { ...base, text: content.text };
+  }
+
+  const blob =
+    typeof content.blob === 'string' ? content.blob : Buffer.from(content.blob).toString('base64');
+
+  return { ...base, blob };
+}
@@ -20,14 +20,42 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  JSONRPCError,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ServerResult,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { EventEmitter } from 'events';
 import { createLogger, Logger } from 'winston';
+import { z } from 'zod';
 
 import {
+  AuditEvent,
+  AuthConfig,
+  AuthenticationError,
+  Authenticator,
+  AuthorizationError,
   McpServer,
   McpServerConfig,
   McpTool,
+  McpResource,
+  McpResourceTemplate,
+  McpPrompt,
   ServerState,
   ServerStats,
   HealthCheckResult,
@@ -35,16 +63,89 @@ import {
   EventPayload,
   EventListener,
   ToolResult,
+  ToolCallOptions,
+  ToolCallContext,
+  ToolMiddleware,
   ServerConfigError,
   ToolExecutionError,
+  ToolValidationError,
+  ToolTimeoutError,
+  ToolCancelledError,
+  ToolQueueError,
+  UserContext,
   ValidationError,
   DEFAULT_TIMEOUTS,
   isMcpTool,
+  isMcpResource,
+  isMcpResourceTemplate,
+  isMcpPrompt,
   isToolResult,
 } from '../types/index.js';
+import { createAuthenticator, toUnauthenticatedError } from '../auth/authenticator.js';
+import { authorizeToolCall, isToolAuthorized, toForbiddenError } from '../auth/authorization.js';
+import {
+  AUDIT_ANONYMOUS_ACTOR,
+  AUDIT_SYSTEM_ACTOR,
+  AuditLog,
+  createAuditLog,
+  hashAuditArguments,
+} from '../utils/audit.js';
+import { createToolResultCache, ToolResultCache } from '../utils/cache.js';
+import {
+  ConcurrencyLimiter,
+  createConcurrencyLimiter,
+  toServerBusyError,
+} from '../utils/concurrency.js';
 import { createDefaultConfig, validateConfig } from '../utils/config.js';
-import { createDefaultLogger } from '../utils/logger.js';
-import { createMetricsCollector } from '../utils/metrics.js';
+import { createDefaultLogger, logSecurityEvent } from '../utils/logger.js';
+import { createMetricsCollector, MetricsCollector, UNKNOWN_TOOL_LABEL } from '../utils/metrics.js';
+import { OtlpMetricExporter } from '../utils/otlp.js';
+import { createTracer, extractTraceContext, getActiveSpan, Tracer } from '../utils/tracing.js';
+import { getRequestContext, withRequestContext } from '../utils/context.js';
+import { isPlainObject } from '../utils/index.js';
+import { getToolInputSchema, getToolOutputSchema } from '../utils/schema.js';
+import { toInvalidParamsError, validateToolArguments } from '../utils/validation.js';
+import {
+  executeToolWithTimeout,
+  resolveToolTimeout,
+  toRequestTimeoutError,
+} from '../utils/execution.js';
+import { toCallToolResult } from './content.js';
+import { runMiddleware } from './middleware.js';
+import { PluginLoader } from './plugins.js';
+import { PromptRegistry } from './prompts.js';
+import { ResourceRegistry } from './resources.js';
+
+/**
+ * Zod schema of an MCP request, as accepted by the SDK's `setRequestHandler`
+ */
+type RequestSchema = z.ZodObject<{ method: z.ZodLiteral<string> }>;
+
+/**
+ * Options of a request handler call
+ */
+interface RequestHandlerOptions extends ToolCallOptions {
+  /** SDK server the request arrived on; absent for transports without one */
+  readonly server?: Server;
+}
+
+/**
+ * Tool call outcome, with the tool that actually ran
+ */
+interface ExecutedToolCall {
+  readonly tool: McpTool;
+  readonly result: ToolResult;
+}
+
+/**
+ * MCP request handler shared by every transport
+ *
+ * @template T - Schema the handled requests are parsed with
+ */
+interface RequestHandlerEntry<T extends RequestSchema = RequestSchema> {
+  readonly schema: T;
+  handle(request: z.infer<T>, options: RequestHandlerOptions): Promise<ServerResult>;
+}
 
 /**
  * Base MCP Server implementation with official SDK integration
@@ -69,8 +170,20 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
   private readonly _config: McpServerConfig;
   private readonly _logger: Logger;
   private readonly _tools: Map<string, McpTool>;
+  private readonly _resources: ResourceRegistry<Server>;
+  private readonly _prompts: PromptRegistry;
   private readonly _server: Server;
-  private readonly _metricsCollector: ReturnType<typeof createMetricsCollector>;
+  private readonly _sessionServers = new Set<Server>();
+  private readonly _metricsCollector: MetricsCollector;
+  private readonly _tracer: Tracer;
+  private readonly _metricExporter?: OtlpMetricExporter;
+  private readonly _auditLog?: AuditLog;
+  private readonly _concurrencyLimiter: ConcurrencyLimiter;
+  private readonly _resultCache?: ToolResultCache;
+  private readonly _middleware: ToolMiddleware[] = [];
+  private readonly _requestHandlers: Map<string, RequestHandlerEntry>;
+  private readonly _pluginLoader?: PluginLoader;
+  private _authenticator?: Authenticator;
 
   private _state: ServerState = 'stopped';
   private _startTime?: Date;
@@ -95,25 +208,37 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
       );
     }
 
-    this._logger = createDefaultLogger(this._config.logging);
+    const telemetry = this._config.telemetry;
+    this._logger = createDefaultLogger(this._config.logging, undefined, {
+      traceCorrelation: telemetry?.enabled && telemetry.logs.correlation,
+    });
+    this._tracer = createTracer(telemetry, this._logger);
     this._tools = new Map();
+    this._resources = new ResourceRegistry();
+    this._prompts = new PromptRegistry();
     this._metricsCollector = createMetricsCollector(this._config.name);
-
-    // Initialize official MCP SDK server
-    this._server = new Server(
-      {
-        name: this._config.name,
-        version: this._config.version,
-        description: this._config.description,
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
+    if (telemetry?.enabled && telemetry.metrics.enabled && telemetry.endpoint) {
+      this._metricExporter = new OtlpMetricExporter(this._metricsCollector, {
+        endpoint: telemetry.endpoint,
+        serviceName: telemetry.serviceName,
+        serviceVersion: telemetry.serviceVersion,
+        interval: telemetry.metrics.interval,
+        logger: this._logger,
+      });
+    }
+    this._auditLog = createAuditLog(this._config.audit, this._logger);
+    this._concurrencyLimiter = createConcurrencyLimiter(
+      this._config.performance,
+      this._metricsCollector
     );
+    this._resultCache = createToolResultCache(this._config.performance);
+    this._pluginLoader =
+      this._config.plugins && new PluginLoader(this, this._config.plugins, this._logger);
+
+    // Initialize official MCP SDK server (stdio)
+    this._requestHandlers = this._createRequestHandlers();
+    this._server = this._createProtocolServer('stdio');
 
-    this._initializeHandlers();
     this._logger.info('MCP Server initialized', {
       name: this._config.name,
       version: this._config.version,
@@ -138,6 +263,48 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
     return new Map(this._tools);
   }
 
+  /**
+   * Get the plugin loader, when plugins are configured
+   */
+  get plugins(): PluginLoader | undefined {
+    return this._pluginLoader;
+  }
+
+  /**
+   * Get current lifecycle state
+   */
+  get state(): ServerState {
+    return this._state;
+  }
+
+  /**
+   * Get the collector recording tool, queue and process metrics
+   */
+  get metrics(): MetricsCollector {
+    return this._metricsCollector;
+  }
+
+  /**
+   * Get the exporter pushing metrics to the telemetry endpoint, when configured
+   */
+  get metricExporter(): OtlpMetricExporter | undefined {
+    return this._metricExporter;
+  }
+
+  /**
+   * Get the audit log recording tool calls, authentication and admin actions, when enabled
+   */
+  get auditLog(): AuditLog | undefined {
+    return this._auditLog;
+  }
+
+  /**
+   * Get the tracer recording request and tool execution spans
+   */
+  get tracer(): Tracer {
+    return this._tracer;
+  }
+
   /**
    * Get current server statistics
    */
@@ -178,6 +345,10 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
       this._setState('starting');
       this._logger.info('Starting MCP server', { port: this._config.port });
 
+      // Plugin failures are logged per plugin and never abort startup
+      await this._pluginLoader?.start();
+      this._metricExporter?.start();
+
       // Connect to stdio transport (official MCP pattern)
       const transport = new StdioServerTransport();
       await this._server.connect(transport);
@@ -220,6 +391,7 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
     try {
       this._setState('stopping');
       this._logger.info('Stopping MCP server');
+      this._pluginLoader?.stop();
 
       // Graceful shutdown with timeout
       await Promise.race([
@@ -229,6 +401,12 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
         ),
       ]);
 
+      this._resources.removeSubscriber(this._server);
+
+      await this._tracer.shutdown();
+      await this._metricExporter?.shutdown();
+      await this._auditLog?.flush();
+
       this._setState('stopped');
       this._startTime = undefined;
 
@@ -335,6 +513,46 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
       category: tool.category,
       version: tool.version,
     });
+
+    this._emit('tool:registered', { toolName: tool.name });
+    void this.recordAuditEvent({
+      type: 'admin.action',
+      actor: getRequestContext()?.userId ?? AUDIT_SYSTEM_ACTOR,
+      action: 'tool.register',
+      tool: tool.name,
+      outcome: 'success',
+      details: { version: tool.version },
+    });
+    this._notifyToolListChanged();
+  }
+
+  /**
+   * Remove a tool from the server
+   *
+   * Connected clients are told that the tool list changed and cached results
+   * of the tool are dropped.
+   *
+   * @param name - Tool name
+   * @returns True if the tool was registered
+   */
+  unregisterTool(name: string): boolean {
+    if (!this._tools.delete(name)) {
+      return false;
+    }
+
+    this._resultCache?.invalidate(name);
+    this._logger.info('Tool unregistered', { toolName: name });
+
+    this._emit('tool:unregistered', { toolName: name });
+    void this.recordAuditEvent({
+      type: 'admin.action',
+      actor: getRequestContext()?.userId ?? AUDIT_SYSTEM_ACTOR,
+      action: 'tool.unregister',
+      tool: name,
+      outcome: 'success',
+    });
+    this._notifyToolListChanged();
+    return true;
   }
 
   /**
@@ -367,6 +585,451 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
     return Array.from(this._tools.values());
   }
 
+  /**
+   * List the tools the caller of a request may call
+   *
+   * @param options - Transport and credentials of the request
+   * @returns Tools whose access policy the caller satisfies
+   * @throws {AuthenticationError} When the caller's credentials are rejected
+   */
+  async listAuthorizedTools(options: ToolCallOptions = {}): Promise<McpTool[]> {
+    const user = await this._authenticate(options);
+    const authorization = this._config.security.authorization;
+
+    return this.listTools().filter(tool => isToolAuthorized(tool, user, authorization));
+  }
+
+  /**
+   * Register a static resource with the server
+   *
+   * @param resource - Resource to register
+   * @throws {ValidationError} When resource is invalid
+   */
+  registerResource(resource: McpResource): void {
+    if (!isMcpResource(resource)) {
+      throw new ValidationError('Invalid resource: must implement McpResource interface');
+    }
+
+    if (this._resources.registerResource(resource)) {
+      this._logger.warn('Resource already registered, replacing', { uri: resource.uri });
+    }
+
+    this._logger.info('Resource registered', { uri: resource.uri, name: resource.name });
+  }
+
+  /**
+   * Register a resource template (RFC 6570 URI template) with the server
+   *
+   * @param template - Resource template to register
+   * @throws {ValidationError} When template or its URI template is invalid
+   */
+  registerResourceTemplate(template: McpResourceTemplate): void {
+    if (!isMcpResourceTemplate(template)) {
+      throw new ValidationError(
+        'Invalid resource template: must implement McpResourceTemplate interface'
+      );
+    }
+
+    if (this._resources.registerTemplate(template)) {
+      this._logger.warn('Resource template already registered, replacing', {
+        name: template.name,
+      });
+    }
+
+    this._logger.info('Resource template registered', {
+      name: template.name,
+      uriTemplate: template.uriTemplate,
+    });
+  }
+
+  /**
+   * Notify subscribed clients that a resource changed
+   *
+   * Sends `notifications/resources/updated` only to the client sessions that
+   * subscribed to the URI; otherwise this is a no-op.
+   *
+   * @param uri - URI of the changed resource
+   */
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    const subscribers = this._resources.getSubscribers(uri).filter(server => server.transport);
+    if (this._state !== 'running' || subscribers.length === 0) {
+      return;
+    }
+
+    await Promise.all(subscribers.map(server => server.sendResourceUpdated({ uri })));
+    this._emit('resource:updated', { uri });
+  }
+
+  /**
+   * Register a prompt with the server
+   *
+   * @param prompt - Prompt to register
+   * @throws {ValidationError} When prompt is invalid
+   */
+  registerPrompt(prompt: McpPrompt): void {
+    if (!isMcpPrompt(prompt)) {
+      throw new ValidationError('Invalid prompt: must implement McpPrompt interface');
+    }
+
+    if (this._prompts.register(prompt)) {
+      this._logger.warn('Prompt already registered, replacing', { promptName: prompt.name });
+    }
+
+    this._logger.info('Prompt registered', { promptName: prompt.name });
+  }
+
+  /**
+   * Drop cached results for a tool
+   *
+   * @param toolName - Tool whose cached results are dropped
+   * @param keyPrefix - Only drop cache keys starting with this prefix
+   * @returns Number of cached results removed (0 when caching is disabled)
+   */
+  invalidateToolCache(toolName: string, keyPrefix?: string): number {
+    const removed = this._resultCache?.invalidate(toolName, keyPrefix) ?? 0;
+    this._logger.debug('Tool cache invalidated', { toolName, keyPrefix, removed });
+    return removed;
+  }
+
+  /**
+   * Add middleware around every tool call
+   *
+   * Middleware applies to calls from every transport, in registration order.
+   *
+   * @param middleware - Middleware to add
+   */
+  use(middleware: ToolMiddleware): void {
+    this._middleware.push(middleware);
+    this._logger.info('Tool middleware registered', { middleware: middleware.name });
+  }
+
+  /**
+   * Authenticate the caller of every tool call
+   *
+   * The resolved user replaces any user supplied by the transport and is
+   * passed to middleware and to the tool.
+   *
+   * @param auth - Authentication method, its options and whether it is required
+   * @throws {ServerConfigError} When the options do not fit the method
+   */
+  configureAuth(auth: AuthConfig): void {
+    this._authenticator = createAuthenticator(auth);
+    this._logger.info('Authentication configured', {
+      method: auth.method,
+      required: auth.required,
+    });
+    void this.recordAuditEvent({
+      type: 'config.change',
+      actor: getRequestContext()?.userId ?? AUDIT_SYSTEM_ACTOR,
+      action: 'auth.configure',
+      outcome: 'success',
+      details: { method: auth.method, required: auth.required },
+    });
+  }
+
+  /**
+   * Append an event to the audit log, when auditing is enabled
+   *
+   * The request id and transport default to those of the current request.
+   * Write failures are logged rather than thrown, so auditing never fails
+   * the operation being audited.
+   *
+   * @param event - Event to record
+   */
+  async recordAuditEvent(event: AuditEvent): Promise<void> {
+    if (!this._auditLog) {
+      return;
+    }
+
+    const context = getRequestContext();
+    try {
+      await this._auditLog.record({
+        ...event,
+        transport: event.transport ?? context?.transport,
+        requestId: event.requestId ?? context?.requestId,
+      });
+    } catch (error) {
+      this._logger.error('Failed to record audit event', {
+        type: event.type,
+        action: event.action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Call a tool through the middleware chain
+   *
+   * Arguments are validated after the `before` hooks run. Cached results are
+   * returned without waiting for an execution slot; everything else waits for
+   * admission and then runs under the tool's timeout.
+   *
+   * @param name - Tool name
+   * @param args - Raw tool arguments
+   * @param options - Caller signal, request identity, transport and credentials
+   * @returns Tool result
+   * @throws {AuthenticationError} When the caller's credentials are rejected
+   * @throws {AuthorizationError} When the caller may not call the tool
+   * @throws {ToolExecutionError} When the tool is unknown or returns an invalid result
+   * @throws {ToolValidationError} When arguments fail validation
+   * @throws {ToolTimeoutError} When the tool exceeds its timeout
+   * @throws {ToolQueueError} When admission control rejects the call
+   * @throws {ToolCancelledError} When the caller cancels the call
+   */
+  async callTool(name: string, args: unknown, options: ToolCallOptions = {}): Promise<ToolResult> {
+    const { result } = await this._executeToolCall(name, args, options);
+    return result;
+  }
+
+  /**
+   * Call a tool, reporting which tool ran
+   *
+   * The tool may be replaced or unregistered while the call runs, so results
+   * are formatted with the tool returned here rather than a fresh lookup.
+   *
+   * @param name - Tool name
+   * @param args - Raw tool arguments
+   * @param options - Caller signal, request identity, transport and credentials
+   * @returns Executed tool and its result
+   */
+  private async _executeToolCall(
+    name: string,
+    args: unknown,
+    options: ToolCallOptions
+  ): Promise<ExecutedToolCall> {
+    // Calls made outside a request start a context of their own
+    return withRequestContext(
+      {
+        toolName: name,
+        transport: options.transport ?? 'stdio',
+        sessionId: options.sessionId,
+        userId: options.user?.id,
+      },
+      () => this._callTool(name, args, options)
+    );
+  }
+
+  /**
+   * Call a tool within its request context
+   *
+   * @param name - Tool name
+   * @param args - Raw tool arguments
+   * @param options - Caller signal, request identity, transport and credentials
+   * @returns Executed tool and its result, tagged with the request id
+   */
+  private async _callTool(
+    name: string,
+    args: unknown,
+    options: ToolCallOptions
+  ): Promise<ExecutedToolCall> {
+    const startTime = Date.now();
+    const transport = options.transport ?? 'stdio';
+    let user: UserContext | undefined;
+    let registered = false;
+    this._requestCount++;
+
+    try {
+      user = await this._authenticate(options);
+
+      const tool = this._tools.get(name);
+      if (!tool) {
+        throw new ToolExecutionError(`Tool not found: ${name}`);
+      }
+      registered = true;
+
+      this._authorize(tool, user, transport, options.requestId);
+
+      this._logger.debug('Executing tool', { toolName: name, args, transport });
+
+      const context: ToolCallContext = {
+        tool,
+        args: args ?? {},
+        requestId: options.requestId,
+        transport,
+        user,
+        signal: options.signal,
+        state: new Map(),
+      };
+
+      // Tool spans nest under the request's span, or under the caller's for REST calls
+      const outcome = await withRequestContext({ userId: user?.id }, () =>
+        this._tracer.trace(
+          `execute_tool ${name}`,
+          {
+            parent: getActiveSpan() ? undefined : extractTraceContext(options.headers),
+            attributes: {
+              'gen_ai.operation.name': 'execute_tool',
+              'gen_ai.tool.name': name,
+              'mcp.tool.category': tool.category,
+              'mcp.transport': transport,
+              ...(user && { 'enduser.id': user.id }),
+            },
+          },
+          async span => {
+            const executed = await runMiddleware(this._middleware, context, () =>
+              this._invokeTool(tool, context)
+            );
+            if (isToolResult(executed) && !executed.success) {
+              span?.setStatus('error', executed.error);
+            }
+            return executed;
+          }
+        )
+      );
+
+      if (!isToolResult(outcome)) {
+        throw new ToolExecutionError('Tool returned invalid result format');
+      }
+
+      const executionTime = Date.now() - startTime;
+      const result: ToolResult = {
+        ...outcome,
+        metadata: {
+          executionTime,
+          timestamp: new Date().toISOString(),
+          ...outcome.metadata,
+          requestId: getRequestContext()!.requestId,
+        },
+      };
+      this._metricsCollector.recordToolExecution(name, executionTime, result.success);
+
+      this._emit('tool:executed', {
+        toolName: name,
+        executionTime,
+        success: result.success,
+        transport,
+      });
+
+      this._logger.info('Tool executed successfully', {
+        toolName: name,
+        executionTime,
+        success: result.success,
+        transport,
+      });
+
+      await this.recordAuditEvent({
+        type: 'tool.invocation',
+        actor: user?.id ?? AUDIT_ANONYMOUS_ACTOR,
+        action: 'tools/call',
+        tool: name,
+        argumentHash: hashAuditArguments(args),
+        outcome: result.success ? 'success' : 'failure',
+        duration: executionTime,
+        transport,
+        ...(result.error && { details: { error: result.error } }),
+      });
+
+      return { tool, result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this._errorCount++;
+      this._lastError = errorMessage;
+      this._metricsCollector.recordToolExecution(
+        registered || this._tools.has(name) ? name : UNKNOWN_TOOL_LABEL,
+        executionTime,
+        false
+      );
+
+      this._emit('tool:error', {
+        toolName: name,
+        error: errorMessage,
+        executionTime,
+        transport,
+      });
+
+      this._logger.error('Tool execution failed', {
+        toolName: name,
+        error: errorMessage,
+        executionTime,
+        transport,
+      });
+
+      await this.recordAuditEvent({
+        type: 'tool.invocation',
+        actor: user?.id ?? AUDIT_ANONYMOUS_ACTOR,
+        action: 'tools/call',
+        tool: name,
+        argumentHash: hashAuditArguments(args),
+        outcome: error instanceof AuthorizationError ? 'denied' : 'failure',
+        duration: executionTime,
+        transport,
+        details: { error: errorMessage },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the caller of a request with the configured authenticator,
+   * auditing the outcome
+   *
+   * @param options - Transport and credentials of the request
+   * @returns The authenticated user, or the transport's user when no authenticator is configured
+   * @throws {AuthenticationError} When the caller's credentials are rejected
+   */
+  private async _authenticate(options: ToolCallOptions): Promise<UserContext | undefined> {
+    if (!this._authenticator) {
+      return options.user;
+    }
+
+    const transport = options.transport ?? 'stdio';
+    try {
+      const user = await this._authenticator({ headers: options.headers ?? {}, transport });
+      if (user) {
+        await this.recordAuditEvent({
+          type: 'auth.success',
+          actor: user.id,
+          action: 'authenticate',
+          outcome: 'success',
+          transport,
+        });
+      }
+      return user;
+    } catch (error) {
+      await this.recordAuditEvent({
+        type: 'auth.failure',
+        actor: AUDIT_ANONYMOUS_ACTOR,
+        action: 'authenticate',
+        outcome: 'failure',
+        transport,
+        details: { reason: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a caller's access to a tool, recording denials as security events
+   *
+   * @param tool - Tool being called
+   * @param user - Authenticated caller, if any
+   * @param transport - Transport the call arrived on
+   * @param requestId - Request identifier for correlation
+   * @throws {AuthorizationError} When the caller may not call the tool
+   */
+  private _authorize(
+    tool: McpTool,
+    user: UserContext | undefined,
+    transport: string,
+    requestId?: ToolCallOptions['requestId']
+  ): void {
+    try {
+      authorizeToolCall(tool, user, this._config.security.authorization);
+    } catch (error) {
+      logSecurityEvent(this._logger, 'tool_authorization', 'failure', {
+        toolName: tool.name,
+        userId: user?.id,
+        roles: user?.roles,
+        transport,
+        requestId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Execute a workflow (placeholder for workflow server)
    */
@@ -403,118 +1066,228 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
   // =============================================================================
 
   /**
-   * Initialize MCP SDK request handlers
+   * Create an MCP SDK server with every request handler installed
+   *
+   * @param transport - Transport name reported to tool middleware, metrics and events
+   * @returns SDK server ready to connect
+   */
+  private _createProtocolServer(transport: string): Server {
+    const server = new Server(
+      {
+        name: this._config.name,
+        version: this._config.version,
+        description: this._config.description,
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true },
+          prompts: {},
+        },
+        // Registering a batch of tools sends a single notification
+        debouncedNotificationMethods: ['notifications/tools/list_changed'],
+      }
+    );
+
+    this._installHandlers(server, transport);
+    return server;
+  }
+
+  /**
+   * Create the MCP request handlers shared by every transport
+   *
+   * @returns Handlers keyed by JSON-RPC method
    */
-  private _initializeHandlers(): void {
-    // List tools handler
-    this._server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = Array.from(this._tools.values()).map(tool => ({
+  private _createRequestHandlers(): Map<string, RequestHandlerEntry> {
+    const handlers = new Map<string, RequestHandlerEntry>();
+    const define = <T extends RequestSchema>(
+      schema: T,
+      handle: (request: z.infer<T>, options: RequestHandlerOptions) => Promise<ServerResult>
+    ): void => {
+      const method = schema.shape.method.value;
+      handlers.set(method, {
+        schema,
+        handle: (request, options) =>
+          this._traceRequest(method, request, options, () => handle(request, options)),
+      });
+    };
+
+    // List tools handler; callers only see the tools they may call
+    define(ListToolsRequestSchema, async (_request, options) => {
+      let authorized: McpTool[];
+      try {
+        authorized = await this.listAuthorizedTools(options);
+      } catch (error) {
+        throw error instanceof AuthenticationError ? toUnauthenticatedError(error) : error;
+      }
+
+      const tools = authorized.map(tool => ({
         name: tool.name,
         description: tool.description,
-        inputSchema: tool.parameters,
+        inputSchema: getToolInputSchema(tool) as Tool['inputSchema'],
+        ...(tool.outputSchema && {
+          outputSchema: getToolOutputSchema(tool) as Tool['outputSchema'],
+        }),
       }));
 
       this._logger.debug('Listed tools', { toolCount: tools.length });
       return { tools };
     });
 
-    // Call tool handler
-    this._server.setRequestHandler(CallToolRequestSchema, async request => {
-      const startTime = Date.now();
-      this._requestCount++;
+    // Call tool handler; the signal is aborted on notifications/cancelled
+    define(CallToolRequestSchema, async (request, options) =>
+      this.handleCallTool(request.params.name, request.params.arguments, options)
+    );
 
-      try {
-        const { name, arguments: args } = request.params;
-        const tool = this._tools.get(name);
-
-        if (!tool) {
-          throw new ToolExecutionError(`Tool not found: ${name}`);
-        }
-
-        this._logger.debug('Executing tool', { toolName: name, args });
-
-        // Execute tool with timeout
-        const result = await Promise.race([
-          tool.execute(args ?? {}),
-          new Promise<never>((_, reject) =>
-            setTimeout(
-              () => reject(new Error('Tool execution timeout')),
-              DEFAULT_TIMEOUTS.TOOL_EXECUTION
-            )
-          ),
-        ]);
-
-        if (!isToolResult(result)) {
-          throw new ToolExecutionError('Tool returned invalid result format');
-        }
-
-        const executionTime = Date.now() - startTime;
-        this._metricsCollector.recordToolExecution(name, executionTime, result.success);
-
-        this._emit('tool:executed', {
-          toolName: name,
-          executionTime,
-          success: result.success,
-        });
+    // List resources handler
+    define(ListResourcesRequestSchema, async () => {
+      const resources = await this._resources.listResources();
 
-        this._logger.info('Tool executed successfully', {
-          toolName: name,
-          executionTime,
-          success: result.success,
-        });
+      this._logger.debug('Listed resources', { resourceCount: resources.length });
+      return { resources };
+    });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+    // List resource templates handler
+    define(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this._resources.listTemplates(),
+    }));
+
+    // Read resource handler
+    define(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+      this._requestCount++;
+
+      try {
+        const result = await this._resources.read(uri);
+        this._emit('resource:read', { uri });
+        return result;
       } catch (error) {
-        const executionTime = Date.now() - startTime;
         const errorMessage = error instanceof Error ? error.message : String(error);
-
         this._errorCount++;
         this._lastError = errorMessage;
-        this._metricsCollector.recordToolExecution(request.params.name, executionTime, false);
+        this._logger.error('Resource read failed', { uri, error: errorMessage });
+        throw error;
+      }
+    });
 
-        this._emit('tool:error', {
-          toolName: request.params.name,
-          error: errorMessage,
-          executionTime,
-        });
+    // Resource subscription handlers
+    define(SubscribeRequestSchema, async (request, options) => {
+      this._resources.subscribe(request.params.uri, options.server);
+      this._logger.debug('Resource subscribed', { uri: request.params.uri });
+      return {};
+    });
 
-        this._logger.error('Tool execution failed', {
-          toolName: request.params.name,
-          error: errorMessage,
-          executionTime,
-        });
+    define(UnsubscribeRequestSchema, async (request, options) => {
+      this._resources.unsubscribe(request.params.uri, options.server);
+      this._logger.debug('Resource unsubscribed', { uri: request.params.uri });
+      return {};
+    });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  success: false,
-                  error: errorMessage,
-                  metadata: {
-                    executionTime,
-                    timestamp: new Date().toISOString(),
-                  },
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
+    // List prompts handler
+    define(ListPromptsRequestSchema, async () => ({
+      prompts: this._prompts.list(),
+    }));
+
+    // Get prompt handler
+    define(GetPromptRequestSchema, async request => {
+      const { name, arguments: args } = request.params;
+      this._requestCount++;
+
+      try {
+        const result = await this._prompts.get(name, args);
+        this._emit('prompt:rendered', { promptName: name, messageCount: result.messages.length });
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this._errorCount++;
+        this._lastError = errorMessage;
+        this._logger.error('Prompt rendering failed', { promptName: name, error: errorMessage });
+        throw error;
       }
     });
 
+    return handlers;
+  }
+
+  /**
+   * Run a request handler in a server span, joining the caller's trace when
+   * the request's `_meta` or headers carry one, and within the request's
+   * context, keeping the request id the transport assigned if any
+   *
+   * @param method - JSON-RPC method
+   * @param request - Parsed request
+   * @param options - Caller signal, request identity, transport and headers
+   * @param handle - Request handler
+   * @returns Result of the handler
+   */
+  private _traceRequest(
+    method: string,
+    request: z.infer<RequestSchema>,
+    options: ToolCallOptions,
+    handle: () => Promise<ServerResult>
+  ): Promise<ServerResult> {
+    const params = 'params' in request && isPlainObject(request.params) ? request.params : {};
+    const meta = isPlainObject(params._meta) ? params._meta : undefined;
+
+    return this._tracer.trace(
+      method,
+      {
+        kind: 'server',
+        parent: extractTraceContext(options.headers, meta),
+        attributes: {
+          'rpc.system': 'jsonrpc',
+          'rpc.method': method,
+          'mcp.transport': options.transport ?? 'stdio',
+          ...(options.requestId !== undefined && {
+            'rpc.jsonrpc.request_id': String(options.requestId),
+          }),
+        },
+      },
+      span =>
+        withRequestContext(
+          {
+            rpcId: options.requestId,
+            sessionId: options.sessionId,
+            transport: options.transport ?? 'stdio',
+            userId: options.user?.id,
+            traceId: span?.context.traceId,
+          },
+          async () => {
+            const result = await handle();
+            // Tool failures are answered as results, not protocol errors
+            if ('isError' in result && result.isError === true) {
+              span?.setStatus('error', 'Tool call returned an error result');
+            }
+            return result;
+          }
+        )
+    );
+  }
+
+  /**
+   * Install the shared request handlers on an MCP SDK server
+   *
+   * @param server - SDK server to install the handlers on
+   * @param transport - Transport name reported to tool middleware, metrics and events
+   */
+  private _installHandlers(server: Server, transport: string): void {
+    for (const { schema, handle } of this._requestHandlers.values()) {
+      server.setRequestHandler(schema, (request, extra) =>
+        handle(request, {
+          signal: extra.signal,
+          requestId: extra.requestId,
+          transport,
+          headers: extra.requestInfo?.headers,
+          sessionId: extra.sessionId,
+          // Caller authenticated by the transport
+          user: extra.authInfo?.extra?.user as UserContext | undefined,
+          server,
+        })
+      );
+    }
+
     // Error handler
-    this._server.onerror = (error: Error) => {
+    server.onerror = (error: Error) => {
       this._errorCount++;
       this._lastError = error.message;
 
@@ -523,6 +1296,176 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
     };
   }
 
+  /**
+   * Serve the MCP protocol over an additional transport
+   *
+   * Each transport gets its own SDK server, so protocol state stays isolated,
+   * while every server dispatches to this instance's tools, resources and
+   * prompts. The server is forgotten once the transport closes.
+   *
+   * @param transport - Transport to connect; it is started by the SDK
+   * @param name - Transport name reported to tool middleware, metrics and events
+   */
+  protected async connectTransport(transport: Transport, name: string): Promise<void> {
+    const server = this._createProtocolServer(name);
+    server.onclose = () => {
+      this._sessionServers.delete(server);
+      this._resources.removeSubscriber(server);
+    };
+
+    this._sessionServers.add(server);
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this._sessionServers.delete(server);
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a JSON-RPC request with the same handlers the SDK servers use
+   *
+   * For transports that deliver requests without an SDK server. Unlike the
+   * SDK, protocol errors keep their `data`.
+   *
+   * @param request - JSON-RPC request to answer
+   * @param options - Caller signal, request identity and transport
+   * @returns JSON-RPC response or error for the request
+   */
+  protected async handleRequest(
+    request: JSONRPCRequest,
+    options: ToolCallOptions
+  ): Promise<JSONRPCResponse | JSONRPCError> {
+    try {
+      const handler = this._requestHandlers.get(request.method);
+      if (!handler) {
+        throw new McpError(ErrorCode.MethodNotFound, 'Method not found');
+      }
+
+      const parsed = handler.schema.safeParse(request);
+      if (!parsed.success) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid request parameters: ${parsed.error}`);
+      }
+
+      const result = await handler.handle(parsed.data, { requestId: request.id, ...options });
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      this._logger.error('JSON-RPC request handling error', {
+        method: request.method,
+        error: error instanceof Error ? error.message : String(error),
+        transport: options.transport,
+      });
+
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: error instanceof McpError ? error.code : ErrorCode.InternalError,
+          message: error instanceof Error ? error.message : String(error),
+          ...(error instanceof McpError && error.data !== undefined && { data: error.data }),
+        },
+      };
+    }
+  }
+
+  /**
+   * Answer a `tools/call` request
+   *
+   * Invalid arguments, timeouts, admission rejections and cancellations become
+   * protocol errors; any other failure is returned as an `isError` result.
+   *
+   * @param name - Tool name
+   * @param args - Raw tool arguments
+   * @param options - Caller signal, request identity and transport
+   * @returns Result for the protocol response
+   */
+  protected async handleCallTool(
+    name: string,
+    args: unknown,
+    options: ToolCallOptions
+  ): Promise<CallToolResult> {
+    try {
+      const { tool, result } = await this._executeToolCall(name, args, options);
+      return toCallToolResult(tool, result);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw toUnauthenticatedError(error);
+      }
+
+      if (error instanceof AuthorizationError) {
+        throw toForbiddenError(error);
+      }
+
+      if (error instanceof ToolValidationError) {
+        throw toInvalidParamsError(error);
+      }
+
+      if (error instanceof ToolTimeoutError) {
+        throw toRequestTimeoutError(error);
+      }
+
+      if (error instanceof ToolQueueError) {
+        throw toServerBusyError(error);
+      }
+
+      // The SDK sends no response for cancelled requests
+      if (error instanceof ToolCancelledError) {
+        throw error;
+      }
+
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Validate arguments and execute a tool, innermost step of the middleware chain
+   *
+   * @param tool - Tool to execute
+   * @param context - Call context, possibly rewritten by middleware
+   * @returns Tool result, from the cache when available
+   */
+  private async _invokeTool(tool: McpTool, context: ToolCallContext): Promise<ToolResult> {
+    const params = validateToolArguments(tool, context.args);
+
+    const run = (): Promise<ToolResult> =>
+      this._concurrencyLimiter.run(
+        tool,
+        () =>
+          executeToolWithTimeout(tool, params, {
+            timeout: resolveToolTimeout(tool, this._config.performance),
+            signal: context.signal,
+            user: context.user,
+          }),
+        context.signal
+      );
+
+    // Cache hits skip the queue entirely
+    return this._resultCache?.execute(tool, params, run, context.user) ?? run();
+  }
+
+  /**
+   * Get every SDK server that currently has a connected transport
+   */
+  private _connectedServers(): Server[] {
+    return [this._server, ...this._sessionServers].filter(server => server.transport);
+  }
+
+  /**
+   * Send `notifications/tools/list_changed` to every connected client
+   */
+  private _notifyToolListChanged(): void {
+    for (const server of this._connectedServers()) {
+      server.sendToolListChanged().catch((error: unknown) => {
+        this._logger.warn('Failed to send tool list change', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
   /**
    * Set server state and emit events
    *
@@ -626,6 +1569,11 @@ export class BaseMcpServer extends EventEmitter implements McpServer {
 export class ServerBuilder {
   private _config: Partial<McpServerConfig> = {};
   private _tools: McpTool[] = [];
+  private _resources: McpResource[] = [];
+  private _resourceTemplates: McpResourceTemplate[] = [];
+  private _prompts: McpPrompt[] = [];
+  private _middleware: ToolMiddleware[] = [];
+  private _auth?: AuthConfig;
 
   /**
    * Set server configuration
@@ -661,13 +1609,68 @@ export class ServerBuilder {
   }
 
   /**
-   * Configure authentication (placeholder for future implementation)
+   * Add a static resource
    *
-   * @param _auth - Authentication configuration
+   * @param resource - Resource to add
    * @returns Builder instance for chaining
    */
-  withAuth(_auth: unknown): ServerBuilder {
-    // TODO: Implement authentication configuration
+  withResource(resource: McpResource): ServerBuilder {
+    this._resources.push(resource);
+    return this;
+  }
+
+  /**
+   * Add a resource template
+   *
+   * @param template - Resource template to add
+   * @returns Builder instance for chaining
+   */
+  withResourceTemplate(template: McpResourceTemplate): ServerBuilder {
+    this._resourceTemplates.push(template);
+    return this;
+  }
+
+  /**
+   * Add a single prompt
+   *
+   * @param prompt - Prompt to add
+   * @returns Builder instance for chaining
+   */
+  withPrompt(prompt: McpPrompt): ServerBuilder {
+    this._prompts.push(prompt);
+    return this;
+  }
+
+  /**
+   * Add multiple prompts
+   *
+   * @param prompts - Array of prompts to add
+   * @returns Builder instance for chaining
+   */
+  withPrompts(prompts: McpPrompt[]): ServerBuilder {
+    this._prompts.push(...prompts);
+    return this;
+  }
+
+  /**
+   * Add tool middleware, applied in the order added
+   *
+   * @param middleware - Middleware to add
+   * @returns Builder instance for chaining
+   */
+  withMiddleware(middleware: ToolMiddleware): ServerBuilder {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Configure authentication of tool calls
+   *
+   * @param auth - Authentication configuration
+   * @returns Builder instance for chaining
+   */
+  withAuth(auth: AuthConfig): ServerBuilder {
+    this._auth = auth;
     return this;
   }
 
@@ -707,6 +1710,29 @@ export class ServerBuilder {
       server.registerTool(tool);
     }
 
+    // Register all resources and templates
+    for (const resource of this._resources) {
+      server.registerResource(resource);
+    }
+
+    for (const template of this._resourceTemplates) {
+      server.registerResourceTemplate(template);
+    }
+
+    // Register all prompts
+    for (const prompt of this._prompts) {
+      server.registerPrompt(prompt);
+    }
+
+    // Install middleware
+    for (const middleware of this._middleware) {
+      server.use(middleware);
+    }
+
+    if (this._auth) {
+      server.configureAuth(this._auth);
+    }
+
     return server;
   }
 }
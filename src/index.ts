@@ -10,12 +10,40 @@
 
 // Core server exports
 export { BaseMcpServer } from './core/server.js';
+export { ResourceRegistry, RESOURCE_NOT_FOUND } from './core/resources.js';
+export { PromptRegistry } from './core/prompts.js';
+export { toCallToolResult } from './core/content.js';
+export { runMiddleware } from './core/middleware.js';
+export { PluginLoader } from './core/plugins.js';
+
+// Authentication exports
+export {
+  createAuthenticator,
+  toUserContext,
+  toUnauthenticatedError,
+  UNAUTHENTICATED,
+  authorizeToolCall,
+  isToolAuthorized,
+  resolveToolPolicy,
+  toForbiddenError,
+  FORBIDDEN,
+  createTokenVerifier,
+  hashPassword,
+  verifyPassword,
+  DevAuthorizationServer,
+  createProtectedResourceMetadata,
+  JwtTokenIssuer,
+} from './auth/index.js';
 
 // Transport layer exports
 export {
   HttpTransport,
   createHttpTransport,
   HttpTransportFactory,
+  StreamableHttpTransport,
+  createStreamableHttpTransport,
+  InMemoryEventStore,
+  DEFAULT_STREAMABLE_HTTP_CONFIG,
   HttpMcpServer,
   createHttpMcpServer,
   HttpMcpServerFactory,
@@ -36,7 +64,31 @@ export type {
   McpServerConfig,
   McpTool,
   ToolResult,
+  ToolContent,
+  TextToolContent,
+  ImageToolContent,
+  AudioToolContent,
+  ResourceToolContent,
+  ResourceLinkToolContent,
   ToolExample,
+  ToolExecutionContext,
+  ToolMiddleware,
+  ToolCallContext,
+  ToolCallOptions,
+  ToolCacheOptions,
+  JsonSchema,
+  McpResource,
+  McpResourceTemplate,
+  ResourceTemplateVariables,
+  ResourceDescriptor,
+  ResourceContent,
+  TextResourceContent,
+  BlobResourceContent,
+  McpPrompt,
+  PromptMessage,
+  PromptContent,
+  TextPromptContent,
+  ResourcePromptContent,
   ToolCategory,
   ServerState,
   ServerStats,
@@ -44,11 +96,14 @@ export type {
   HealthCheck,
   EventPayload,
   EventListener,
+  PluginLoadResult,
 
   // Configuration types
   LoggingConfig,
   SecurityConfig,
   PerformanceConfig,
+  ConcurrencyConfig,
+  PluginConfig,
 
   // HTTP transport types
   HttpTransportConfig,
@@ -60,25 +115,89 @@ export type {
   RateLimitConfig,
   HttpSecurityConfig,
   SwaggerConfig,
+  HttpBatchConfig,
+  HttpMetricsConfig,
+  StreamableHttpTransportConfig,
 
   // Error types
   McpBoilerplateError,
   ServerConfigError,
   ToolExecutionError,
   ValidationError,
+  ToolValidationError,
+  ToolTimeoutError,
+  ToolCancelledError,
+  ToolQueueError,
+  PluginLoadError,
+  AuditLogError,
+  AuthenticationError,
+  AuthorizationError,
+  ValidationIssue,
+
+  // Authentication types
+  AuthConfig,
+  AuthMethod,
+  AuthRequest,
+  Authenticator,
+  ApiKeyAuthOptions,
+  BearerAuthOptions,
+  BasicAuthOptions,
+  OAuth2IntrospectionOptions,
+  CustomAuthOptions,
+  AuthorizationConfig,
+  ToolAccessPolicy,
+  TokenVerifier,
+  BearerVerifierConfig,
+  BasicCredentialsConfig,
+  StoredCredential,
+  OAuth2ResourceConfig,
+  DevAuthorizationServerConfig,
+  JwtSigningKey,
+  TokenIssuanceConfig,
+  IssuedTokens,
+  RefreshedTokens,
 
   // Utility types
   UserContext,
   TelemetryConfig,
   SpanContext,
+  SpanKind,
+  SpanAttributeValue,
+  SpanData,
+  SpanExporter,
+  RequestContext,
+  AuditConfig,
+  AuditEventType,
+  AuditOutcome,
+  AuditEvent,
+  AuditRecord,
+  AuditQuery,
+  AuditVerificationResult,
 } from './types/index.js';
 
 // Utility exports
 export { createDefaultConfig, validateConfig } from './utils/config.js';
 export { createDefaultLogger } from './utils/logger.js';
+export { zodToJsonSchema, getToolInputSchema } from './utils/schema.js';
+export { validateToolArguments } from './utils/validation.js';
+export { executeToolWithTimeout, resolveToolTimeout } from './utils/execution.js';
+export { ConcurrencyLimiter, createConcurrencyLimiter, SERVER_BUSY } from './utils/concurrency.js';
+export { LruCache, ToolResultCache } from './utils/cache.js';
+export { MetricsCollector, createMetricsCollector } from './utils/metrics.js';
+export { Tracer, Span, createTracer, getActiveSpan, extractTraceContext } from './utils/tracing.js';
+export { OtlpTraceExporter, OtlpMetricExporter } from './utils/otlp.js';
+export { getRequestContext, withRequestContext } from './utils/context.js';
+export { AuditLog, createAuditLog, hashAuditArguments } from './utils/audit.js';
 
 // Type guards and validators
-export { isMcpTool, isToolResult, isMcpBoilerplateError } from './types/index.js';
+export {
+  isMcpTool,
+  isMcpResource,
+  isMcpResourceTemplate,
+  isMcpPrompt,
+  isToolResult,
+  isMcpBoilerplateError,
+} from './types/index.js';
 
 // Constants
 export { DEFAULT_PORTS, DEFAULT_TIMEOUTS, DEFAULT_LIMITS } from './types/index.js';
@@ -0,0 +1,450 @@
+/**
+ * @fileoverview HTTP Authentication for MCP Transports
+ *
+ * This module checks the credentials of HTTP requests for every HTTP-based
+ * transport, so the REST-style transport and the Streamable HTTP transport
+ * accept the same callers and answer them with the same challenges.
+ *
+ * Features:
+ * - API key, issued JWT, bearer token, OAuth2 access token and Basic credentials
+ * - RFC 7235 `WWW-Authenticate` challenges, with resource metadata for OAuth2
+ * - Authenticated caller attached to the request as SDK `AuthInfo`
+ * - Per-tool scope checks for OAuth2 access tokens
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import express from 'express';
+import type { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { createHash } from 'crypto';
+
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+import { parseAuthorization } from '../auth/authenticator.js';
+import { createBasicCredentialVerifier } from '../auth/credentials.js';
+import { DevAuthorizationServer } from '../auth/dev-authorization-server.js';
+import {
+  createBearerChallenge,
+  createProtectedResourceMetadata,
+  getMissingToolScopes,
+  getResourceMetadataUrl,
+  getTokenScopes,
+  PROTECTED_RESOURCE_METADATA_PATH,
+} from '../auth/oauth2.js';
+import { JwtTokenIssuer } from '../auth/tokens.js';
+import { createTokenVerifier, JwksTokenVerifier } from '../auth/verifiers.js';
+import {
+  AuthenticationError,
+  HttpAuthConfig,
+  OAuth2ResourceConfig,
+  ServerConfigError,
+  TokenVerifier,
+  UserContext,
+} from '../types/index.js';
+import { Logger } from 'winston';
+
+/**
+ * Express request carrying the authenticated caller, as read by the SDK's
+ * `StreamableHTTPServerTransport`
+ */
+export interface AuthenticatedRequest extends Request {
+  auth?: AuthInfo;
+}
+
+/**
+ * Result of checking the credentials of one request
+ */
+export interface HttpAuthResult {
+  readonly outcome: 'success' | 'failure';
+  /** Caller the credentials identify; API keys identify no user */
+  readonly user?: UserContext;
+  /** Audit actor for accepted credentials that carry no user */
+  readonly actor?: string;
+  /** Why the credentials were rejected */
+  readonly reason?: string;
+}
+
+/**
+ * Options of the authentication middleware
+ */
+export interface HttpAuthMiddlewareOptions {
+  /** Requests that pass without credentials */
+  readonly skip?: (req: Request) => boolean;
+  /** Called with the result of every checked request, before it is answered */
+  readonly onResult?: (req: Request, result: HttpAuthResult) => Promise<void>;
+}
+
+/**
+ * Credential checks for HTTP transports
+ *
+ * Holds the verifiers for the configured authentication type. One guard can
+ * serve several transports, which then share issued and revoked tokens.
+ *
+ * @example
+ * ```typescript
+ * const guard = new HttpAuthGuard({ enabled: true, type: 'apikey', apiKeys: ['ops-key'] }, logger);
+ * app.use(guard.middleware());
+ * ```
+ */
+export class HttpAuthGuard {
+  private readonly _auth: HttpAuthConfig;
+  private readonly _logger: Logger;
+  private _tokenVerifier?: TokenVerifier;
+  private _tokenIssuer?: JwtTokenIssuer;
+  private _issuableApiKeys?: ReadonlyMap<string, UserContext>;
+  private _devAuthorizationServer?: DevAuthorizationServer;
+  private _basicVerifier?: (username: string, password: string) => Promise<UserContext>;
+
+  /**
+   * Create the credential verifiers for the configured authentication type
+   *
+   * @param auth - Authentication configuration
+   * @param logger - Logger for rejected credentials and configuration warnings
+   * @throws {ServerConfigError} When an authentication type is enabled without its configuration
+   */
+  constructor(auth: HttpAuthConfig, logger: Logger) {
+    this._auth = auth;
+    this._logger = logger;
+
+    if (auth.type === 'jwt') {
+      this._tokenIssuer = new JwtTokenIssuer(auth);
+      if (auth.issuance) {
+        this._issuableApiKeys = new Map(Object.entries(auth.issuance.apiKeys ?? {}));
+        if (auth.basic) {
+          this._basicVerifier = createBasicCredentialVerifier(auth.basic);
+        }
+      }
+    }
+
+    if (auth.type === 'oauth2') {
+      const oauth2 = auth.oauth2;
+      if (!oauth2?.resource || !oauth2.issuer) {
+        throw new ServerConfigError('OAuth2 authentication requires a resource and an issuer');
+      }
+
+      if (oauth2.devAuthorizationServer) {
+        this._devAuthorizationServer = new DevAuthorizationServer(oauth2);
+        this._logger.warn('Development authorization server enabled; do not use in production', {
+          issuer: oauth2.issuer,
+        });
+      }
+
+      // Access tokens must come from the issuer and be bound to this resource
+      this._tokenVerifier = new JwksTokenVerifier({
+        type: 'jwt',
+        jwksFile: oauth2.jwksFile,
+        jwksUri: oauth2.jwksUri,
+        jwks: this._devAuthorizationServer?.jwks,
+        issuer: oauth2.issuer,
+        audience: oauth2.resource,
+      });
+    }
+
+    if (auth.type === 'bearer') {
+      if (!auth.bearer) {
+        throw new ServerConfigError(
+          'Bearer authentication requires a bearer verifier configuration'
+        );
+      }
+      this._tokenVerifier = createTokenVerifier(auth.bearer);
+    }
+
+    if (auth.type === 'basic') {
+      if (!auth.basic) {
+        throw new ServerConfigError('Basic authentication requires a credentials store');
+      }
+      this._basicVerifier = createBasicCredentialVerifier(auth.basic);
+    }
+  }
+
+  /**
+   * Get the authentication configuration
+   */
+  get config(): HttpAuthConfig {
+    return this._auth;
+  }
+
+  /**
+   * Get the issuer of `jwt` access tokens
+   */
+  get tokenIssuer(): JwtTokenIssuer | undefined {
+    return this._tokenIssuer;
+  }
+
+  /**
+   * Get the API keys that may be exchanged for `jwt` access tokens
+   */
+  get issuableApiKeys(): ReadonlyMap<string, UserContext> | undefined {
+    return this._issuableApiKeys;
+  }
+
+  /**
+   * Get the protected resource settings of the `oauth2` type
+   */
+  get oauth2(): OAuth2ResourceConfig | undefined {
+    return this._auth.type === 'oauth2' ? this._auth.oauth2 : undefined;
+  }
+
+  /**
+   * Create a router serving the protected resource metadata and, when
+   * enabled, the development authorization server
+   *
+   * Mount it before the middleware; these endpoints are public.
+   *
+   * @returns Router, empty unless the type is `oauth2`
+   */
+  oauth2Router(): Router {
+    const router = express.Router();
+    const oauth2 = this.oauth2;
+    if (!oauth2) {
+      return router;
+    }
+
+    const metadata = createProtectedResourceMetadata(oauth2);
+    const sendMetadata = (_req: Request, res: Response) => {
+      res.set('Cache-Control', 'public, max-age=3600').json(metadata);
+    };
+
+    // Clients derive the path from the resource URI; older clients use the bare path
+    router.get(new URL(getResourceMetadataUrl(oauth2.resource)).pathname, sendMetadata);
+    router.get(PROTECTED_RESOURCE_METADATA_PATH, sendMetadata);
+
+    if (this._devAuthorizationServer) {
+      router.use(this._devAuthorizationServer.router());
+    }
+
+    return router;
+  }
+
+  /**
+   * Create middleware rejecting requests without valid credentials
+   *
+   * Accepted callers are attached to the request as `req.auth`.
+   *
+   * @param options - Requests to skip and a hook observing each result
+   * @returns Express middleware
+   */
+  middleware(options: HttpAuthMiddlewareOptions = {}): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (options.skip?.(req)) {
+        next();
+        return;
+      }
+
+      this._handle(req, res, next, options).catch(next);
+    };
+  }
+
+  /**
+   * Check the credentials of a request
+   *
+   * @param req - Request to check
+   * @returns The caller the credentials identify
+   * @throws {AuthenticationError} When credentials are missing or rejected
+   * @throws {ServerConfigError} When the credentials cannot be verified
+   */
+  async authenticate(req: Request): Promise<HttpAuthResult> {
+    const auth = this._auth;
+    const authHeader = this._credentials(req);
+
+    if (!authHeader) {
+      throw new AuthenticationError('Missing authentication header');
+    }
+
+    switch (auth.type) {
+      case 'apikey':
+        if (!auth.apiKeys?.includes(authHeader)) {
+          throw new AuthenticationError('Invalid API key');
+        }
+        return { outcome: 'success', actor: apiKeyActor(authHeader) };
+
+      case 'jwt':
+        // Custom headers may carry the bare token
+        return {
+          outcome: 'success',
+          user: await this._tokenIssuer!.verify(
+            parseAuthorization(authHeader, 'bearer') ?? authHeader
+          ),
+        };
+
+      case 'bearer':
+      case 'oauth2': {
+        const token = parseAuthorization(authHeader, 'bearer');
+        if (!token) {
+          throw new AuthenticationError('Expected Bearer credentials');
+        }
+        return { outcome: 'success', user: await this._tokenVerifier!.verify(token) };
+      }
+
+      case 'basic':
+        return { outcome: 'success', user: await this.verifyBasicCredentials(authHeader) };
+
+      default:
+        throw new ServerConfigError('Unsupported authentication type');
+    }
+  }
+
+  /**
+   * Check HTTP Basic credentials against the credentials store
+   *
+   * @param header - `Authorization` header value
+   * @returns The caller the credentials identify
+   * @throws {AuthenticationError} When the header holds no Basic credentials or they are wrong
+   */
+  async verifyBasicCredentials(header: string | undefined): Promise<UserContext> {
+    const encoded = parseAuthorization(header, 'basic');
+    const decoded = encoded && Buffer.from(encoded, 'base64').toString('utf8');
+    const separator = decoded ? decoded.indexOf(':') : -1;
+    if (!decoded || separator < 0 || !this._basicVerifier) {
+      throw new AuthenticationError('Expected Basic credentials');
+    }
+
+    return this._basicVerifier(decoded.slice(0, separator), decoded.slice(separator + 1));
+  }
+
+  /**
+   * Find the scopes a tool call needs that the caller's access token lacks
+   *
+   * @param toolName - Tool being called
+   * @param auth - Authenticated caller
+   * @returns Required scopes, or an empty array when none are missing or the type is not `oauth2`
+   */
+  getMissingToolScopes(toolName: string, auth: AuthInfo | undefined): readonly string[] {
+    const oauth2 = this.oauth2;
+    return oauth2 ? getMissingToolScopes(oauth2, toolName, auth?.scopes ?? []) : [];
+  }
+
+  /**
+   * Reject a request as unauthenticated, with an RFC 7235 challenge for the
+   * bearer and basic types
+   *
+   * @param res - Response to send
+   * @param message - Reason for the rejection
+   * @param bearerError - RFC 6750 error code when bearer credentials were presented
+   */
+  sendUnauthorized(res: Response, message: string, bearerError?: string): void {
+    const auth = this._auth;
+    const realm = auth.realm ?? 'mcp';
+
+    if (auth.type === 'oauth2') {
+      res.set('WWW-Authenticate', createBearerChallenge(auth.oauth2!, bearerError));
+    } else if (auth.type === 'bearer' || auth.type === 'jwt') {
+      res.set(
+        'WWW-Authenticate',
+        `Bearer realm="${realm}"${bearerError ? `, error="${bearerError}"` : ''}`
+      );
+    } else if (auth.type === 'basic') {
+      res.set('WWW-Authenticate', `Basic realm="${realm}", charset="UTF-8"`);
+    }
+
+    res.status(401).json({
+      error: 'Unauthorized',
+      message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Reject a tool call whose access token lacks the tool's scopes (RFC 6750)
+   *
+   * @param res - Response to send
+   * @param requiredScopes - Scopes the tool needs
+   */
+  sendInsufficientScope(res: Response, requiredScopes: readonly string[]): void {
+    res
+      .status(403)
+      .set(
+        'WWW-Authenticate',
+        createBearerChallenge(this.oauth2!, 'insufficient_scope', requiredScopes)
+      )
+      .json({
+        error: 'Forbidden',
+        message: 'Insufficient scope',
+        requiredScopes,
+        timestamp: new Date().toISOString(),
+      });
+  }
+
+  /**
+   * Authenticate a request and answer it when the credentials are rejected
+   */
+  private async _handle(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    options: HttpAuthMiddlewareOptions
+  ): Promise<void> {
+    if (!this._credentials(req)) {
+      const reason = 'Missing authentication header';
+      await options.onResult?.(req, { outcome: 'failure', reason });
+      this.sendUnauthorized(res, reason);
+      return;
+    }
+
+    let result: HttpAuthResult;
+    try {
+      result = await this.authenticate(req);
+    } catch (error) {
+      if (error instanceof ServerConfigError) {
+        this._logger.error('Authentication unavailable', { error: error.message });
+
+        res.status(500).json({
+          error: 'Authentication Unavailable',
+          message: 'Credentials could not be verified',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      this._logger.warn('Authentication failed', { error: reason });
+
+      await options.onResult?.(req, { outcome: 'failure', reason });
+      this.sendUnauthorized(res, 'Authentication failed', 'invalid_token');
+      return;
+    }
+
+    if (result.user) {
+      req.auth = createAuthInfo(req, result.user);
+    }
+    await options.onResult?.(req, result);
+    next();
+  }
+
+  /**
+   * Get the header value carrying the credentials of a request
+   */
+  private _credentials(req: Request): string | undefined {
+    const defaultHeader = this._auth.type === 'apikey' ? 'x-api-key' : 'authorization';
+    const header = req.headers[this._auth.headerName?.toLowerCase() || defaultHeader];
+    return typeof header === 'string' && header ? header : undefined;
+  }
+}
+
+/**
+ * Describe an authenticated caller for MCP request handlers
+ *
+ * @param req - Authenticated request
+ * @param user - Caller the credentials identify
+ * @returns Auth info carrying the user and token scopes
+ */
+export function createAuthInfo(req: Request, user: UserContext): AuthInfo {
+  const clientId = user.metadata?.client_id;
+  return {
+    token: parseAuthorization(req.headers.authorization, 'bearer') ?? '',
+    clientId: typeof clientId === 'string' ? clientId : user.id,
+    scopes: getTokenScopes(user),
+    extra: { user },
+  };
+}
+
+/**
+ * Identify an API key client in the audit log without recording the key
+ *
+ * @param apiKey - Accepted API key
+ * @returns 'api-key:' and the start of the key's SHA-256
+ */
+function apiKeyActor(apiKey: string): string {
+  return `api-key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+}
@@ -17,27 +17,23 @@
  * @version 0.3.0
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  JSONRPCMessage,
-  JSONRPCRequest,
-  JSONRPCResponse,
-} from '@modelcontextprotocol/sdk/types.js';
+import { JSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
 
 import { BaseMcpServer } from '../core/server.js';
 import { HttpTransport } from './http.js';
+import { DEFAULT_STREAMABLE_HTTP_CONFIG, StreamableHttpTransport } from './streamable-http.js';
 import {
   McpServerConfig,
   HttpTransportConfig,
+  StreamableHttpTransportConfig,
   McpTool,
   ServerState,
   ToolResult,
   ServerConfigError,
-  ToolExecutionError,
   HttpAuthConfig,
+  DEFAULT_LIMITS,
+  UserContext,
 } from '../types/index.js';
 
 /**
@@ -45,6 +41,7 @@ import {
  */
 export interface HttpMcpServerConfig extends McpServerConfig {
   readonly http: HttpTransportConfig;
+  readonly streamableHttp?: StreamableHttpTransportConfig;
   readonly enableStdio: boolean;
   readonly primaryTransport: 'stdio' | 'http';
 }
@@ -83,6 +80,11 @@ const DEFAULT_HTTP_SERVER_CONFIG: Partial<HttpMcpServerConfig> = {
       requestSizeLimit: '10mb',
       timeout: 30000,
     },
+    batch: {
+      enabled: true,
+      maxBatchSize: 100,
+      maxConcurrency: DEFAULT_LIMITS.MAX_CONCURRENT_REQUESTS,
+    },
     swagger: {
       enabled: true,
       path: '/docs',
@@ -90,6 +92,10 @@ const DEFAULT_HTTP_SERVER_CONFIG: Partial<HttpMcpServerConfig> = {
       description: 'Model Context Protocol REST API',
       version: '1.0.0',
     },
+    metrics: {
+      enabled: true,
+      path: '/metrics',
+    },
   },
 };
 
@@ -102,8 +108,8 @@ const DEFAULT_HTTP_SERVER_CONFIG: Partial<HttpMcpServerConfig> = {
 export class HttpMcpServer extends BaseMcpServer {
   private readonly _httpConfig: HttpMcpServerConfig;
   private _httpTransport?: HttpTransport;
+  private _streamableTransport?: StreamableHttpTransport;
   private _stdioTransport?: StdioServerTransport;
-  private _mcpServer?: Server;
 
   /**
    * Create new HTTP MCP server instance
@@ -120,6 +126,10 @@ export class HttpMcpServer extends BaseMcpServer {
         ...DEFAULT_HTTP_SERVER_CONFIG.http!,
         ...config.http,
       },
+      streamableHttp: {
+        ...DEFAULT_STREAMABLE_HTTP_CONFIG,
+        ...config.streamableHttp,
+      },
     } as HttpMcpServerConfig;
 
     super(mergedConfig);
@@ -148,6 +158,13 @@ export class HttpMcpServer extends BaseMcpServer {
     return this._httpTransport;
   }
 
+  /**
+   * Get Streamable HTTP transport instance (if enabled and started)
+   */
+  get streamableTransport(): StreamableHttpTransport | undefined {
+    return this._streamableTransport;
+  }
+
   /**
    * Start the server with configured transports
    */
@@ -156,26 +173,18 @@ export class HttpMcpServer extends BaseMcpServer {
       this.setState('starting');
       this.logger.info('Starting HTTP MCP server');
 
-      // Initialize MCP SDK server
-      this._mcpServer = new Server(
-        {
-          name: this._httpConfig.name,
-          version: this._httpConfig.version,
-          description: this._httpConfig.description,
-        },
-        {
-          capabilities: {
-            tools: {},
-          },
-        }
-      );
-
-      // Setup MCP handlers
-      this._setupMcpHandlers();
+      // Plugin failures are logged per plugin and never abort startup
+      await this.plugins?.start();
+      this.metricExporter?.start();
 
       // Start HTTP transport
       await this._startHttpTransport();
 
+      // Start Streamable HTTP transport if enabled
+      if (this._httpConfig.streamableHttp?.enabled) {
+        await this._startStreamableTransport();
+      }
+
       // Start stdio transport if enabled
       if (this._httpConfig.enableStdio) {
         await this._startStdioTransport();
@@ -190,8 +199,9 @@ export class HttpMcpServer extends BaseMcpServer {
         toolCount: this.stats.tools.registered,
       });
 
-      this.emit('server:started', {
-        timestamp: this.startTime.toISOString(),
+      this.emitEvent('server:started', {
+        port: this._httpConfig.http.port,
+        toolCount: this.stats.tools.registered,
         transports: this._getActiveTransports(),
       });
     } catch (error) {
@@ -209,6 +219,7 @@ export class HttpMcpServer extends BaseMcpServer {
     try {
       this.setState('stopping');
       this.logger.info('Stopping HTTP MCP server');
+      this.plugins?.stop();
 
       // Stop HTTP transport
       if (this._httpTransport) {
@@ -216,18 +227,28 @@ export class HttpMcpServer extends BaseMcpServer {
         this._httpTransport = undefined;
       }
 
+      // Stop Streamable HTTP transport (closes every session)
+      if (this._streamableTransport) {
+        await this._streamableTransport.close();
+        this._streamableTransport = undefined;
+      }
+
       // Stop stdio transport
       if (this._stdioTransport) {
         // The MCP SDK handles stdio transport cleanup
         this._stdioTransport = undefined;
       }
 
+      await this.tracer.shutdown();
+      await this.metricExporter?.shutdown();
+      await this.auditLog?.flush();
+
       this.setState('stopped');
       this.startTime = undefined;
 
       this.logger.info('HTTP MCP server stopped');
-      this.emit('server:stopped', {
-        timestamp: new Date().toISOString(),
+      this.emitEvent('server:stopped', {
+        finalStats: this.stats,
       });
     } catch (error) {
       this.setState('error');
@@ -266,6 +287,12 @@ export class HttpMcpServer extends BaseMcpServer {
           basePath: this._httpConfig.http.basePath,
           sessionId: this._httpTransport?.sessionId,
         },
+        streamableHttp: {
+          enabled: !!this._streamableTransport,
+          port: this._httpConfig.streamableHttp?.port,
+          endpoint: this._httpConfig.streamableHttp?.endpoint,
+          sessions: this._streamableTransport?.sessionCount ?? 0,
+        },
         stdio: {
           enabled: this._httpConfig.enableStdio && !!this._stdioTransport,
         },
@@ -288,34 +315,57 @@ export class HttpMcpServer extends BaseMcpServer {
    * Start HTTP transport
    */
   private async _startHttpTransport(): Promise<void> {
-    this._httpTransport = new HttpTransport(this._httpConfig.http, new Map(this.tools));
-
-    // Setup HTTP transport message handling
+    // Batch dispatch is bounded by the server-wide concurrency limit unless
+    // the HTTP config sets its own batch limits
+    const defaultBatch = DEFAULT_HTTP_SERVER_CONFIG.http!.batch!;
+    this._httpTransport = new HttpTransport(
+      {
+        ...this._httpConfig.http,
+        batch: {
+          ...defaultBatch,
+          maxConcurrency:
+            this._httpConfig.performance?.maxConcurrentRequests ?? defaultBatch.maxConcurrency,
+          ...this._httpConfig.http.batch,
+        },
+      },
+      // Live registry, so tools registered or removed at runtime show up on /tools
+      this.registeredTools
+    );
+    this._httpTransport.toolExecutor = (name, args, options) => this.callTool(name, args, options);
+    this._httpTransport.toolLister = options => this.listAuthorizedTools(options);
+    this._httpTransport.metricsExporter = () => this.metrics.exportPrometheus();
+    this._httpTransport.auditLog = this.auditLog;
+    this._httpTransport.auditRecorder = event => this.recordAuditEvent(event);
+
+    // Answer JSON-RPC requests on /rpc with the shared request handlers
     this._httpTransport.onmessage = async (message, extra) => {
-      try {
-        await this._handleHttpMessage(message, extra);
-      } catch (error) {
-        this.logger.error('HTTP message handling error', {
-          error: error instanceof Error ? error.message : String(error),
-          messageId: (message as any).id,
-        });
+      // Only requests (method + id) produce a response
+      if (!('method' in message) || !('id' in message)) {
+        return;
       }
+
+      const response = await this.handleRequest(message as JSONRPCRequest, {
+        transport: 'http',
+        headers: extra?.requestInfo?.headers,
+        signal: extra?.signal,
+        // Caller authenticated by the transport
+        user: extra?.authInfo?.extra?.user as UserContext | undefined,
+      });
+      await this._httpTransport?.send(response);
     };
 
     this._httpTransport.onerror = error => {
       this.logger.error('HTTP transport error', { error: error.message });
-      this.emit('transport:error', {
+      this.emitEvent('transport:error', {
         transport: 'http',
         error: error.message,
-        timestamp: new Date().toISOString(),
       });
     };
 
     this._httpTransport.onclose = () => {
       this.logger.info('HTTP transport closed');
-      this.emit('transport:closed', {
+      this.emitEvent('transport:closed', {
         transport: 'http',
-        timestamp: new Date().toISOString(),
       });
     };
 
@@ -327,163 +377,34 @@ export class HttpMcpServer extends BaseMcpServer {
   }
 
   /**
-   * Start stdio transport if enabled
-   */
-  private async _startStdioTransport(): Promise<void> {
-    if (!this._mcpServer) {
-      throw new Error('MCP server not initialized');
-    }
-
-    this._stdioTransport = new StdioServerTransport();
-    await this._mcpServer.connect(this._stdioTransport);
-
-    this.logger.info('Stdio transport started');
-  }
-
-  /**
-   * Setup MCP SDK handlers
+   * Start Streamable HTTP transport
+   *
+   * Every session gets its own MCP SDK server so that per-session protocol
+   * state (initialization, capabilities, in-flight requests) stays isolated.
    */
-  private _setupMcpHandlers(): void {
-    if (!this._mcpServer) {
-      return;
-    }
-
-    // List tools handler
-    this._mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = Array.from(this.tools.values()).map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.parameters,
-      }));
-
-      return { tools };
-    });
-
-    // Call tool handler
-    this._mcpServer.setRequestHandler(CallToolRequestSchema, async request => {
-      const { name, arguments: args } = request.params;
-      return await this._executeTool(name, args);
+  private async _startStreamableTransport(): Promise<void> {
+    // Both endpoints accept the same credentials and share issued and revoked tokens
+    this._streamableTransport = new StreamableHttpTransport(
+      this._httpConfig.streamableHttp!,
+      transport => this.connectTransport(transport, 'streamable-http'),
+      this._httpTransport?.authGuard
+    );
+
+    await this._streamableTransport.start();
+    this.logger.info('Streamable HTTP transport started', {
+      port: this._httpConfig.streamableHttp!.port,
+      endpoint: this._httpConfig.streamableHttp!.endpoint,
     });
   }
 
   /**
-   * Handle HTTP transport messages
-   */
-  private async _handleHttpMessage(message: JSONRPCMessage, extra?: any): Promise<void> {
-    if (!this._mcpServer || message.jsonrpc !== '2.0') {
-      return;
-    }
-
-    // Handle different message types
-    if ('method' in message) {
-      // Request message
-      const request = message as JSONRPCRequest;
-
-      try {
-        let response: JSONRPCResponse;
-
-        switch (request.method) {
-          case 'tools/list':
-            const tools = Array.from(this.tools.values()).map(tool => ({
-              name: tool.name,
-              description: tool.description,
-              inputSchema: tool.parameters,
-            }));
-            response = {
-              jsonrpc: '2.0',
-              result: { tools },
-              id: request.id,
-            };
-            break;
-
-          case 'tools/call':
-            const { name, arguments: args } = request.params as any;
-            const result = await this._executeTool(name, args);
-            response = {
-              jsonrpc: '2.0',
-              result,
-              id: request.id,
-            };
-            break;
-
-          default:
-            response = {
-              jsonrpc: '2.0',
-              error: {
-                code: -32601,
-                message: 'Method not found',
-              },
-              id: request.id,
-            } as any;
-        }
-
-        // Send response (this would be handled by the HTTP transport response mechanism)
-        this.logger.debug('JSON-RPC response prepared', {
-          method: request.method,
-          id: request.id,
-        });
-      } catch (error) {
-        this.logger.error('JSON-RPC request handling error', {
-          method: request.method,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
-  }
-
-  /**
-   * Execute tool with enhanced error handling
+   * Start stdio transport if enabled
    */
-  private async _executeTool(name: string, args: unknown): Promise<any> {
-    const tool = this.tools.get(name);
-    if (!tool) {
-      throw new ToolExecutionError(`Tool '${name}' not found`);
-    }
-
-    try {
-      this.requestCount++;
-      this.logger.debug('Executing tool via HTTP', { name, args });
-
-      const startTime = Date.now();
-      const result = await tool.execute(args);
-      const executionTime = Date.now() - startTime;
-
-      this.logger.info('Tool executed successfully via HTTP', {
-        name,
-        success: result.success,
-        executionTime,
-      });
-
-      this.emit('tool:executed', {
-        name,
-        success: result.success,
-        executionTime,
-        transport: 'http',
-        timestamp: new Date().toISOString(),
-      });
-
-      return {
-        content: result.success ? result.data : result.error,
-        isError: !result.success,
-      };
-    } catch (error) {
-      this.errorCount++;
-      this.lastError = error instanceof Error ? error.message : String(error);
-
-      this.logger.error('Tool execution failed via HTTP', {
-        name,
-        error: this.lastError,
-      });
-
-      this.emit('tool:error', {
-        name,
-        error: this.lastError,
-        transport: 'http',
-        timestamp: new Date().toISOString(),
-      });
+  private async _startStdioTransport(): Promise<void> {
+    this._stdioTransport = new StdioServerTransport();
+    await this.connectTransport(this._stdioTransport, 'stdio');
 
-      throw new ToolExecutionError(`Tool execution failed: ${this.lastError}`);
-    }
+    this.logger.info('Stdio transport started');
   }
 
   /**
@@ -492,6 +413,7 @@ export class HttpMcpServer extends BaseMcpServer {
   private _getActiveTransports(): string[] {
     const transports: string[] = [];
     if (this._httpTransport) transports.push('http');
+    if (this._streamableTransport) transports.push('sse');
     if (this._stdioTransport) transports.push('stdio');
     return transports;
   }
@@ -504,6 +426,10 @@ export class HttpMcpServer extends BaseMcpServer {
     return (this as any)._logger;
   }
 
+  private get registeredTools(): Map<string, McpTool> {
+    return (this as any)._tools;
+  }
+
   private get requestCount(): number {
     return (this as any)._requestCount;
   }
@@ -537,7 +463,11 @@ export class HttpMcpServer extends BaseMcpServer {
   }
 
   private setState(state: ServerState): void {
-    (this as any)._state = state;
+    (this as any)._setState(state);
+  }
+
+  private emitEvent(type: string, data?: Record<string, unknown>): void {
+    (this as any)._emit(type, data);
   }
 }
 
@@ -11,6 +11,7 @@
  * - Rate limiting and CORS support
  * - OpenAPI/Swagger documentation
  * - Health check and status endpoints
+ * - Audit log query and verification endpoints
  *
  * @author MCP Boilerplate Team
  * @version 0.3.0
@@ -21,21 +22,32 @@ import type { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import jwt from 'jsonwebtoken';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { createServer, Server as HttpServer } from 'http';
+import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 
 import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
+  ErrorCode,
+  JSONRPCError,
   JSONRPCMessage,
   JSONRPCRequest,
   JSONRPCResponse,
   MessageExtraInfo,
+  RequestId,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { FORBIDDEN } from '../auth/authorization.js';
+import { JwtTokenIssuer } from '../auth/tokens.js';
+import { validateToolOutput } from '../core/content.js';
 import {
+  AuditEvent,
+  AuditEventType,
+  AuditQuery,
+  AuthenticationError,
+  AuthorizationError,
   HttpTransportConfig,
   HttpRequestContext,
   HttpResponse,
@@ -44,12 +56,46 @@ import {
   RateLimitConfig,
   HttpSecurityConfig,
   SwaggerConfig,
+  HttpBatchConfig,
   McpTool,
   ToolResult,
+  ToolCallOptions,
+  ToolValidationError,
+  ToolTimeoutError,
+  ToolQueueError,
+  DEFAULT_LIMITS,
 } from '../types/index.js';
-import { createDefaultLogger } from '../utils/logger.js';
+import { withRequestContext } from '../utils/context.js';
+import { AUDIT_ANONYMOUS_ACTOR, AuditLog } from '../utils/audit.js';
+import { createDefaultLogger, logSecurityEvent } from '../utils/logger.js';
+import { executeToolWithTimeout, resolveToolTimeout } from '../utils/execution.js';
+import { mapWithConcurrency } from '../utils/index.js';
+import { getToolInputSchema, getToolOutputSchema } from '../utils/schema.js';
+import { validateToolArguments } from '../utils/validation.js';
+import { AuthenticatedRequest, HttpAuthGuard, HttpAuthResult } from './http-auth.js';
 import { Logger } from 'winston';
 
+/**
+ * Permission a caller needs to read the audit log when authentication is enabled
+ */
+export const AUDIT_READ_PERMISSION = 'audit:read';
+
+/**
+ * Most records one audit query returns
+ */
+const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+/**
+ * Event types accepted by the audit query endpoint
+ */
+const AUDIT_EVENT_TYPES: readonly AuditEventType[] = [
+  'tool.invocation',
+  'auth.success',
+  'auth.failure',
+  'config.change',
+  'admin.action',
+];
+
 /**
  * Default HTTP transport configuration
  */
@@ -88,14 +134,53 @@ const DEFAULT_HTTP_CONFIG: HttpTransportConfig = {
     description: 'Model Context Protocol REST API',
     version: '1.0.0',
   },
+  batch: {
+    enabled: true,
+    maxBatchSize: 100,
+    maxConcurrency: DEFAULT_LIMITS.MAX_CONCURRENT_REQUESTS,
+  },
+  metrics: {
+    enabled: true,
+    path: '/metrics',
+  },
 };
 
+/**
+ * Client-supplied request ids that are reused instead of generating one
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
 /**
  * Extended Express Request with MCP context
  */
-interface McpRequest extends Request {
+interface McpRequest extends AuthenticatedRequest {
   context?: HttpRequestContext;
-  user?: any;
+}
+
+/**
+ * Request metadata passed with each `/rpc` message to the message handler
+ */
+export interface HttpMessageExtraInfo extends MessageExtraInfo {
+  /** Aborted when the request times out or the client disconnects */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * OpenAPI document produced from the route JSDoc, extended with tool docs
+ */
+interface OpenApiDocument {
+  readonly paths?: Record<string, unknown>;
+  readonly components?: { readonly schemas?: Record<string, unknown> };
+  readonly [key: string]: unknown;
+}
+
+/**
+ * JSON-RPC request forwarded to the MCP server and awaiting its response
+ */
+interface PendingRpcRequest {
+  readonly originalId: RequestId;
+  readonly resolve: (response: JSONRPCResponse | JSONRPCError) => void;
+  readonly timer: NodeJS.Timeout;
 }
 
 /**
@@ -108,17 +193,59 @@ export class HttpTransport implements Transport {
   private readonly _logger: Logger;
   private readonly _app: Express;
   private readonly _tools: Map<string, McpTool>;
+  private readonly _pendingRequests: Map<string, PendingRpcRequest> = new Map();
   private _server?: HttpServer;
+  private _metricsApp?: Express;
+  private _metricsServer?: HttpServer;
+  private _authGuard?: HttpAuthGuard;
   private _sessionId: string;
   private _isStarted = false;
 
   // Transport interface callbacks
   public onclose?: () => void;
   public onerror?: (error: Error) => void;
-  public onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+  public onmessage?: (message: JSONRPCMessage, extra?: HttpMessageExtraInfo) => void;
+
+  /**
+   * Runs `POST /tools/:name` calls through the owning server's tool pipeline
+   * (middleware, cache, admission control); when unset, tools run directly
+   */
+  public toolExecutor?: (
+    name: string,
+    args: unknown,
+    options: ToolCallOptions
+  ) => Promise<ToolResult>;
+
+  /**
+   * Lists the tools the caller of `GET /tools` may call; when unset, every
+   * registered tool is listed
+   */
+  public toolLister?: (options: ToolCallOptions) => Promise<McpTool[]>;
+
+  /**
+   * Renders the owning server's metrics in the Prometheus text format for
+   * `GET /metrics`; when unset, the endpoint responds 404
+   */
+  public metricsExporter?: () => string;
+
+  /**
+   * Audit log read by `GET /audit` and `GET /audit/verify`; when unset, both
+   * endpoints respond 404
+   */
+  public auditLog?: AuditLog;
+
+  /**
+   * Records authentication results and audit log reads; when unset, nothing
+   * is audited
+   */
+  public auditRecorder?: (event: AuditEvent) => Promise<void>;
 
   constructor(config: Partial<HttpTransportConfig> = {}, tools: Map<string, McpTool> = new Map()) {
-    this._config = { ...DEFAULT_HTTP_CONFIG, ...config };
+    this._config = {
+      ...DEFAULT_HTTP_CONFIG,
+      ...config,
+      metrics: { ...DEFAULT_HTTP_CONFIG.metrics!, ...config.metrics },
+    };
     this._logger = createDefaultLogger(
       { level: 'info', format: 'pretty', output: 'console' },
       'http-transport'
@@ -129,6 +256,7 @@ export class HttpTransport implements Transport {
 
     this._setupMiddleware();
     this._setupRoutes();
+    this._setupMetrics();
     this._setupSwagger();
     this._setupErrorHandling();
   }
@@ -140,6 +268,21 @@ export class HttpTransport implements Transport {
     return this._sessionId;
   }
 
+  /**
+   * Get the issuer of `jwt` access tokens, for rotating signing keys
+   */
+  get tokenIssuer(): JwtTokenIssuer | undefined {
+    return this._authGuard?.tokenIssuer;
+  }
+
+  /**
+   * Get the credential checks of this transport, for sharing them with other
+   * HTTP transports; undefined when authentication is disabled
+   */
+  get authGuard(): HttpAuthGuard | undefined {
+    return this._authGuard;
+  }
+
   /**
    * Start the HTTP server and begin processing requests
    */
@@ -148,7 +291,7 @@ export class HttpTransport implements Transport {
       throw new Error('HTTP transport already started');
     }
 
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       try {
         this._server = createServer(this._app);
 
@@ -172,15 +315,32 @@ export class HttpTransport implements Transport {
         reject(error);
       }
     });
+
+    if (this._metricsApp) {
+      await this._startMetricsServer(this._metricsApp);
+    }
   }
 
   /**
-   * Send a JSON-RPC message (not applicable for HTTP transport)
+   * Send a JSON-RPC message
+   *
+   * Responses are matched to the pending HTTP request by their correlation ID
+   * and written to that request's Express response. Other messages cannot be
+   * delivered over plain request/response HTTP and are only logged.
    */
   async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
-    // HTTP transport handles responses through Express response objects
-    // This method is typically used for client-initiated messages
-    this._logger.debug('Send message called', { message, options });
+    if (('result' in message || 'error' in message) && typeof message.id === 'string') {
+      const pending = this._pendingRequests.get(message.id);
+
+      if (pending) {
+        clearTimeout(pending.timer);
+        this._pendingRequests.delete(message.id);
+        pending.resolve({ ...message, id: pending.originalId } as JSONRPCResponse | JSONRPCError);
+        return;
+      }
+    }
+
+    this._logger.debug('Send message called without pending request', { message, options });
   }
 
   /**
@@ -191,6 +351,21 @@ export class HttpTransport implements Transport {
       return;
     }
 
+    // Fail any requests still waiting for a response
+    for (const [correlationId, pending] of Array.from(this._pendingRequests)) {
+      clearTimeout(pending.timer);
+      this._pendingRequests.delete(correlationId);
+      pending.resolve(
+        this._createRpcError(pending.originalId, ErrorCode.ConnectionClosed, 'Transport closed')
+      );
+    }
+
+    if (this._metricsServer) {
+      const metricsServer = this._metricsServer;
+      this._metricsServer = undefined;
+      await new Promise(resolve => metricsServer.close(resolve));
+    }
+
     return new Promise(resolve => {
       this._server!.close(() => {
         this._isStarted = false;
@@ -267,7 +442,21 @@ export class HttpTransport implements Transport {
 
     // Authentication middleware
     if (this._config.auth?.enabled) {
-      this._app.use(this._authMiddleware.bind(this));
+      const guard = new HttpAuthGuard(this._config.auth, this._logger);
+      this._authGuard = guard;
+      // OAuth metadata and authorization server endpoints are public
+      this._app.use(guard.oauth2Router());
+      // Token endpoints check the credentials they exchange themselves
+      if (guard.tokenIssuer && this._config.auth.issuance) {
+        this._setupTokenRoutes();
+      }
+      this._app.use(
+        guard.middleware({
+          // Skip auth for health check and docs
+          skip: req => req.path.endsWith('/health') || req.path.startsWith('/docs'),
+          onResult: (req, result) => this._onAuthentication(req, result),
+        })
+      );
     }
   }
 
@@ -290,10 +479,57 @@ export class HttpTransport implements Transport {
     router.get('/tools', this._handleListTools.bind(this));
     router.post('/tools/:name', this._handleExecuteTool.bind(this));
 
+    // Audit log endpoints
+    router.get('/audit', this._handleAuditQuery.bind(this));
+    router.get('/audit/verify', this._handleAuditVerify.bind(this));
+
     // Mount router with base path
     this._app.use(this._config.basePath, router);
   }
 
+  /**
+   * Serve Prometheus metrics on the API port, or on a separate app for the
+   * metrics port
+   */
+  private _setupMetrics(): void {
+    const metrics = this._config.metrics;
+    if (!metrics?.enabled) {
+      return;
+    }
+
+    if (metrics.port === undefined) {
+      this._app.get(metrics.path, this._handleMetrics.bind(this));
+      return;
+    }
+
+    this._metricsApp = express();
+    this._metricsApp.disable('x-powered-by');
+    this._metricsApp.get(metrics.path, this._handleMetrics.bind(this));
+  }
+
+  /**
+   * Listen on the separate metrics port
+   *
+   * @param app - Metrics app
+   * @throws {Error} When the port cannot be bound; the API server is closed
+   */
+  private async _startMetricsServer(app: Express): Promise<void> {
+    const { port, host = this._config.host } = this._config.metrics!;
+
+    try {
+      this._metricsServer = await new Promise<HttpServer>((resolve, reject) => {
+        const server = createServer(app);
+        server.once('error', reject);
+        server.listen(port, host, () => resolve(server));
+      });
+    } catch (error) {
+      await this.close();
+      throw error;
+    }
+
+    this._logger.info('Metrics server started', { host, port, path: this._config.metrics!.path });
+  }
+
   /**
    * Setup Swagger documentation
    */
@@ -304,7 +540,8 @@ export class HttpTransport implements Transport {
 
     const swaggerOptions = {
       definition: {
-        openapi: '3.0.0',
+        // OpenAPI 3.1 schema objects are JSON Schema 2020-12, matching tool schemas
+        openapi: '3.1.0',
         info: {
           title: this._config.swagger.title,
           description: this._config.swagger.description,
@@ -329,26 +566,73 @@ export class HttpTransport implements Transport {
             : undefined,
         },
       },
-      apis: [__filename], // This file contains JSDoc comments for API docs
+      apis: [fileURLToPath(import.meta.url)], // This file contains JSDoc comments for API docs
     };
 
-    const specs = swaggerJsdoc(swaggerOptions);
+    const specs = swaggerJsdoc(swaggerOptions) as OpenApiDocument;
     this._app.use(
       this._config.swagger.path,
-      swaggerUi.serve,
-      swaggerUi.setup(specs, {
+      // Tool docs are built per request, so they follow tools registered after startup
+      (req: Request, _res: Response, next: NextFunction) => {
+        Object.assign(req, { swaggerDoc: this._addToolDocs(specs) });
+        next();
+      },
+      swaggerUi.serveFiles(),
+      swaggerUi.setup(undefined, {
         explorer: true,
         customCss: '.swagger-ui .topbar { display: none }',
       })
     );
   }
 
+  /**
+   * Add OpenAPI paths and input schemas for the currently registered tools
+   *
+   * @param specs - Document built from the route JSDoc
+   * @returns Copy of the document with per-tool execute paths and their
+   *   `<tool>Input` component schemas
+   */
+  private _addToolDocs(specs: OpenApiDocument): OpenApiDocument {
+    const paths: Record<string, unknown> = { ...specs.paths };
+    const schemas: Record<string, unknown> = { ...specs.components?.schemas };
+
+    for (const [name, tool] of this._tools) {
+      // Component names are restricted to ^[a-zA-Z0-9.\-_]+$
+      const schemaName = `${name.replace(/[^a-zA-Z0-9.\-_]/g, '_')}Input`;
+      schemas[schemaName] = getToolInputSchema(tool);
+
+      paths[`/tools/${encodeURIComponent(name)}`] = {
+        post: {
+          summary: tool.description,
+          tags: [tool.category],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: `#/components/schemas/${schemaName}` },
+              },
+            },
+          },
+          responses: {
+            200: { description: 'Tool execution result' },
+            400: { description: 'Tool execution failed' },
+            422: { description: 'Arguments failed validation' },
+            503: { description: 'Too many concurrent tool calls' },
+            504: { description: 'Tool execution timed out' },
+          },
+        },
+      };
+    }
+
+    return { ...specs, paths, components: { ...specs.components, schemas } };
+  }
+
   /**
    * Setup error handling middleware
    */
   private _setupErrorHandling(): void {
-    // 404 handler
-    this._app.use('*', (req: Request, res: Response) => {
+    // 404 handler (catch-all, registered after every route)
+    this._app.use((req: Request, res: Response) => {
       res.status(404).json({
         error: 'Not Found',
         message: `Endpoint ${req.method} ${req.originalUrl} not found`,
@@ -380,9 +664,18 @@ export class HttpTransport implements Transport {
 
   /**
    * Create request context middleware
+   *
+   * The rest of the request is served within the ambient request context, so
+   * server logs, metrics and tool results carry the same request id as the
+   * `X-Request-ID` response header. A well-formed `X-Request-ID` sent by the
+   * client is reused.
    */
   private _createRequestContext(req: McpRequest, res: Response, next: NextFunction): void {
-    const requestId = uuidv4();
+    const clientRequestId = req.headers['x-request-id'];
+    const requestId =
+      typeof clientRequestId === 'string' && REQUEST_ID_PATTERN.test(clientRequestId)
+        ? clientRequestId
+        : uuidv4();
     const timestamp = new Date().toISOString();
 
     req.context = {
@@ -398,69 +691,291 @@ export class HttpTransport implements Transport {
     // Add correlation ID header to response
     res.setHeader('X-Request-ID', requestId);
 
-    next();
+    withRequestContext({ requestId, transport: 'http' }, next);
   }
 
   /**
-   * Authentication middleware
+   * Serve the endpoints exchanging credentials and refresh tokens for access tokens
    */
-  private _authMiddleware(req: McpRequest, res: Response, next: NextFunction): void {
-    const auth = this._config.auth!;
+  private _setupTokenRoutes(): void {
+    const router = express.Router();
 
-    // Skip auth for health check and docs
-    if (req.path.endsWith('/health') || req.path.startsWith('/docs')) {
-      return next();
+    router.post('/auth/token', this._handleIssueToken.bind(this));
+    router.post('/auth/refresh', this._handleRefreshToken.bind(this));
+    router.post('/auth/revoke', this._handleRevokeToken.bind(this));
+
+    this._app.use(this._config.basePath, router);
+  }
+
+  /**
+   * Attach the caller of an authenticated request to its context and audit
+   * the result
+   *
+   * @param req - Checked request
+   * @param result - Whether the credentials were accepted, and whose they are
+   */
+  private async _onAuthentication(req: McpRequest, result: HttpAuthResult): Promise<void> {
+    if (result.user) {
+      req.context = { ...req.context!, user: result.user };
     }
+    await this._auditAuthentication(req, result.outcome, result.reason, result.actor);
+  }
 
-    const authHeader = req.headers[auth.headerName?.toLowerCase() || 'x-api-key'] as string;
+  /**
+   * Record the result of authenticating a request in the audit log
+   *
+   * @param req - Authenticated request
+   * @param outcome - Whether the credentials were accepted
+   * @param reason - Why they were rejected
+   * @param actor - Caller when the credentials carry no user
+   */
+  private async _auditAuthentication(
+    req: McpRequest,
+    outcome: 'success' | 'failure',
+    reason?: string,
+    actor?: string
+  ): Promise<void> {
+    await this.auditRecorder?.({
+      type: outcome === 'success' ? 'auth.success' : 'auth.failure',
+      actor: req.context?.user?.id ?? actor ?? AUDIT_ANONYMOUS_ACTOR,
+      action: 'authenticate',
+      outcome,
+      transport: 'http',
+      requestId: req.context?.requestId,
+      details: { method: this._config.auth?.type, path: req.path, ...(reason && { reason }) },
+    });
+  }
 
-    if (!authHeader) {
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'Missing authentication header',
+  /**
+   * Serve metrics in the Prometheus text exposition format
+   *
+   * @swagger
+   * /metrics:
+   *   get:
+   *     summary: Prometheus metrics
+   *     responses:
+   *       200:
+   *         description: Metrics in the Prometheus text exposition format
+   *       404:
+   *         description: The server collects no metrics
+   */
+  private _handleMetrics(_req: Request, res: Response): void {
+    if (!this.metricsExporter) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No metrics are collected',
         timestamp: new Date().toISOString(),
       });
       return;
     }
 
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(this.metricsExporter());
+  }
+
+  /**
+   * Handle audit log queries
+   *
+   * @swagger
+   * /audit:
+   *   get:
+   *     summary: Query the audit log
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: actor
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: tool
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Matching audit records, oldest first
+   *       400:
+   *         description: Invalid query parameters
+   *       403:
+   *         description: The caller is not a user with the audit:read permission
+   *       404:
+   *         description: The server keeps no audit log or has authentication disabled
+   */
+  private async _handleAuditQuery(req: McpRequest, res: Response): Promise<void> {
+    if (!this._authorizeAuditRead(req, res)) {
+      return;
+    }
+
+    let query: AuditQuery;
     try {
-      switch (auth.type) {
-        case 'apikey':
-          if (!auth.apiKeys?.includes(authHeader)) {
-            throw new Error('Invalid API key');
-          }
-          break;
+      query = this._parseAuditQuery(req.query);
+    } catch (error) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
 
-        case 'jwt':
-          if (!auth.jwtSecret) {
-            throw new Error('JWT secret not configured');
-          }
-          const decoded = jwt.verify(authHeader.replace('Bearer ', ''), auth.jwtSecret);
-          req.user = decoded;
-          break;
+    const records = await this.auditLog!.query(query);
+    await this._auditRead(req, 'audit.query', { ...req.query });
 
-        case 'bearer':
-        case 'basic':
-          // Implement additional auth types as needed
-          break;
+    res.json({
+      records,
+      count: records.length,
+      timestamp: new Date().toISOString(),
+    });
+  }
 
-        default:
-          throw new Error('Unsupported authentication type');
-      }
+  /**
+   * Handle audit log verification
+   *
+   * @swagger
+   * /audit/verify:
+   *   get:
+   *     summary: Verify the audit log's hash chain
+   *     responses:
+   *       200:
+   *         description: Verification result, with the first record breaking the chain
+   *       403:
+   *         description: The caller is not a user with the audit:read permission
+   *       404:
+   *         description: The server keeps no audit log or has authentication disabled
+   */
+  private async _handleAuditVerify(req: McpRequest, res: Response): Promise<void> {
+    if (!this._authorizeAuditRead(req, res)) {
+      return;
+    }
 
-      next();
-    } catch (error) {
-      this._logger.warn('Authentication failed', {
-        error: error instanceof Error ? error.message : String(error),
-        requestId: req.context?.requestId,
+    const result = await this.auditLog!.verify();
+    await this._auditRead(req, 'audit.verify', { valid: result.valid });
+
+    res.json({ ...result, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Check that the audit log exists and the caller may read it, responding
+   * when not
+   *
+   * The log is only served with authentication enabled, to authenticated
+   * users with the `audit:read` permission. Callers without a user, such as
+   * API key clients, are refused.
+   *
+   * @param req - Audit request
+   * @param res - Express response
+   * @returns True when the request may proceed
+   */
+  private _authorizeAuditRead(req: McpRequest, res: Response): boolean {
+    if (!this.auditLog || !this._config.auth?.enabled) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No audit log is kept',
+        timestamp: new Date().toISOString(),
       });
+      return false;
+    }
 
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'Authentication failed',
+    const user = req.context?.user;
+    if (!user?.permissions.includes(AUDIT_READ_PERMISSION)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Reading the audit log requires a user with the '${AUDIT_READ_PERMISSION}' permission`,
         timestamp: new Date().toISOString(),
       });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Parse audit query parameters
+   *
+   * @param params - Query string parameters
+   * @returns Audit query
+   * @throws {Error} When a parameter is malformed
+   */
+  private _parseAuditQuery(params: Request['query']): AuditQuery {
+    const single = (name: string): string | undefined => {
+      const value = params[name];
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error(`'${name}' must be given once`);
+      }
+      return value;
+    };
+    const date = (name: string): Date | undefined => {
+      const value = single(name);
+      if (value === undefined) {
+        return undefined;
+      }
+      const parsed = new Date(value);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new Error(`'${name}' must be an ISO 8601 date`);
+      }
+      return parsed;
+    };
+
+    const type = single('type');
+    if (type !== undefined && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+      throw new Error(`'type' must be one of ${AUDIT_EVENT_TYPES.join(', ')}`);
+    }
+
+    const limit = single('limit');
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+    if (
+      parsedLimit !== undefined &&
+      (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_AUDIT_QUERY_LIMIT)
+    ) {
+      throw new Error(`'limit' must be an integer from 1 to ${MAX_AUDIT_QUERY_LIMIT}`);
     }
+
+    return {
+      from: date('from'),
+      to: date('to'),
+      actor: single('actor'),
+      tool: single('tool'),
+      type: type as AuditEventType | undefined,
+      limit: parsedLimit,
+    };
+  }
+
+  /**
+   * Record a read of the audit log as an admin action
+   *
+   * @param req - Audit request
+   * @param action - 'audit.query' or 'audit.verify'
+   * @param details - Query parameters or verification result
+   */
+  private async _auditRead(
+    req: McpRequest,
+    action: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.auditRecorder?.({
+      type: 'admin.action',
+      actor: req.context?.user?.id ?? AUDIT_ANONYMOUS_ACTOR,
+      action,
+      outcome: 'success',
+      transport: 'http',
+      requestId: req.context?.requestId,
+      details,
+    });
   }
 
   /**
@@ -521,50 +1036,81 @@ export class HttpTransport implements Transport {
   /**
    * Handle JSON-RPC requests
    *
+   * Accepts a single JSON-RPC message or a batch array. Batch elements are
+   * dispatched concurrently and answered with an array of responses in request
+   * order; notifications produce no response entry.
+   *
    * @swagger
    * /rpc:
    *   post:
-   *     summary: JSON-RPC endpoint
+   *     summary: JSON-RPC endpoint (single message or batch)
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             type: object
+   *             oneOf:
+   *               - type: object
+   *               - type: array
+   *                 items:
+   *                   type: object
    *     responses:
    *       200:
-   *         description: JSON-RPC response
+   *         description: JSON-RPC response, or array of responses for a batch
+   *       202:
+   *         description: Notification(s) accepted, no response body
    */
   private async _handleJsonRpc(req: McpRequest, res: Response): Promise<void> {
     try {
-      const message = req.body as any;
+      const body = req.body as unknown;
 
-      if (!message || !message.jsonrpc || !message.method) {
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32600,
-            message: 'Invalid Request',
-          },
-          id: null,
-        });
+      if (!Array.isArray(body) && !this._isRpcMessage(body)) {
+        res
+          .status(400)
+          .json(this._createRpcError(null, ErrorCode.InvalidRequest, 'Invalid Request'));
+        return;
+      }
+
+      if (!this.onmessage) {
+        res
+          .status(503)
+          .json(
+            this._createRpcError(
+              !Array.isArray(body) && 'id' in body ? body.id : null,
+              ErrorCode.InternalError,
+              'No message handler attached to transport'
+            )
+          );
         return;
       }
 
-      // Forward to MCP message handler
-      this.onmessage?.(message as JSONRPCMessage, {
+      // Cancel dispatched requests if the client disconnects before the response is sent
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort('Client disconnected');
+        }
+      });
+
+      const extra: HttpMessageExtraInfo = {
         requestInfo: {
           headers: req.headers as Record<string, string>,
         },
-      });
+        signal: controller.signal,
+        ...(req.auth && { authInfo: req.auth }),
+      };
 
-      // For HTTP transport, we handle the response through Express
-      // The actual response is sent by the MCP server through a different mechanism
-      res.status(202).json({
-        jsonrpc: '2.0',
-        result: { accepted: true },
-        id: message.id,
-      });
+      if (Array.isArray(body)) {
+        await this._handleJsonRpcBatch(body, extra, res);
+        return;
+      }
+
+      const response = await this._processRpcMessage(body, extra);
+      if (response) {
+        res.status(200).json(response);
+      } else {
+        res.status(202).end();
+      }
     } catch (error) {
       this._logger.error('JSON-RPC handling error', {
         error: error instanceof Error ? error.message : String(error),
@@ -582,6 +1128,186 @@ export class HttpTransport implements Transport {
     }
   }
 
+  /**
+   * Handle a JSON-RPC batch array
+   *
+   * @param batch - Batch elements as received
+   * @param extra - Request metadata passed to the message handler
+   * @param res - Express response
+   */
+  private async _handleJsonRpcBatch(
+    batch: unknown[],
+    extra: HttpMessageExtraInfo,
+    res: Response
+  ): Promise<void> {
+    const batchConfig: HttpBatchConfig = { ...DEFAULT_HTTP_CONFIG.batch!, ...this._config.batch };
+
+    if (!batchConfig.enabled || batch.length === 0) {
+      res.status(400).json(this._createRpcError(null, ErrorCode.InvalidRequest, 'Invalid Request'));
+      return;
+    }
+
+    if (batch.length > batchConfig.maxBatchSize) {
+      res
+        .status(400)
+        .json(
+          this._createRpcError(
+            null,
+            ErrorCode.InvalidRequest,
+            `Batch size ${batch.length} exceeds limit of ${batchConfig.maxBatchSize}`
+          )
+        );
+      return;
+    }
+
+    const results = await mapWithConcurrency(batch, batchConfig.maxConcurrency, async message =>
+      this._isRpcMessage(message)
+        ? this._processRpcMessage(message, extra)
+        : this._createRpcError(null, ErrorCode.InvalidRequest, 'Invalid Request')
+    );
+
+    // Notifications are omitted; a batch of only notifications gets no body
+    const responses = results.filter(
+      (response): response is JSONRPCResponse | JSONRPCError => response !== undefined
+    );
+
+    if (responses.length === 0) {
+      res.status(202).end();
+      return;
+    }
+
+    res.status(200).json(responses);
+  }
+
+  /**
+   * Check whether a value is a structurally valid JSON-RPC request or notification
+   *
+   * @param message - Value to check
+   * @returns True if the value can be dispatched
+   */
+  private _isRpcMessage(message: unknown): message is JSONRPCMessage & { method: string } {
+    return (
+      typeof message === 'object' &&
+      message !== null &&
+      !Array.isArray(message) &&
+      'jsonrpc' in message &&
+      message.jsonrpc === '2.0' &&
+      'method' in message &&
+      typeof message.method === 'string'
+    );
+  }
+
+  /**
+   * Dispatch a single JSON-RPC message
+   *
+   * @param message - Request or notification to dispatch
+   * @param extra - Request metadata passed to the message handler
+   * @returns Response for requests, undefined for notifications
+   */
+  private async _processRpcMessage(
+    message: JSONRPCMessage & { method: string },
+    extra: HttpMessageExtraInfo
+  ): Promise<JSONRPCResponse | JSONRPCError | undefined> {
+    const id = 'id' in message ? message.id : undefined;
+
+    // Notifications carry no ID and never receive a response
+    if (id === undefined || id === null) {
+      this.onmessage?.(message, extra);
+      return undefined;
+    }
+
+    if (this._authGuard && message.method === 'tools/call') {
+      const toolName = String((message as JSONRPCRequest).params?.name);
+      const requiredScopes = this._authGuard.getMissingToolScopes(toolName, extra.authInfo);
+      if (requiredScopes.length > 0) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: { code: FORBIDDEN, message: 'Insufficient scope', data: { requiredScopes } },
+        };
+      }
+    }
+
+    return this._dispatchRequest(message as JSONRPCRequest, extra);
+  }
+
+  /**
+   * Forward a JSON-RPC request to the message handler and wait for its response
+   *
+   * The request ID is replaced with a transport-unique correlation ID so that
+   * concurrent HTTP clients reusing the same JSON-RPC IDs cannot collide. The
+   * original ID is restored on the response. The handler receives a signal
+   * that aborts when the request times out or the client disconnects.
+   *
+   * @param message - JSON-RPC request to dispatch
+   * @param extra - Request metadata passed to the message handler
+   * @returns JSON-RPC response or error for the request
+   */
+  private _dispatchRequest(
+    message: JSONRPCRequest,
+    extra: HttpMessageExtraInfo
+  ): Promise<JSONRPCResponse | JSONRPCError> {
+    const correlationId = uuidv4();
+    const timeoutMs = this._config.security.timeout;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(extra.signal?.reason);
+    extra.signal?.addEventListener('abort', onAbort, { once: true });
+
+    return new Promise<JSONRPCResponse | JSONRPCError>(resolve => {
+      const timer = setTimeout(() => {
+        this._pendingRequests.delete(correlationId);
+        controller.abort(`Request timed out after ${timeoutMs}ms`);
+        this._logger.warn('JSON-RPC request timed out', {
+          method: message.method,
+          id: message.id,
+          timeoutMs,
+        });
+        resolve(
+          this._createRpcError(
+            message.id,
+            ErrorCode.RequestTimeout,
+            `Request timed out after ${timeoutMs}ms`
+          )
+        );
+      }, timeoutMs);
+
+      this._pendingRequests.set(correlationId, { originalId: message.id, resolve, timer });
+
+      try {
+        this.onmessage?.(
+          { ...message, id: correlationId },
+          { ...extra, signal: controller.signal }
+        );
+      } catch (error) {
+        clearTimeout(timer);
+        this._pendingRequests.delete(correlationId);
+        resolve(
+          this._createRpcError(
+            message.id,
+            ErrorCode.InternalError,
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }).finally(() => extra.signal?.removeEventListener('abort', onAbort));
+  }
+
+  /**
+   * Create a JSON-RPC error response
+   *
+   * @param id - Request ID the error responds to
+   * @param code - JSON-RPC error code
+   * @param message - Error message
+   * @returns JSON-RPC error object
+   */
+  private _createRpcError(id: RequestId | null, code: number, message: string): JSONRPCError {
+    return {
+      jsonrpc: '2.0',
+      id: id as RequestId,
+      error: { code, message },
+    };
+  }
+
   /**
    * Handle list tools requests
    *
@@ -591,15 +1317,40 @@ export class HttpTransport implements Transport {
    *     summary: List available tools
    *     responses:
    *       200:
-   *         description: List of available tools
+   *         description: Tools the caller may call
+   *       401:
+   *         description: Credentials were rejected
    */
-  private _handleListTools(req: McpRequest, res: Response): void {
-    const tools = Array.from(this._tools.entries()).map(([name, tool]) => ({
-      name,
+  private async _handleListTools(req: McpRequest, res: Response): Promise<void> {
+    let available: McpTool[];
+    try {
+      available = this.toolLister
+        ? await this.toolLister({
+            requestId: req.context!.requestId,
+            transport: 'http',
+            user: req.context?.user,
+            headers: req.headers,
+          })
+        : Array.from(this._tools.values());
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.status(error.statusCode).json({
+          error: 'Unauthorized',
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+      throw error;
+    }
+
+    const tools = available.map(tool => ({
+      name: tool.name,
       description: tool.description,
       category: tool.category,
       version: tool.version,
-      parameters: {},
+      parameters: getToolInputSchema(tool),
+      ...(tool.outputSchema && { outputSchema: getToolOutputSchema(tool) }),
       examples: tool.examples,
     }));
 
@@ -632,24 +1383,63 @@ export class HttpTransport implements Transport {
    *     responses:
    *       200:
    *         description: Tool execution result
+   *       401:
+   *         description: Credentials were rejected
+   *       403:
+   *         description: Caller may not call the tool, or the access token lacks the tool's scopes
+   *       404:
+   *         description: Tool not found
+   *       422:
+   *         description: Arguments failed validation against the tool schema
+   *       500:
+   *         description: Tool failed, or its output does not match its output schema
+   *       503:
+   *         description: Too many concurrent tool calls
+   *       504:
+   *         description: Tool execution timed out
    */
   private async _handleExecuteTool(req: McpRequest, res: Response): Promise<void> {
     try {
       const toolName = req.params.name;
       const tool = this._tools.get(toolName);
 
+      // Tool names are not listed here: GET /tools filters them by access policy
       if (!tool) {
         res.status(404).json({
           error: 'Tool Not Found',
           message: `Tool '${toolName}' is not available`,
-          availableTools: Array.from(this._tools.keys()),
           timestamp: new Date().toISOString(),
         });
         return;
       }
 
+      const requiredScopes = this._authGuard?.getMissingToolScopes(toolName, req.auth) ?? [];
+      if (requiredScopes.length > 0) {
+        this._authGuard!.sendInsufficientScope(res, requiredScopes);
+        return;
+      }
+
+      // Cancel the execution if the client disconnects before the response is sent
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort('Client disconnected');
+        }
+      });
+
       const startTime = Date.now();
-      const result = await tool.execute(req.body);
+      const result = this.toolExecutor
+        ? await this.toolExecutor(toolName, req.body ?? {}, {
+            signal: controller.signal,
+            requestId: req.context!.requestId,
+            transport: 'http',
+            user: req.context?.user,
+            headers: req.headers,
+          })
+        : await executeToolWithTimeout(tool, validateToolArguments(tool, req.body ?? {}), {
+            timeout: resolveToolTimeout(tool),
+            signal: controller.signal,
+          });
       const executionTime = Date.now() - startTime;
 
       const response: HttpResponse<ToolResult> = {
@@ -658,7 +1448,8 @@ export class HttpTransport implements Transport {
           'Content-Type': 'application/json',
           'X-Execution-Time': `${executionTime}ms`,
         },
-        body: result,
+        // Same output schema checks as tools/call
+        body: validateToolOutput(tool, result),
         metadata: {
           requestId: req.context!.requestId,
           executionTime,
@@ -667,6 +1458,58 @@ export class HttpTransport implements Transport {
 
       res.status(response.statusCode).set(response.headers).json(response.body);
     } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.status(error.statusCode).json({
+          error: 'Unauthorized',
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof AuthorizationError) {
+        res.status(error.statusCode).json({
+          error: 'Forbidden',
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof ToolValidationError) {
+        res.status(error.statusCode).json({
+          error: 'Validation Failed',
+          message: error.message,
+          issues: error.issues,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof ToolTimeoutError) {
+        res.status(error.statusCode).json({
+          error: 'Tool Timeout',
+          message: error.message,
+          timeout: error.timeout,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof ToolQueueError) {
+        res.status(error.statusCode).set('Retry-After', '1').json({
+          error: 'Server Busy',
+          message: error.message,
+          reason: error.reason,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (res.headersSent || res.destroyed) {
+        return;
+      }
+
       this._logger.error('Tool execution error', {
         error: error instanceof Error ? error.message : String(error),
         tool: req.params.name,
@@ -680,6 +1523,189 @@ export class HttpTransport implements Transport {
       });
     }
   }
+
+  /**
+   * Exchange an API key or Basic credentials for access and refresh tokens
+   *
+   * @swagger
+   * /auth/token:
+   *   post:
+   *     summary: Issue an access token
+   *     description: Authenticate with an X-API-Key header or Basic credentials
+   *     responses:
+   *       200:
+   *         description: Access and refresh tokens
+   *       401:
+   *         description: Credentials were rejected
+   */
+  private async _handleIssueToken(req: McpRequest, res: Response): Promise<void> {
+    const apiKey = req.headers['x-api-key'];
+
+    try {
+      const user =
+        typeof apiKey === 'string'
+          ? this._authGuard!.issuableApiKeys!.get(apiKey)
+          : await this._authGuard!.verifyBasicCredentials(req.headers.authorization);
+      if (!user) {
+        throw new AuthenticationError('Invalid API key');
+      }
+
+      const tokens = this.tokenIssuer!.issue(user);
+      logSecurityEvent(this._logger, 'token_issued', 'success', {
+        userId: user.id,
+        requestId: req.context?.requestId,
+      });
+      await this.auditRecorder?.({
+        type: 'auth.success',
+        actor: user.id,
+        action: 'token_issued',
+        outcome: 'success',
+        transport: 'http',
+        requestId: req.context?.requestId,
+      });
+      res.set('Cache-Control', 'no-store').json(tokens);
+    } catch (error) {
+      await this._sendTokenError(req, res, 'token_issued', error);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for new tokens
+   *
+   * @swagger
+   * /auth/refresh:
+   *   post:
+   *     summary: Refresh an access token
+   *     description: The refresh token is spent and replaced; reusing it revokes the login
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               refresh_token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: New access and refresh tokens
+   *       400:
+   *         description: No refresh token given
+   *       401:
+   *         description: Refresh token is invalid, expired or already used
+   */
+  private async _handleRefreshToken(req: McpRequest, res: Response): Promise<void> {
+    const refreshToken = req.body?.refresh_token;
+    if (typeof refreshToken !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'refresh_token is required',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    try {
+      const { tokens, user } = this.tokenIssuer!.refresh(refreshToken);
+      logSecurityEvent(this._logger, 'token_refreshed', 'success', {
+        userId: user.id,
+        requestId: req.context?.requestId,
+      });
+      await this.auditRecorder?.({
+        type: 'auth.success',
+        actor: user.id,
+        action: 'token_refreshed',
+        outcome: 'success',
+        transport: 'http',
+        requestId: req.context?.requestId,
+      });
+      res.set('Cache-Control', 'no-store').json(tokens);
+    } catch (error) {
+      await this._sendTokenError(req, res, 'token_refreshed', error);
+    }
+  }
+
+  /**
+   * Revoke an access or refresh token
+   *
+   * @swagger
+   * /auth/revoke:
+   *   post:
+   *     summary: Revoke a token
+   *     description: Revoking a refresh token also revokes the access tokens of its login
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       204:
+   *         description: Token revoked, or was not valid
+   *       400:
+   *         description: No token given
+   */
+  private _handleRevokeToken(req: McpRequest, res: Response): void {
+    const token = req.body?.token;
+    if (typeof token !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'token is required',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    this.tokenIssuer!.revoke(token);
+    res.status(204).end();
+  }
+
+  /**
+   * Respond to a token endpoint failure, recording rejected credentials
+   *
+   * @param req - Token request
+   * @param res - Express response
+   * @param event - Security event the request attempted
+   * @param error - Failure
+   */
+  private async _sendTokenError(
+    req: McpRequest,
+    res: Response,
+    event: string,
+    error: unknown
+  ): Promise<void> {
+    if (error instanceof AuthenticationError) {
+      logSecurityEvent(this._logger, event, 'failure', {
+        reason: error.message,
+        requestId: req.context?.requestId,
+      });
+      await this.auditRecorder?.({
+        type: 'auth.failure',
+        actor: AUDIT_ANONYMOUS_ACTOR,
+        action: event,
+        outcome: 'failure',
+        transport: 'http',
+        requestId: req.context?.requestId,
+        details: { reason: error.message },
+      });
+      this._authGuard!.sendUnauthorized(res, error.message);
+      return;
+    }
+
+    this._logger.error('Token endpoint error', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId: req.context?.requestId,
+    });
+
+    res.status(500).json({
+      error: 'Authentication Unavailable',
+      message: 'Credentials could not be verified',
+      timestamp: new Date().toISOString(),
+    });
+  }
 }
 
 /**
@@ -707,12 +1733,9 @@ export class HttpTransportFactory {
     return new HttpTransport({
       ...config,
       auth: {
+        ...authConfig,
         enabled: true,
         type: authConfig.type || 'apikey',
-        apiKeys: authConfig.apiKeys,
-        jwtSecret: authConfig.jwtSecret,
-        jwtExpiration: authConfig.jwtExpiration,
-        headerName: authConfig.headerName,
       },
     });
   }
@@ -2,7 +2,8 @@
  * @fileoverview Transport Layer Module Index
  *
  * This module provides the main exports for the MCP transport layer,
- * including HTTP transport, HTTP MCP server, and transport utilities.
+ * including HTTP transport, Streamable HTTP transport, HTTP MCP server, and
+ * transport utilities.
  *
  * @author MCP Boilerplate Team
  * @version 0.3.0
@@ -10,6 +11,21 @@
 
 // HTTP Transport exports
 export { HttpTransport, createHttpTransport, HttpTransportFactory } from './http.js';
+export { HttpAuthGuard, createAuthInfo } from './http-auth.js';
+export type {
+  AuthenticatedRequest,
+  HttpAuthResult,
+  HttpAuthMiddlewareOptions,
+} from './http-auth.js';
+
+// Streamable HTTP Transport exports
+export {
+  StreamableHttpTransport,
+  createStreamableHttpTransport,
+  InMemoryEventStore,
+  DEFAULT_STREAMABLE_HTTP_CONFIG,
+} from './streamable-http.js';
+export type { SessionConnector } from './streamable-http.js';
 
 // Re-export transport types from main types
 export type {
@@ -22,7 +38,10 @@ export type {
   RateLimitConfig,
   HttpSecurityConfig,
   SwaggerConfig,
+  HttpBatchConfig,
+  HttpMetricsConfig,
   HttpMcpServerConfig,
+  StreamableHttpTransportConfig,
 } from '../types/index.js';
 
 // Transport utilities and constants
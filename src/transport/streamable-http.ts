@@ -0,0 +1,704 @@
+/**
+ * @fileoverview Streamable HTTP Transport for MCP TypeScript
+ *
+ * This module provides the MCP Streamable HTTP transport (protocol revision
+ * 2025-03-26) on top of the official SDK's `StreamableHTTPServerTransport`,
+ * adding session management, resumability storage and the same Express
+ * middleware stack used by the REST-style HTTP transport.
+ *
+ * Key Features:
+ * - Single MCP endpoint for POST, GET and DELETE
+ * - JSON or SSE-streamed responses to POSTed JSON-RPC messages
+ * - Standalone GET SSE stream for server-initiated notifications and requests
+ * - `Mcp-Session-Id` session management with idle expiry
+ * - Resumable streams via `Last-Event-ID` and a bounded in-memory event store
+ * - The HTTP transport's authentication and per-tool scope checks, with
+ *   sessions bound to the caller that created them
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import express from 'express';
+import type { Express, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+import { createServer, Server as HttpServer } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  EventId,
+  EventStore,
+  StreamableHTTPServerTransport,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  isInitializeRequest,
+  isJSONRPCRequest,
+  JSONRPCMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { StreamableHttpTransportConfig } from '../types/index.js';
+import { createDefaultLogger } from '../utils/logger.js';
+import { AuthenticatedRequest, HttpAuthGuard } from './http-auth.js';
+import { Logger } from 'winston';
+
+/**
+ * Default Streamable HTTP transport configuration
+ */
+export const DEFAULT_STREAMABLE_HTTP_CONFIG: StreamableHttpTransportConfig = {
+  enabled: false,
+  port: 8010,
+  host: '0.0.0.0',
+  endpoint: '/mcp',
+  cors: {
+    enabled: true,
+    origins: ['*'],
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Last-Event-ID'],
+    credentials: false,
+  },
+  rateLimit: {
+    enabled: true,
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 1000,
+    message: 'Too many requests from this IP',
+  },
+  security: {
+    helmet: true,
+    trustProxy: false,
+    requestSizeLimit: '4mb',
+    timeout: 30000,
+  },
+  enableJsonResponse: false,
+  maxSessions: 1000,
+  sessionIdleTimeout: 30 * 60 * 1000, // 30 minutes
+  resumability: {
+    enabled: true,
+    maxEventsPerStream: 1000,
+  },
+};
+
+/**
+ * Callback connecting a new session transport to an MCP protocol server
+ *
+ * Called once per session, before the session's initialize request is handled.
+ */
+export type SessionConnector = (transport: Transport) => Promise<void>;
+
+/**
+ * Active Streamable HTTP session
+ */
+interface StreamableSession {
+  readonly transport: StreamableHTTPServerTransport;
+  /** Authenticated caller that created the session */
+  readonly userId?: string;
+  /** Events kept for resumption, when resumability is enabled */
+  readonly eventStore?: InMemoryEventStore;
+  readonly createdAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Stored SSE event for stream resumption
+ */
+interface StoredEvent {
+  readonly eventId: EventId;
+  readonly message: JSONRPCMessage;
+}
+
+/**
+ * Bounded in-memory event store enabling `Last-Event-ID` resumption
+ *
+ * Each session needs its own store: the SDK gives every session's standalone
+ * GET stream the same stream ID. Event IDs encode their stream and the store
+ * that issued them (`<streamId>_<storeId>-<sequence>`), so replay only sends
+ * events from the stream the client was connected to, and events of other
+ * stores are refused. Both the events kept per stream and the number of
+ * streams are capped, oldest first.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly _streams: Map<StreamId, StoredEvent[]> = new Map();
+  private readonly _maxEventsPerStream: number;
+  private readonly _maxStreams: number;
+  private readonly _id = uuidv4();
+  private _sequence = 0;
+
+  constructor(
+    maxEventsPerStream = DEFAULT_STREAMABLE_HTTP_CONFIG.resumability.maxEventsPerStream,
+    maxStreams = 10000
+  ) {
+    this._maxEventsPerStream = maxEventsPerStream;
+    this._maxStreams = maxStreams;
+  }
+
+  /**
+   * Store an event for later replay
+   *
+   * @param streamId - Stream the event was sent on
+   * @param message - JSON-RPC message carried by the event
+   * @returns Generated event ID
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${this._id}-${++this._sequence}`;
+
+    let events = this._streams.get(streamId);
+    if (!events) {
+      events = [];
+      this._streams.set(streamId, events);
+
+      // Maps iterate in insertion order, so the first key is the oldest stream
+      if (this._streams.size > this._maxStreams) {
+        const oldest = this._streams.keys().next().value;
+        if (oldest !== undefined) this._streams.delete(oldest);
+      }
+    }
+
+    events.push({ eventId, message });
+
+    // Drop the oldest events once the stream exceeds its budget
+    if (events.length > this._maxEventsPerStream) {
+      events.splice(0, events.length - this._maxEventsPerStream);
+    }
+
+    return eventId;
+  }
+
+  /**
+   * Replay all events sent on the same stream after the given event
+   *
+   * @param lastEventId - Last event ID received by the client
+   * @param handlers - Callback used to send each replayed event
+   * @returns Stream ID the replayed events belong to
+   * @throws {Error} When the event was not issued by this store
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    if (!this.ownsEvent(lastEventId)) {
+      throw new Error(`Unknown event ID: ${lastEventId}`);
+    }
+
+    const streamId = InMemoryEventStore.streamIdFromEventId(lastEventId);
+    const events = this._streams.get(streamId) ?? [];
+    const lastIndex = events.findIndex(event => event.eventId === lastEventId);
+
+    for (const event of events.slice(lastIndex + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+
+  /**
+   * Check whether an event ID was issued by this store
+   *
+   * Events evicted from the store still count as its own.
+   *
+   * @param eventId - Event ID sent by a client
+   * @returns True when the event belongs to this store
+   */
+  ownsEvent(eventId: EventId): boolean {
+    const separator = eventId.lastIndexOf('_');
+    return separator !== -1 && eventId.startsWith(`${this._id}-`, separator + 1);
+  }
+
+  /**
+   * Extract the stream ID from an event ID
+   *
+   * @param eventId - Event ID in `<streamId>_<storeId>-<sequence>` form
+   * @returns Stream ID
+   */
+  static streamIdFromEventId(eventId: EventId): StreamId {
+    const separator = eventId.lastIndexOf('_');
+    return separator === -1 ? eventId : eventId.substring(0, separator);
+  }
+}
+
+/**
+ * Streamable HTTP transport host
+ *
+ * Serves a single MCP endpoint and manages one SDK `StreamableHTTPServerTransport`
+ * per client session. Each new session is handed to the `SessionConnector`,
+ * which connects it to its own MCP protocol server instance. With
+ * authentication, every request needs credentials, and a session only serves
+ * the caller that created it.
+ *
+ * @example
+ * ```typescript
+ * const transport = new StreamableHttpTransport({ port: 8010 }, async session => {
+ *   await createProtocolServer().connect(session);
+ * });
+ * await transport.start();
+ * ```
+ */
+export class StreamableHttpTransport {
+  private readonly _config: StreamableHttpTransportConfig;
+  private readonly _logger: Logger;
+  private readonly _app: Express;
+  private readonly _sessions: Map<string, StreamableSession> = new Map();
+  private readonly _connectSession: SessionConnector;
+  private readonly _authGuard?: HttpAuthGuard;
+  private _server?: HttpServer;
+  private _sweepTimer?: NodeJS.Timeout;
+  private _isStarted = false;
+  /** Sessions connected but still handling their initialize request */
+  private _pendingSessions = 0;
+
+  /**
+   * @param config - Transport configuration
+   * @param connectSession - Connects each new session to a protocol server
+   * @param authGuard - Credential checks shared with another HTTP transport;
+   *   when omitted, `config.auth` is used
+   * @throws {ServerConfigError} When authentication is enabled without its configuration
+   */
+  constructor(
+    config: Partial<StreamableHttpTransportConfig>,
+    connectSession: SessionConnector,
+    authGuard?: HttpAuthGuard
+  ) {
+    this._config = { ...DEFAULT_STREAMABLE_HTTP_CONFIG, ...config };
+    this._logger = createDefaultLogger(
+      { level: 'info', format: 'pretty', output: 'console' },
+      'streamable-http-transport'
+    );
+    this._app = express();
+    this._connectSession = connectSession;
+    this._authGuard =
+      authGuard ??
+      (this._config.auth?.enabled ? new HttpAuthGuard(this._config.auth, this._logger) : undefined);
+
+    this._setupMiddleware();
+    this._setupRoutes();
+  }
+
+  /**
+   * Get IDs of all active sessions
+   */
+  get sessionIds(): string[] {
+    return Array.from(this._sessions.keys());
+  }
+
+  /**
+   * Get number of active sessions
+   */
+  get sessionCount(): number {
+    return this._sessions.size;
+  }
+
+  /**
+   * Start the HTTP server and begin accepting sessions
+   */
+  async start(): Promise<void> {
+    if (this._isStarted) {
+      throw new Error('Streamable HTTP transport already started');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        this._server = createServer(this._app);
+
+        this._server.listen(this._config.port, this._config.host, () => {
+          this._isStarted = true;
+          this._startSessionSweep();
+          this._logger.info('Streamable HTTP transport started', {
+            host: this._config.host,
+            port: this._config.port,
+            endpoint: this._config.endpoint,
+          });
+          resolve();
+        });
+
+        this._server.on('error', error => {
+          this._logger.error('Streamable HTTP server error', { error: error.message });
+          reject(error);
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Close all sessions and the HTTP server
+   */
+  async close(): Promise<void> {
+    if (!this._isStarted || !this._server) {
+      return;
+    }
+
+    if (this._sweepTimer) {
+      clearInterval(this._sweepTimer);
+      this._sweepTimer = undefined;
+    }
+
+    for (const sessionId of Array.from(this._sessions.keys())) {
+      await this._closeSession(sessionId);
+    }
+
+    return new Promise(resolve => {
+      // Open SSE streams keep sockets alive; drop them so close() completes
+      this._server!.closeAllConnections();
+      this._server!.close(() => {
+        this._isStarted = false;
+        this._logger.info('Streamable HTTP transport closed');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Setup Express middleware stack
+   */
+  private _setupMiddleware(): void {
+    // Security middleware
+    if (this._config.security.helmet) {
+      this._app.use(helmet());
+    }
+
+    // Trust proxy if configured
+    if (this._config.security.trustProxy) {
+      this._app.set('trust proxy', true);
+    }
+
+    // CORS middleware (session header must be readable by browser clients)
+    if (this._config.cors.enabled) {
+      this._app.use(
+        cors({
+          origin: this._config.cors.origins,
+          methods: this._config.cors.methods,
+          allowedHeaders: this._config.cors.allowedHeaders,
+          exposedHeaders: ['Mcp-Session-Id'],
+          credentials: this._config.cors.credentials,
+        })
+      );
+    }
+
+    // Rate limiting
+    if (this._config.rateLimit?.enabled) {
+      this._app.use(
+        rateLimit({
+          windowMs: this._config.rateLimit.windowMs,
+          max: this._config.rateLimit.maxRequests,
+          message: { error: this._config.rateLimit.message },
+          standardHeaders: true,
+          legacyHeaders: false,
+        })
+      );
+    }
+
+    // Body parsing middleware
+    this._app.use(express.json({ limit: this._config.security.requestSizeLimit }));
+
+    // Authentication; OAuth metadata stays public
+    if (this._authGuard) {
+      this._app.use(this._authGuard.oauth2Router());
+      this._app.use(this._authGuard.middleware());
+    }
+  }
+
+  /**
+   * Setup the MCP endpoint routes
+   */
+  private _setupRoutes(): void {
+    this._app.post(this._config.endpoint, this._handlePost.bind(this));
+    this._app.get(this._config.endpoint, this._handleSessionRequest.bind(this));
+    this._app.delete(this._config.endpoint, this._handleSessionRequest.bind(this));
+  }
+
+  /**
+   * Handle POSTed JSON-RPC messages, creating a session on initialize
+   */
+  private async _handlePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      const requiredScopes = this._getMissingToolScopes(req);
+      if (requiredScopes.length > 0) {
+        this._authGuard!.sendInsufficientScope(res, requiredScopes);
+        return;
+      }
+
+      if (sessionId) {
+        const session = this._getSession(sessionId, req);
+        if (!session) {
+          this._sendError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+          return;
+        }
+
+        session.lastActivity = Date.now();
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        this._sendError(
+          res,
+          400,
+          ErrorCode.InvalidRequest,
+          'Bad Request: No valid session ID provided'
+        );
+        return;
+      }
+
+      // Sessions still initializing count against the limit
+      if (this._sessions.size + this._pendingSessions >= this._config.maxSessions) {
+        this._sendError(res, 503, ErrorCode.InternalError, 'Session limit reached');
+        return;
+      }
+
+      await this._initializeSession(req, res);
+    } catch (error) {
+      this._logger.error('Streamable HTTP request error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      if (!res.headersSent) {
+        this._sendError(res, 500, ErrorCode.InternalError, 'Internal error');
+      }
+    }
+  }
+
+  /**
+   * Handle GET (SSE stream) and DELETE (session termination) requests
+   *
+   * A `Last-Event-ID` the session's event store did not issue is refused, so
+   * clients cannot replay another session's events.
+   */
+  private async _handleSessionRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (!sessionId) {
+      this._sendError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: Mcp-Session-Id required');
+      return;
+    }
+
+    const session = this._getSession(sessionId, req);
+    if (!session) {
+      this._sendError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+      return;
+    }
+
+    const lastEventId = req.headers['last-event-id'];
+    if (
+      req.method === 'GET' &&
+      typeof lastEventId === 'string' &&
+      session.eventStore &&
+      !session.eventStore.ownsEvent(lastEventId)
+    ) {
+      this._sendError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: Unknown Last-Event-ID');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      this._logger.error('Streamable HTTP session request error', {
+        sessionId,
+        method: req.method,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      if (!res.headersSent) {
+        this._sendError(res, 500, ErrorCode.InternalError, 'Internal error');
+      }
+    }
+  }
+
+  /**
+   * Create a session for an initialize request
+   *
+   * The session's transport is closed, disconnecting its protocol server,
+   * when initialization fails without assigning a session ID.
+   */
+  private async _initializeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    this._pendingSessions++;
+    let transport: StreamableHTTPServerTransport | undefined;
+
+    try {
+      transport = await this._createSession(getUserId(req));
+      await transport.handleRequest(req, res, req.body);
+    } finally {
+      this._pendingSessions--;
+      if (transport && !transport.sessionId) {
+        await transport.close().catch(error => {
+          this._logger.warn('Error closing uninitialized Streamable HTTP session', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    }
+  }
+
+  /**
+   * Create a session transport and connect it to a protocol server
+   *
+   * @param userId - Authenticated caller creating the session
+   * @returns New SDK transport awaiting its initialize request
+   */
+  private async _createSession(userId?: string): Promise<StreamableHTTPServerTransport> {
+    const eventStore = this._config.resumability.enabled
+      ? new InMemoryEventStore(this._config.resumability.maxEventsPerStream)
+      : undefined;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => uuidv4(),
+      enableJsonResponse: this._config.enableJsonResponse,
+      eventStore,
+      allowedHosts: this._config.allowedHosts,
+      allowedOrigins: this._config.allowedOrigins,
+      enableDnsRebindingProtection: !!(this._config.allowedHosts ?? this._config.allowedOrigins),
+      onsessioninitialized: sessionId => {
+        const now = Date.now();
+        this._sessions.set(sessionId, {
+          transport,
+          userId,
+          eventStore,
+          createdAt: now,
+          lastActivity: now,
+        });
+        this._logger.info('Streamable HTTP session initialized', {
+          sessionId,
+          activeSessions: this._sessions.size,
+        });
+      },
+      onsessionclosed: sessionId => {
+        this._logger.info('Streamable HTTP session terminated by client', { sessionId });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this._sessions.delete(transport.sessionId);
+      }
+    };
+
+    await this._connectSession(transport);
+
+    return transport;
+  }
+
+  /**
+   * Look up a session of the caller
+   *
+   * Sessions of other callers are reported as missing, so session IDs cannot
+   * be used to act as another user.
+   *
+   * @param sessionId - Session named by the request
+   * @param req - Authenticated request
+   * @returns The session, or undefined when it does not exist or is not the caller's
+   */
+  private _getSession(sessionId: string, req: AuthenticatedRequest): StreamableSession | undefined {
+    const session = this._sessions.get(sessionId);
+    return session && session.userId === getUserId(req) ? session : undefined;
+  }
+
+  /**
+   * Find the scopes the tool calls in a POST body need that the caller's
+   * access token lacks
+   *
+   * @param req - Authenticated request with a parsed body
+   * @returns Required scopes of the first tool call the token may not make, or an empty array
+   */
+  private _getMissingToolScopes(req: AuthenticatedRequest): readonly string[] {
+    if (!this._authGuard) {
+      return [];
+    }
+
+    const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+    for (const message of messages) {
+      if (isJSONRPCRequest(message) && message.method === 'tools/call') {
+        const toolName = String(message.params?.name);
+        const requiredScopes = this._authGuard.getMissingToolScopes(toolName, req.auth);
+        if (requiredScopes.length > 0) {
+          return requiredScopes;
+        }
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Close a single session and release its resources
+   *
+   * @param sessionId - Session to close
+   */
+  private async _closeSession(sessionId: string): Promise<void> {
+    const session = this._sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this._sessions.delete(sessionId);
+
+    try {
+      await session.transport.close();
+    } catch (error) {
+      this._logger.warn('Error closing Streamable HTTP session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Periodically close sessions that have been idle for too long
+   */
+  private _startSessionSweep(): void {
+    const idleTimeout = this._config.sessionIdleTimeout;
+    if (idleTimeout <= 0) {
+      return;
+    }
+
+    this._sweepTimer = setInterval(
+      () => {
+        const cutoff = Date.now() - idleTimeout;
+
+        for (const [sessionId, session] of Array.from(this._sessions)) {
+          if (session.lastActivity < cutoff) {
+            this._logger.info('Closing idle Streamable HTTP session', { sessionId });
+            void this._closeSession(sessionId);
+          }
+        }
+      },
+      Math.min(idleTimeout, 60000)
+    );
+    this._sweepTimer.unref();
+  }
+
+  /**
+   * Send a JSON-RPC error with the given HTTP status
+   */
+  private _sendError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+}
+
+/**
+ * Get the ID of the user a request authenticated as
+ */
+function getUserId(req: AuthenticatedRequest): string | undefined {
+  const user = req.auth?.extra?.user;
+  return user && typeof user === 'object' && 'id' in user ? String(user.id) : undefined;
+}
+
+/**
+ * Create Streamable HTTP transport with default configuration
+ */
+export function createStreamableHttpTransport(
+  config: Partial<StreamableHttpTransportConfig>,
+  connectSession: SessionConnector,
+  authGuard?: HttpAuthGuard
+): StreamableHttpTransport {
+  return new StreamableHttpTransport(config, connectSession, authGuard);
+}
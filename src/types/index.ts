@@ -27,6 +27,9 @@ export interface McpServerConfig {
   logging: LoggingConfig;
   security: SecurityConfig;
   performance: PerformanceConfig;
+  plugins?: PluginConfig;
+  telemetry?: TelemetryConfig;
+  audit?: AuditConfig;
 }
 
 /**
@@ -57,6 +60,15 @@ export interface SecurityConfig {
     readonly origins: string[];
     readonly methods: string[];
   };
+  readonly authorization?: AuthorizationConfig;
+}
+
+/**
+ * Access control for tools
+ */
+export interface AuthorizationConfig {
+  /** Policies for tools of a category that declare no `access` policy of their own */
+  readonly categories?: Readonly<Partial<Record<ToolCategory, ToolAccessPolicy>>>;
 }
 
 /**
@@ -71,6 +83,34 @@ export interface PerformanceConfig {
     readonly ttl: number;
     readonly maxSize: number;
   };
+  readonly concurrency?: ConcurrencyConfig;
+}
+
+/**
+ * Admission control for tool executions beyond the global
+ * `maxConcurrentRequests` limit
+ */
+export interface ConcurrencyConfig {
+  /** Maximum number of calls waiting for a slot; further calls are rejected */
+  readonly maxQueueSize: number;
+  /** Maximum time in milliseconds a call may wait for a slot */
+  readonly queueTimeout: number;
+  /** Concurrent execution limits keyed by tool name */
+  readonly perTool?: Readonly<Record<string, number>>;
+  /** Concurrent execution limits keyed by tool category */
+  readonly perCategory?: Readonly<Partial<Record<ToolCategory, number>>>;
+}
+
+/**
+ * Discovery of tool plugins shipped separately from the server code
+ */
+export interface PluginConfig {
+  /** Directories whose `.js` / `.mjs` files are loaded as plugin modules */
+  readonly directories: readonly string[];
+  /** Installed package names loaded as plugin modules */
+  readonly packages?: readonly string[];
+  /** Reload or unregister directory plugins when their files change */
+  readonly watch: boolean;
 }
 
 // =============================================================================
@@ -87,7 +127,51 @@ export interface McpTool {
   readonly category: ToolCategory;
   readonly version: string;
   readonly examples: ToolExample[];
-  execute(params: unknown): Promise<ToolResult>;
+  /** Execution timeout in milliseconds, overriding `performance.timeout` */
+  readonly timeout?: number;
+  /** Maximum concurrent executions of this tool */
+  readonly maxConcurrency?: number;
+  /** Queue priority when waiting for a slot; higher runs first (default: 0) */
+  readonly priority?: number;
+  /** Cache successful results when `performance.caching` is enabled */
+  readonly cache?: boolean | ToolCacheOptions;
+  /** Schema that successful results' `structuredContent` must satisfy */
+  readonly outputSchema?: z.AnyZodObject;
+  /** Roles and permissions required to see and call this tool, replacing the category policy */
+  readonly access?: ToolAccessPolicy;
+  execute(params: unknown, context?: ToolExecutionContext): Promise<ToolResult>;
+}
+
+/**
+ * Per-call context passed to `McpTool.execute`
+ */
+export interface ToolExecutionContext {
+  /** Aborted when the call times out or the client cancels it */
+  readonly signal: AbortSignal;
+  /** Effective timeout for this call in milliseconds */
+  readonly timeout: number;
+  /** Authenticated caller, when known */
+  readonly user?: UserContext;
+}
+
+/**
+ * Roles and permissions a caller needs to see and call a tool
+ */
+export interface ToolAccessPolicy {
+  /** The caller needs at least one of these roles */
+  readonly roles?: readonly string[];
+  /** The caller needs every one of these permissions */
+  readonly permissions?: readonly string[];
+}
+
+/**
+ * Result caching options for a tool
+ */
+export interface ToolCacheOptions {
+  /** Time to live in milliseconds, overriding `performance.caching.ttl` */
+  readonly ttl?: number;
+  /** Derive the cache key from validated parameters (default: canonical JSON) */
+  key?(params: unknown): string;
 }
 
 /**
@@ -122,9 +206,142 @@ export interface ToolResult {
   readonly success: boolean;
   readonly data?: unknown;
   readonly error?: string;
+  /** Content blocks sent to the client; derived from `data` or `error` when omitted */
+  readonly content?: readonly ToolContent[];
+  /** Structured JSON result, validated against the tool's `outputSchema` */
+  readonly structuredContent?: Record<string, unknown>;
   readonly metadata?: ToolResultMetadata;
 }
 
+/**
+ * Tool result content block
+ */
+export type ToolContent =
+  | TextToolContent
+  | ImageToolContent
+  | AudioToolContent
+  | ResourceToolContent
+  | ResourceLinkToolContent;
+
+/**
+ * Plain text content
+ */
+export interface TextToolContent {
+  readonly type: 'text';
+  readonly text: string;
+}
+
+/**
+ * Image content; raw bytes are base64-encoded for the client
+ */
+export interface ImageToolContent {
+  readonly type: 'image';
+  readonly data: Uint8Array | string;
+  readonly mimeType: string;
+}
+
+/**
+ * Audio content; raw bytes are base64-encoded for the client
+ */
+export interface AudioToolContent {
+  readonly type: 'audio';
+  readonly data: Uint8Array | string;
+  readonly mimeType: string;
+}
+
+/**
+ * Embedded resource contents
+ */
+export interface ResourceToolContent {
+  readonly type: 'resource';
+  readonly resource: { readonly uri: string } & ResourceContent;
+}
+
+/**
+ * Link to a resource the client can read separately
+ */
+export interface ResourceLinkToolContent {
+  readonly type: 'resource_link';
+  readonly uri: string;
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly mimeType?: string;
+}
+
+/**
+ * Per-call options for `McpServer.callTool`
+ */
+export interface ToolCallOptions {
+  /** Caller's signal; aborting it cancels the call */
+  readonly signal?: AbortSignal;
+  /** Identifier of the protocol request that triggered the call */
+  readonly requestId?: string | number;
+  /** Transport the call arrived on (default: 'stdio') */
+  readonly transport?: string;
+  /**
+   * Authenticated caller, when the transport knows one; replaced by the
+   * result of the server's authenticator when one is configured
+   */
+  readonly user?: UserContext;
+  /** Request headers carrying credentials, for transports that have them */
+  readonly headers?: Readonly<Record<string, string | string[] | undefined>>;
+  /** Session the request belongs to, for session-based transports */
+  readonly sessionId?: string;
+}
+
+/**
+ * Request-scoped context, propagated through async calls to every log entry,
+ * metric sample and tool result of the request
+ */
+export interface RequestContext {
+  /** Identifier unique to the request; returned to HTTP clients as `X-Request-ID` */
+  readonly requestId: string;
+  /** JSON-RPC id of the MCP request, unique only within its session */
+  readonly rpcId?: string | number;
+  readonly sessionId?: string;
+  readonly transport?: string;
+  readonly userId?: string;
+  readonly toolName?: string;
+  readonly traceId?: string;
+}
+
+/**
+ * State of a single tool call, shared by every middleware in the chain
+ */
+export interface ToolCallContext {
+  readonly tool: McpTool;
+  /** Raw arguments; `before` hooks may replace them before validation */
+  args: unknown;
+  readonly requestId?: string | number;
+  readonly transport: string;
+  readonly user?: UserContext;
+  readonly signal?: AbortSignal;
+  /** Scratch space for passing data between hooks */
+  readonly state: Map<string, unknown>;
+}
+
+/**
+ * Interceptor around tool execution
+ *
+ * Middleware runs in registration order. `before` hooks run first to last,
+ * then the tool, then `after` hooks last to first. When a call fails, `error`
+ * hooks run last to first for every middleware whose `before` completed; one
+ * returning a result recovers the call.
+ */
+export interface ToolMiddleware {
+  readonly name: string;
+  /** Inspect or rewrite the call; throw to reject it */
+  before?(context: ToolCallContext): void | Promise<void>;
+  /** Inspect the result; return a result to replace it */
+  after?(
+    context: ToolCallContext,
+    result: ToolResult
+  ): ToolResult | void | Promise<ToolResult | void>;
+  /** Inspect a failure; return a result to recover or throw to replace the error */
+  error?(context: ToolCallContext, error: unknown): ToolResult | void | Promise<ToolResult | void>;
+}
+
 /**
  * Additional metadata for tool results
  */
@@ -146,6 +363,175 @@ export interface ResourceUsage {
   readonly networkBytesOut?: number;
 }
 
+/**
+ * JSON Schema document (draft 2020-12) derived from a tool's Zod schema
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+// =============================================================================
+// Resource Types
+// =============================================================================
+
+/**
+ * Static resource exposed at a fixed URI
+ */
+export interface McpResource {
+  readonly uri: string;
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly mimeType?: string;
+  read(uri: URL): Promise<ResourceContent | ResourceContent[]>;
+}
+
+/**
+ * Family of resources addressed by an RFC 6570 URI template
+ *
+ * @example
+ * ```typescript
+ * const reports: McpResourceTemplate = {
+ *   uriTemplate: 'analytics://reports/{reportId}',
+ *   name: 'report',
+ *   mimeType: 'application/json',
+ *   read: async (uri, { reportId }) => ({ text: JSON.stringify(await loadReport(reportId)) }),
+ * };
+ * ```
+ */
+export interface McpResourceTemplate {
+  readonly uriTemplate: string;
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly mimeType?: string;
+  /** Enumerate concrete resources for `resources/list` (optional) */
+  list?(): Promise<ResourceDescriptor[]>;
+  read(
+    uri: URL,
+    variables: ResourceTemplateVariables
+  ): Promise<ResourceContent | ResourceContent[]>;
+}
+
+/**
+ * Variables extracted from a URI matched against a resource template
+ */
+export type ResourceTemplateVariables = Record<string, string | string[]>;
+
+/**
+ * Concrete resource entry returned by `resources/list`
+ */
+export interface ResourceDescriptor {
+  readonly uri: string;
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly mimeType?: string;
+}
+
+/**
+ * Resource contents returned by a read
+ *
+ * `uri` and `mimeType` default to the requested URI and the resource's MIME type.
+ */
+export type ResourceContent = TextResourceContent | BlobResourceContent;
+
+/**
+ * Textual resource contents
+ */
+export interface TextResourceContent {
+  readonly uri?: string;
+  readonly mimeType?: string;
+  readonly text: string;
+}
+
+/**
+ * Binary resource contents (raw bytes or base64 string)
+ */
+export interface BlobResourceContent {
+  readonly uri?: string;
+  readonly mimeType?: string;
+  readonly blob: Uint8Array | string;
+}
+
+// =============================================================================
+// Prompt Types
+// =============================================================================
+
+/**
+ * Reusable prompt template exposed through `prompts/list` and `prompts/get`
+ *
+ * Prompt arguments arrive from clients as strings; use `z.coerce` in the
+ * arguments schema for non-string values.
+ *
+ * @example
+ * ```typescript
+ * const reviewPrompt: McpPrompt = {
+ *   name: 'code-review',
+ *   description: 'Review a code snippet',
+ *   arguments: z.object({
+ *     code: z.string().describe('Code to review'),
+ *     focus: z.enum(['security', 'style']).optional(),
+ *   }),
+ *   render: async ({ code, focus }) => [
+ *     { role: 'user', content: { type: 'text', text: `Review (${focus ?? 'all'}):\n${code}` } },
+ *   ],
+ * };
+ * ```
+ */
+export interface McpPrompt<TArgs extends z.AnyZodObject = z.AnyZodObject> {
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly arguments?: TArgs;
+  render(args: z.infer<TArgs>): Promise<PromptMessage[]>;
+}
+
+/**
+ * Single message produced by rendering a prompt
+ */
+export interface PromptMessage {
+  readonly role: 'user' | 'assistant';
+  readonly content: PromptContent;
+}
+
+/**
+ * Prompt message content: plain text or an embedded resource
+ */
+export type PromptContent = TextPromptContent | ResourcePromptContent;
+
+/**
+ * Text prompt content
+ */
+export interface TextPromptContent {
+  readonly type: 'text';
+  readonly text: string;
+}
+
+/**
+ * Embedded resource prompt content
+ *
+ * Binary blobs may be raw bytes and are base64-encoded for the client.
+ */
+export interface ResourcePromptContent {
+  readonly type: 'resource';
+  readonly resource: { readonly uri: string } & ResourceContent;
+}
+
+// =============================================================================
+// Plugin Types
+// =============================================================================
+
+/**
+ * Outcome of loading one plugin module
+ */
+export interface PluginLoadResult {
+  /** Absolute file path or package name of the plugin */
+  readonly source: string;
+  /** Names of the tools the plugin registered */
+  readonly tools: readonly string[];
+  /** Load failure; the plugin registered no tools */
+  readonly error?: string;
+}
+
 // =============================================================================
 // Server Lifecycle Types
 // =============================================================================
@@ -224,6 +610,72 @@ export interface UserContext {
   readonly metadata?: Record<string, unknown>;
 }
 
+/**
+ * Credentials presented with a request, as seen by an authenticator
+ */
+export interface AuthRequest {
+  /** Request headers; empty for transports without headers such as stdio */
+  readonly headers: Readonly<Record<string, string | string[] | undefined>>;
+  /** Transport the request arrived on */
+  readonly transport: string;
+}
+
+/**
+ * Resolve the caller of a request
+ *
+ * Returns undefined when the request carries no credentials and throws
+ * `AuthenticationError` when it carries invalid ones.
+ */
+export type Authenticator = (request: AuthRequest) => Promise<UserContext | undefined>;
+
+/**
+ * `AuthConfig.options` for the `api-key` method
+ */
+export interface ApiKeyAuthOptions {
+  /** Header carrying the key (default: `x-api-key`) */
+  readonly headerName?: string;
+  /** Users keyed by their API key */
+  readonly keys: Readonly<Record<string, UserContext>>;
+}
+
+/**
+ * `AuthConfig.options` for the `bearer` method
+ */
+export interface BearerAuthOptions {
+  /** Users keyed by static bearer token */
+  readonly tokens?: Readonly<Record<string, UserContext>>;
+  /** Resolve tokens not found in `tokens`; return undefined to reject them */
+  verify?(token: string): Promise<UserContext | undefined>;
+}
+
+/**
+ * `AuthConfig.options` for the `basic` method
+ */
+export interface BasicAuthOptions {
+  /** Check a username and password; return undefined to reject them */
+  verify(username: string, password: string): Promise<UserContext | undefined>;
+}
+
+/**
+ * `AuthConfig.options` for the `oauth2` method (RFC 7662 token introspection)
+ */
+export interface OAuth2IntrospectionOptions {
+  /** Authorization server's introspection endpoint */
+  readonly introspectionUrl: string;
+  /** Client credentials used to authenticate to the introspection endpoint */
+  readonly clientId: string;
+  readonly clientSecret: string;
+  /** Token claim holding the caller's roles (default: `roles`) */
+  readonly rolesClaim?: string;
+}
+
+/**
+ * `AuthConfig.options` for the `custom` method
+ */
+export interface CustomAuthOptions {
+  readonly authenticate: Authenticator;
+}
+
 // =============================================================================
 // Database & Storage Types
 // =============================================================================
@@ -579,6 +1031,101 @@ export class ValidationError extends McpBoilerplateError {
   readonly statusCode = 400;
 }
 
+/**
+ * Tool execution exceeded its timeout and was aborted
+ */
+export class ToolTimeoutError extends McpBoilerplateError {
+  readonly code = 'TOOL_TIMEOUT';
+  readonly statusCode = 504;
+  readonly toolName: string;
+  readonly timeout: number;
+
+  constructor(toolName: string, timeout: number) {
+    super(`Tool '${toolName}' timed out after ${timeout}ms`, { toolName, timeout });
+    this.toolName = toolName;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Tool call was rejected by admission control before it started
+ */
+export class ToolQueueError extends McpBoilerplateError {
+  readonly code = 'TOOL_QUEUE_REJECTED';
+  readonly statusCode = 503;
+  readonly toolName: string;
+  readonly reason: 'queue_full' | 'queue_timeout';
+
+  constructor(toolName: string, reason: 'queue_full' | 'queue_timeout', message: string) {
+    super(message, { toolName, reason });
+    this.toolName = toolName;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Tool execution was cancelled by the caller
+ */
+export class ToolCancelledError extends McpBoilerplateError {
+  readonly code = 'TOOL_CANCELLED';
+  readonly statusCode = 499;
+  readonly toolName: string;
+
+  constructor(toolName: string, reason?: string) {
+    super(`Tool '${toolName}' was cancelled${reason ? `: ${reason}` : ''}`, { toolName, reason });
+    this.toolName = toolName;
+  }
+}
+
+/**
+ * Plugin module could not be imported or provides no usable tools
+ */
+export class PluginLoadError extends McpBoilerplateError {
+  readonly code = 'PLUGIN_LOAD_ERROR';
+  readonly statusCode = 500;
+  readonly source: string;
+
+  constructor(source: string, message: string) {
+    super(message, { source });
+    this.source = source;
+  }
+}
+
+/**
+ * Single field-level validation failure
+ */
+export interface ValidationIssue {
+  /** Dotted path to the offending field, empty for the root value */
+  readonly path: string;
+  readonly message: string;
+  /** Zod issue code (e.g. `invalid_type`, `too_small`) */
+  readonly code: string;
+}
+
+/**
+ * Tool arguments failed validation against the tool's parameters schema
+ */
+export class ToolValidationError extends McpBoilerplateError {
+  readonly code = 'TOOL_VALIDATION_ERROR';
+  readonly statusCode = 422;
+  readonly toolName: string;
+  readonly issues: readonly ValidationIssue[];
+
+  constructor(toolName: string, issues: readonly ValidationIssue[]) {
+    super(`Invalid arguments for tool '${toolName}'`, { toolName, issues });
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Audit log could not be written or read
+ */
+export class AuditLogError extends McpBoilerplateError {
+  readonly code = 'AUDIT_LOG_ERROR';
+  readonly statusCode = 500;
+}
+
 // =============================================================================
 // Utility Types
 // =============================================================================
@@ -628,6 +1175,11 @@ export interface ServerBuilder {
   withConfig(config: Partial<McpServerConfig>): ServerBuilder;
   withTool(tool: McpTool): ServerBuilder;
   withTools(tools: McpTool[]): ServerBuilder;
+  withResource(resource: McpResource): ServerBuilder;
+  withResourceTemplate(template: McpResourceTemplate): ServerBuilder;
+  withPrompt(prompt: McpPrompt): ServerBuilder;
+  withPrompts(prompts: McpPrompt[]): ServerBuilder;
+  withMiddleware(middleware: ToolMiddleware): ServerBuilder;
   withAuth(auth: AuthConfig): ServerBuilder;
   withDatabase(db: DatabaseConfig): ServerBuilder;
   withExternalApi(api: ApiConfig): ServerBuilder;
@@ -648,6 +1200,15 @@ export interface McpServer {
   getHealth(): Promise<HealthCheckResult>;
   getTool(name: string): McpTool | undefined;
   listTools(): McpTool[];
+  registerTool(tool: McpTool): void;
+  unregisterTool(name: string): boolean;
+  registerResource(resource: McpResource): void;
+  registerResourceTemplate(template: McpResourceTemplate): void;
+  notifyResourceUpdated(uri: string): Promise<void>;
+  registerPrompt(prompt: McpPrompt): void;
+  invalidateToolCache(toolName: string, keyPrefix?: string): number;
+  use(middleware: ToolMiddleware): void;
+  callTool(name: string, args: unknown, options?: ToolCallOptions): Promise<ToolResult>;
   executeWorkflow(workflow: Workflow): Promise<WorkflowExecution>;
 }
 
@@ -662,8 +1223,15 @@ export type ServerEvent =
   | 'server:started'
   | 'server:stopped'
   | 'server:error'
+  | 'tool:registered'
+  | 'tool:unregistered'
   | 'tool:executed'
   | 'tool:error'
+  | 'resource:read'
+  | 'resource:updated'
+  | 'prompt:rendered'
+  | 'transport:error'
+  | 'transport:closed'
   | 'workflow:started'
   | 'workflow:completed'
   | 'workflow:failed';
@@ -700,6 +1268,8 @@ export interface HttpTransportConfig {
   readonly rateLimit?: RateLimitConfig;
   readonly security: HttpSecurityConfig;
   readonly swagger?: SwaggerConfig;
+  readonly batch?: HttpBatchConfig;
+  readonly metrics?: HttpMetricsConfig;
 }
 
 /**
@@ -707,10 +1277,38 @@ export interface HttpTransportConfig {
  */
 export interface HttpMcpServerConfig extends McpServerConfig {
   readonly http: HttpTransportConfig;
+  readonly streamableHttp?: StreamableHttpTransportConfig;
   readonly enableStdio: boolean;
   readonly primaryTransport: 'stdio' | 'http';
 }
 
+/**
+ * Streamable HTTP transport configuration (MCP spec 2025-03-26)
+ */
+export interface StreamableHttpTransportConfig {
+  readonly enabled: boolean;
+  readonly port: number;
+  readonly host: string;
+  readonly endpoint: string;
+  readonly cors: CorsConfig;
+  readonly rateLimit?: RateLimitConfig;
+  readonly security: HttpSecurityConfig;
+  readonly enableJsonResponse: boolean;
+  readonly maxSessions: number;
+  readonly sessionIdleTimeout: number;
+  readonly resumability: {
+    readonly enabled: boolean;
+    readonly maxEventsPerStream: number;
+  };
+  readonly allowedHosts?: string[];
+  readonly allowedOrigins?: string[];
+  /**
+   * Credentials required on the endpoint; `HttpMcpServer` uses the HTTP
+   * transport's authentication instead when that is enabled
+   */
+  readonly auth?: HttpAuthConfig;
+}
+
 /**
  * CORS configuration
  */
@@ -727,11 +1325,184 @@ export interface CorsConfig {
  */
 export interface HttpAuthConfig {
   readonly enabled: boolean;
-  readonly type: 'apikey' | 'jwt' | 'bearer' | 'basic';
+  readonly type: 'apikey' | 'jwt' | 'bearer' | 'basic' | 'oauth2';
   readonly apiKeys?: string[];
   readonly jwtSecret?: string;
+  /** Access token lifetime for the `jwt` type, e.g. '15m' (default: '15m') */
   readonly jwtExpiration?: string;
+  /** Signing keys for the `jwt` type, newest first; the first key signs new tokens */
+  readonly jwtKeys?: readonly JwtSigningKey[];
+  /** Token endpoints for the `jwt` type */
+  readonly issuance?: TokenIssuanceConfig;
   readonly headerName?: string;
+  /** Token verification for the `bearer` type */
+  readonly bearer?: BearerVerifierConfig;
+  /** Credentials store for the `basic` type, or for token issuance in the `jwt` type */
+  readonly basic?: BasicCredentialsConfig;
+  /** Protected resource settings for the `oauth2` type */
+  readonly oauth2?: OAuth2ResourceConfig;
+  /** Realm announced in `WWW-Authenticate` challenges (default: 'mcp') */
+  readonly realm?: string;
+}
+
+/**
+ * HMAC key signing and verifying JWTs, named in the token's `kid` header
+ */
+export interface JwtSigningKey {
+  readonly kid: string;
+  readonly secret: string;
+}
+
+/**
+ * Exchange of credentials for short-lived JWTs at `/auth/token`
+ */
+export interface TokenIssuanceConfig {
+  /** API keys that may be exchanged for tokens, each mapped to the caller it identifies */
+  readonly apiKeys?: Readonly<Record<string, UserContext>>;
+  /** Refresh token lifetime in seconds (default: 7 days) */
+  readonly refreshTokenTtl?: number;
+}
+
+/**
+ * Token response of the `/auth/token` and `/auth/refresh` endpoints
+ */
+export interface IssuedTokens {
+  readonly access_token: string;
+  readonly token_type: 'Bearer';
+  /** Access token lifetime in seconds */
+  readonly expires_in: number;
+  readonly refresh_token: string;
+}
+
+/**
+ * Tokens issued for a refresh token, with the user whose login they continue
+ */
+export interface RefreshedTokens {
+  readonly tokens: IssuedTokens;
+  readonly user: UserContext;
+}
+
+/**
+ * Verifies bearer tokens and resolves the caller they identify
+ */
+export interface TokenVerifier {
+  /**
+   * @param token - Bearer token from the `Authorization` header
+   * @returns The caller identified by the token
+   * @throws {AuthenticationError} When the token is not valid
+   */
+  verify(token: string): Promise<UserContext>;
+}
+
+/**
+ * Bearer token verification strategies
+ */
+export type BearerVerifierConfig =
+  | StaticTokenVerifierConfig
+  | JwksTokenVerifierConfig
+  | IntrospectionTokenVerifierConfig;
+
+/**
+ * Fixed tokens, each mapped to a caller
+ */
+export interface StaticTokenVerifierConfig {
+  readonly type: 'static';
+  readonly tokens: Readonly<Record<string, UserContext>>;
+}
+
+/**
+ * JWTs signed with a key from a JSON Web Key Set
+ */
+export interface JwksTokenVerifierConfig {
+  readonly type: 'jwt';
+  /** Path of a JWKS file holding the public signing keys */
+  readonly jwksFile?: string;
+  /** URL the JWKS is fetched from, when no file is given */
+  readonly jwksUri?: string;
+  /** Keys held in memory, when neither a file nor a URL is given */
+  readonly jwks?: JsonWebKeySet;
+  /** Required `iss` claim */
+  readonly issuer?: string;
+  /** Required `aud` claim */
+  readonly audience?: string | string[];
+  /** Claim holding the caller's roles (default: 'roles') */
+  readonly rolesClaim?: string;
+}
+
+/**
+ * JSON Web Key Set (RFC 7517)
+ */
+export interface JsonWebKeySet {
+  readonly keys: ReadonlyArray<Record<string, unknown>>;
+}
+
+/**
+ * Tokens resolved by a callback, typically an RFC 7662 introspection request
+ */
+export interface IntrospectionTokenVerifierConfig {
+  readonly type: 'introspection';
+  /** Resolve the claims of a token; tokens without `active: true` are rejected */
+  introspect(token: string): Promise<Record<string, unknown>>;
+  /** Claim holding the caller's roles (default: 'roles') */
+  readonly rolesClaim?: string;
+}
+
+/**
+ * OAuth 2.1 protected resource settings (MCP authorization)
+ *
+ * Access tokens are JWTs from `issuer` whose audience is `resource`.
+ */
+export interface OAuth2ResourceConfig {
+  /** Canonical URI of this MCP server, e.g. `https://mcp.example.com/mcp` */
+  readonly resource: string;
+  /** Issuer of accepted access tokens; listed as the authorization server */
+  readonly issuer: string;
+  /** JWKS file with the issuer's signing keys, for offline use */
+  readonly jwksFile?: string;
+  /** JWKS endpoint of the issuer, used when no file is given */
+  readonly jwksUri?: string;
+  /** Scopes advertised in the protected resource metadata */
+  readonly scopesSupported?: string[];
+  /** Scopes an access token needs to call a tool, keyed by tool name */
+  readonly toolScopes?: Readonly<Record<string, readonly string[]>>;
+  /** Human-readable name advertised in the protected resource metadata */
+  readonly resourceName?: string;
+  /** Serve a development authorization server in-process at `issuer`; never use in production */
+  readonly devAuthorizationServer?: DevAuthorizationServerConfig;
+}
+
+/**
+ * In-process authorization server for development
+ *
+ * Clients register dynamically and every authorization request is approved
+ * for the configured user without a login.
+ */
+export interface DevAuthorizationServerConfig {
+  /** Subject of issued tokens (default: 'dev-user') */
+  readonly subject?: string;
+  /** Roles claim of issued tokens */
+  readonly roles?: string[];
+  /** Access token lifetime in seconds (default: 3600) */
+  readonly accessTokenTtl?: number;
+}
+
+/**
+ * Users accepted by HTTP Basic authentication
+ */
+export interface BasicCredentialsConfig {
+  /** Credentials keyed by username */
+  readonly users: Readonly<Record<string, StoredCredential>>;
+}
+
+/**
+ * A user's password hash and identity
+ */
+export interface StoredCredential {
+  /** Hash produced by `hashPassword`; plain-text passwords are not accepted */
+  readonly passwordHash: string;
+  readonly name?: string;
+  readonly roles?: string[];
+  readonly permissions?: string[];
 }
 
 /**
@@ -755,6 +1526,28 @@ export interface HttpSecurityConfig {
   readonly timeout: number;
 }
 
+/**
+ * JSON-RPC batch configuration for the HTTP `/rpc` endpoint
+ */
+export interface HttpBatchConfig {
+  readonly enabled: boolean;
+  readonly maxBatchSize: number;
+  readonly maxConcurrency: number;
+}
+
+/**
+ * Prometheus metrics endpoint configuration
+ */
+export interface HttpMetricsConfig {
+  readonly enabled: boolean;
+  /** Path of the scrape endpoint (default: '/metrics') */
+  readonly path: string;
+  /** Serve metrics on this port instead of the API port, without authentication */
+  readonly port?: number;
+  /** Interface of the separate metrics port (default: the API host) */
+  readonly host?: string;
+}
+
 /**
  * Swagger/OpenAPI configuration
  */
@@ -833,6 +1626,152 @@ export interface SpanContext {
   readonly spanId: string;
   readonly parentSpanId?: string;
   readonly baggage?: Record<string, string>;
+  /** W3C trace flags; bit 0 marks the trace as sampled */
+  readonly traceFlags?: number;
+  /** W3C `tracestate` header value, passed through unchanged */
+  readonly traceState?: string;
+}
+
+/**
+ * Role of a span in a trace
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+/**
+ * Value of a span attribute
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Completed span, as handed to a span exporter
+ */
+export interface SpanData {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly context: SpanContext;
+  /** Start and end times in milliseconds since the epoch, with sub-millisecond precision */
+  readonly startTime: number;
+  readonly endTime: number;
+  readonly attributes: Readonly<Record<string, SpanAttributeValue>>;
+  readonly events: readonly {
+    readonly name: string;
+    readonly time: number;
+    readonly attributes?: Readonly<Record<string, SpanAttributeValue>>;
+  }[];
+  readonly status: { readonly code: 'unset' | 'ok' | 'error'; readonly message?: string };
+}
+
+/**
+ * Destination of sampled spans
+ */
+export interface SpanExporter {
+  /** Queue a completed span; must not block the caller */
+  export(span: SpanData): void;
+  /** Send every queued span */
+  flush(): Promise<void>;
+  /** Send queued spans and stop exporting */
+  shutdown(): Promise<void>;
+}
+
+// =============================================================================
+// Audit Types
+// =============================================================================
+
+/**
+ * Audit log configuration
+ */
+export interface AuditConfig {
+  readonly enabled: boolean;
+  /** Directory holding the active log file and its rotated archives */
+  readonly directory: string;
+  /** Name of the active log file (default: 'audit.jsonl') */
+  readonly fileName: string;
+  /** Rotate the active file before it grows beyond this many bytes */
+  readonly maxFileSize: number;
+  /** Rotated archives to keep; 0 keeps every archive */
+  readonly maxFiles: number;
+}
+
+/**
+ * Kind of audited event
+ */
+export type AuditEventType =
+  | 'tool.invocation'
+  | 'auth.success'
+  | 'auth.failure'
+  | 'config.change'
+  | 'admin.action';
+
+/**
+ * Outcome of an audited event; 'denied' marks calls rejected by authorization
+ */
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+/**
+ * Event to record in the audit log
+ */
+export interface AuditEvent {
+  readonly type: AuditEventType;
+  /** Id of the acting user; 'anonymous' for unauthenticated callers, 'system' for the server */
+  readonly actor: string;
+  /** What was attempted, e.g. 'tools/call' or 'tool.register' */
+  readonly action: string;
+  readonly tool?: string;
+  /** SHA-256 of the tool arguments; the arguments themselves are never stored */
+  readonly argumentHash?: string;
+  readonly outcome: AuditOutcome;
+  /** Duration in milliseconds */
+  readonly duration?: number;
+  readonly transport?: string;
+  readonly requestId?: string;
+  readonly details?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Event as stored in the audit log, chained to the record before it
+ */
+export interface AuditRecord extends AuditEvent {
+  /** Position in the log, starting at 0 and continuing across rotated files */
+  readonly sequence: number;
+  readonly timestamp: string;
+  /** Hash of the previous record; 64 zeros for the first record */
+  readonly previousHash: string;
+  /** SHA-256 of the previous hash and this record's fields */
+  readonly hash: string;
+}
+
+/**
+ * Filter for audit log queries; every given field must match
+ */
+export interface AuditQuery {
+  /** Earliest timestamp, inclusive */
+  readonly from?: Date;
+  /** Latest timestamp, inclusive */
+  readonly to?: Date;
+  readonly actor?: string;
+  readonly tool?: string;
+  readonly type?: AuditEventType;
+  /** Maximum records returned, oldest first (default: 100) */
+  readonly limit?: number;
+}
+
+/**
+ * Result of checking the audit log's hash chain
+ */
+export interface AuditVerificationResult {
+  readonly valid: boolean;
+  /** Records checked before the first failure */
+  readonly records: number;
+  /** Hash of the last intact record; keep it elsewhere to detect truncation later */
+  readonly lastHash: string;
+  /** First record that breaks the chain */
+  readonly failure?: {
+    readonly file: string;
+    /** 1-based line number within the file */
+    readonly line: number;
+    readonly sequence?: number;
+    readonly reason: string;
+  };
 }
 
 // =============================================================================
@@ -853,6 +1792,44 @@ export function isMcpTool(value: unknown): value is McpTool {
   );
 }
 
+/**
+ * Type guard to check if value is McpResource
+ */
+export function isMcpResource(value: unknown): value is McpResource {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as McpResource).uri === 'string' &&
+    typeof (value as McpResource).name === 'string' &&
+    typeof (value as McpResource).read === 'function'
+  );
+}
+
+/**
+ * Type guard to check if value is McpResourceTemplate
+ */
+export function isMcpResourceTemplate(value: unknown): value is McpResourceTemplate {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as McpResourceTemplate).uriTemplate === 'string' &&
+    typeof (value as McpResourceTemplate).name === 'string' &&
+    typeof (value as McpResourceTemplate).read === 'function'
+  );
+}
+
+/**
+ * Type guard to check if value is McpPrompt
+ */
+export function isMcpPrompt(value: unknown): value is McpPrompt {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as McpPrompt).name === 'string' &&
+    typeof (value as McpPrompt).render === 'function'
+  );
+}
+
 /**
  * Type guard to check if value is ToolResult
  */
@@ -916,6 +1893,7 @@ export const DEFAULT_TIMEOUTS = {
   EXTERNAL_API: 15000,
   SERVER_STARTUP: 5000,
   SERVER_SHUTDOWN: 3000,
+  QUEUE_WAIT: 10000,
 } as const;
 
 /**
@@ -923,6 +1901,7 @@ export const DEFAULT_TIMEOUTS = {
  */
 export const DEFAULT_LIMITS = {
   MAX_CONCURRENT_REQUESTS: 100,
+  MAX_QUEUE_SIZE: 1000,
   MAX_REQUEST_SIZE: '10mb',
   MAX_RESPONSE_SIZE: '50mb',
   RATE_LIMIT_WINDOW: 60000, // 1 minute
@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Tamper-Evident Audit Log
+ *
+ * This module records tool invocations, authentication results, configuration
+ * changes and administrative actions as typed events in an append-only JSONL
+ * file. Every record carries the hash of the record before it, so editing,
+ * reordering or removing a record breaks the chain and is reported by
+ * {@link AuditLog.verify}.
+ *
+ * The active file is rotated into archives named after their first sequence
+ * number, and the chain continues across files. Removing records from the end
+ * of the log leaves an intact chain; keep the hash reported by `verify()`
+ * elsewhere to detect that.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { Logger } from 'winston';
+
+import {
+  AuditConfig,
+  AuditEvent,
+  AuditLogError,
+  AuditQuery,
+  AuditRecord,
+  AuditVerificationResult,
+} from '../types/index.js';
+import { canonicalJson } from './cache.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Previous hash of the first record in a log
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Actor of events caused by unauthenticated callers
+ */
+export const AUDIT_ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * Actor of events caused by the server itself, such as startup configuration
+ */
+export const AUDIT_SYSTEM_ACTOR = 'system';
+
+/**
+ * Records returned by a query without a limit
+ */
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Digits of the sequence number in archive file names, so names sort in log order
+ */
+const ARCHIVE_SEQUENCE_DIGITS = 12;
+
+/**
+ * Position of the newest record, as needed to append the next one
+ */
+interface AuditTail {
+  /** Sequence of the last record; -1 for an empty log */
+  sequence: number;
+  hash: string;
+  /** Sequence of the first record in the active file, once it has one */
+  firstSequence?: number;
+  /** Size of the active file in bytes */
+  size: number;
+}
+
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+/**
+ * Append-only, hash-chained audit log
+ *
+ * Appends, queries and verification run one at a time in call order, so
+ * records are never interleaved and reads see every record written before them.
+ *
+ * @example
+ * ```typescript
+ * const audit = new AuditLog({ enabled: true, directory: './audit', ...limits });
+ *
+ * await audit.record({
+ *   type: 'tool.invocation',
+ *   actor: user.id,
+ *   action: 'tools/call',
+ *   tool: 'restore_backup',
+ *   argumentHash: hashAuditArguments(args),
+ *   outcome: 'success',
+ *   duration: 120,
+ * });
+ *
+ * const { valid, failure } = await audit.verify();
+ * ```
+ */
+export class AuditLog {
+  private readonly _config: AuditConfig;
+  private readonly _logger?: Logger;
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _tail?: AuditTail;
+
+  /**
+   * Create an audit log; the directory is created on the first write
+   *
+   * @param config - Location and rotation limits
+   * @param logger - Logger for rotation and recovery messages
+   */
+  constructor(config: AuditConfig, logger?: Logger) {
+    this._config = config;
+    this._logger = logger;
+  }
+
+  /**
+   * Path of the active log file
+   */
+  get path(): string {
+    return join(this._config.directory, this._config.fileName);
+  }
+
+  /**
+   * Append an event to the log
+   *
+   * @param event - Event to record
+   * @returns Stored record with its sequence number and hash
+   * @throws {AuditLogError} When the log cannot be read or written
+   */
+  record(event: AuditEvent): Promise<AuditRecord> {
+    return this._enqueue(() => this._append(event));
+  }
+
+  /**
+   * Find records matching a filter
+   *
+   * Lines that cannot be parsed are skipped; {@link verify} reports them.
+   *
+   * @param query - Time range, actor, tool and event type to match
+   * @returns Matching records, oldest first
+   * @throws {AuditLogError} When the log cannot be read
+   */
+  query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    return this._enqueue(async () => {
+      const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+      const from = query.from?.getTime() ?? -Infinity;
+      const to = query.to?.getTime() ?? Infinity;
+      const matches: AuditRecord[] = [];
+
+      for (const file of await this._listFiles()) {
+        for (const line of await this._readLines(file)) {
+          const record = parseRecord(line);
+          if (!record) {
+            continue;
+          }
+
+          const time = Date.parse(record.timestamp);
+          if (
+            time >= from &&
+            time <= to &&
+            (query.actor === undefined || record.actor === query.actor) &&
+            (query.tool === undefined || record.tool === query.tool) &&
+            (query.type === undefined || record.type === query.type)
+          ) {
+            matches.push(record);
+            if (matches.length >= limit) {
+              return matches;
+            }
+          }
+        }
+      }
+
+      return matches;
+    });
+  }
+
+  /**
+   * Check the hash chain of every retained record
+   *
+   * Each record must hash to its stored hash, name the previous record's hash
+   * and follow its sequence number. The log must start at sequence 0 unless
+   * archives are pruned, and must end at the last record this instance wrote.
+   *
+   * @returns Whether the chain is intact, and the first record breaking it
+   * @throws {AuditLogError} When the log cannot be read
+   */
+  verify(): Promise<AuditVerificationResult> {
+    return this._enqueue(async () => {
+      let previous: { sequence: number; hash: string } | undefined;
+      let records = 0;
+      let activeLines = 0;
+      const fail = (
+        file: string,
+        line: number,
+        reason: string,
+        sequence?: number
+      ): AuditVerificationResult => ({
+        valid: false,
+        records,
+        lastHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+        failure: { file, line, reason, ...(sequence !== undefined && { sequence }) },
+      });
+
+      for (const file of await this._listFiles()) {
+        const lines = await this._readLines(file);
+        activeLines = lines.length;
+        for (const [index, line] of lines.entries()) {
+          const record = parseRecord(line);
+          if (!record) {
+            return fail(file, index + 1, 'Record is not valid JSON');
+          }
+          if (hashRecord(record) !== record.hash) {
+            return fail(file, index + 1, 'Record does not match its hash', record.sequence);
+          }
+
+          if (previous) {
+            if (record.sequence !== previous.sequence + 1) {
+              return fail(
+                file,
+                index + 1,
+                `Expected sequence ${previous.sequence + 1}`,
+                record.sequence
+              );
+            }
+            if (record.previousHash !== previous.hash) {
+              return fail(file, index + 1, 'Previous hash does not match', record.sequence);
+            }
+          } else if (
+            this._config.maxFiles === 0 &&
+            (record.sequence !== 0 || record.previousHash !== AUDIT_GENESIS_HASH)
+          ) {
+            // Only pruning may remove the start of the log
+            return fail(file, index + 1, 'Log does not start at the first record', record.sequence);
+          }
+
+          previous = { sequence: record.sequence, hash: record.hash };
+          records++;
+        }
+      }
+
+      if (this._tail && this._tail.sequence >= 0 && this._tail.hash !== previous?.hash) {
+        return fail(this.path, activeLines + 1, `Log ends before record ${this._tail.sequence}`);
+      }
+
+      return { valid: true, records, lastHash: previous?.hash ?? AUDIT_GENESIS_HASH };
+    });
+  }
+
+  /**
+   * Wait for every pending append
+   */
+  async flush(): Promise<void> {
+    await this._enqueue(async () => {});
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  /**
+   * Run a task after every task queued before it
+   */
+  private _enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(task);
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Chain an event to the newest record and append it, rotating first when
+   * the active file would outgrow its limit
+   */
+  private async _append(event: AuditEvent): Promise<AuditRecord> {
+    try {
+      const tail = this._tail ?? (await this._recoverTail());
+      this._tail = tail;
+
+      const fields = {
+        ...event,
+        sequence: tail.sequence + 1,
+        timestamp: new Date().toISOString(),
+        previousHash: tail.hash,
+      };
+      const record: AuditRecord = { ...fields, hash: hashRecord(fields) };
+      const line = `${JSON.stringify(record)}\n`;
+      const size = Buffer.byteLength(line);
+
+      if (tail.size > 0 && tail.size + size > this._config.maxFileSize) {
+        await this._rotate(tail);
+      }
+
+      await fs.appendFile(this.path, line, { encoding: 'utf8', mode: 0o600 });
+      tail.sequence = record.sequence;
+      tail.hash = record.hash;
+      tail.firstSequence ??= record.sequence;
+      tail.size += size;
+
+      return record;
+    } catch (error) {
+      if (error instanceof AuditLogError) {
+        throw error;
+      }
+      throw new AuditLogError(
+        `Failed to write audit log: ${error instanceof Error ? error.message : String(error)}`,
+        { path: this.path }
+      );
+    }
+  }
+
+  /**
+   * Find the newest record in the active file, or in the newest archive when
+   * the active file is empty
+   *
+   * @throws {AuditLogError} When the newest record cannot be parsed
+   */
+  private async _recoverTail(): Promise<AuditTail> {
+    await fs.mkdir(this._config.directory, { recursive: true });
+
+    const active = await this._readLines(this.path);
+    const size = active.length > 0 ? (await fs.stat(this.path)).size : 0;
+    const archives = await this._listArchives();
+    const lines = active.length > 0 ? active : await this._readLines(archives.at(-1));
+
+    const last = lines.at(-1);
+    if (last === undefined) {
+      return { sequence: -1, hash: AUDIT_GENESIS_HASH, size };
+    }
+
+    const record = parseRecord(last);
+    if (!record) {
+      throw new AuditLogError('The last audit record cannot be parsed; verify the log', {
+        path: this.path,
+      });
+    }
+
+    this._logger?.debug('Audit log opened', { path: this.path, sequence: record.sequence });
+    return {
+      sequence: record.sequence,
+      hash: record.hash,
+      firstSequence: active.length > 0 ? parseRecord(active[0]!)?.sequence : undefined,
+      size,
+    };
+  }
+
+  /**
+   * Move the active file to an archive and prune the oldest archives
+   */
+  private async _rotate(tail: AuditTail): Promise<void> {
+    const first = String(tail.firstSequence ?? 0).padStart(ARCHIVE_SEQUENCE_DIGITS, '0');
+    const archive = join(this._config.directory, `${this._baseName}.${first}.jsonl`);
+    await fs.rename(this.path, archive);
+    tail.firstSequence = undefined;
+    tail.size = 0;
+    this._logger?.info('Audit log rotated', { archive });
+
+    if (this._config.maxFiles > 0) {
+      const archives = await this._listArchives();
+      for (const expired of archives.slice(0, -this._config.maxFiles)) {
+        await fs.unlink(expired);
+        this._logger?.info('Audit log archive removed', { archive: expired });
+      }
+    }
+  }
+
+  /**
+   * Active file name without its extension, shared by its archives
+   */
+  private get _baseName(): string {
+    return this._config.fileName.replace(/\.jsonl$/, '');
+  }
+
+  /**
+   * Archive paths, oldest first
+   */
+  private async _listArchives(): Promise<string[]> {
+    const pattern = new RegExp(
+      `^${escapeRegExp(this._baseName)}\\.\\d{${ARCHIVE_SEQUENCE_DIGITS}}\\.jsonl$`
+    );
+
+    let names: string[];
+    try {
+      names = await fs.readdir(this._config.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names
+      .filter(name => pattern.test(name))
+      .sort()
+      .map(name => join(this._config.directory, name));
+  }
+
+  /**
+   * Archives followed by the active file, in log order
+   */
+  private async _listFiles(): Promise<string[]> {
+    return [...(await this._listArchives()), this.path];
+  }
+
+  /**
+   * Non-empty lines of a file; a missing file has none
+   */
+  private async _readLines(path?: string): Promise<string[]> {
+    if (!path) {
+      return [];
+    }
+
+    try {
+      const content = await fs.readFile(path, 'utf8');
+      return content.split('\n').filter(line => line.length > 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new AuditLogError(
+        `Failed to read audit log: ${error instanceof Error ? error.message : String(error)}`,
+        { path }
+      );
+    }
+  }
+}
+
+/**
+ * Hash tool arguments for an audit event
+ *
+ * Equal arguments hash equally regardless of property order, so calls can be
+ * matched without storing arguments that may contain sensitive data.
+ *
+ * @param args - Tool arguments
+ * @returns Hex-encoded SHA-256 of the arguments' canonical JSON
+ */
+export function hashAuditArguments(args: unknown): string {
+  return createHash('sha256')
+    .update(canonicalJson(args ?? {}))
+    .digest('hex');
+}
+
+/**
+ * Create the audit log for a server's audit settings
+ *
+ * @param config - Audit settings
+ * @param logger - Logger for rotation and recovery messages
+ * @returns Audit log, or undefined when auditing is disabled
+ */
+export function createAuditLog(config?: AuditConfig, logger?: Logger): AuditLog | undefined {
+  return config?.enabled ? new AuditLog(config, logger) : undefined;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Hash a record's fields other than its own hash
+ */
+function hashRecord(record: Omit<AuditRecord, 'hash'> & { hash?: string }): string {
+  const { hash: _hash, ...fields } = record;
+  return createHash('sha256').update(canonicalJson(fields)).digest('hex');
+}
+
+/**
+ * Parse a log line, or return undefined when it is not a record
+ */
+function parseRecord(line: string): AuditRecord | undefined {
+  try {
+    const record = JSON.parse(line) as AuditRecord;
+    return typeof record === 'object' &&
+      record !== null &&
+      typeof record.sequence === 'number' &&
+      typeof record.hash === 'string' &&
+      typeof record.timestamp === 'string'
+      ? record
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
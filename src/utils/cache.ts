@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Tool Result Caching
+ *
+ * This module provides a size-bounded LRU cache with per-entry expiry and a
+ * tool result cache built on it. Tools opt in with `cache: true` (or cache
+ * options); their successful results are reused for identical parameters
+ * until the TTL expires or the entries are invalidated.
+ *
+ * Features:
+ * - LRU eviction bounded by `performance.caching.maxSize`
+ * - Expiry after `performance.caching.ttl`, overridable per tool
+ * - Canonical JSON keys, or a tool-provided key function
+ * - Separate entries per authenticated caller
+ * - `cacheHit` reported in result metadata
+ * - Invalidation by tool or key prefix
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import {
+  McpTool,
+  PerformanceConfig,
+  ToolCacheOptions,
+  ToolResult,
+  UserContext,
+} from '../types/index.js';
+
+/**
+ * Cache scope of calls made without an authenticated user
+ */
+const ANONYMOUS_CACHE_SCOPE = 'anonymous';
+
+/**
+ * Options for an LRU cache
+ */
+export interface LruCacheOptions {
+  /** Maximum number of entries before the least recently used is evicted */
+  readonly maxSize: number;
+  /** Default time to live in milliseconds */
+  readonly ttl: number;
+}
+
+/**
+ * Cached value with its expiry time
+ */
+interface CacheEntry<V> {
+  readonly value: V;
+  readonly expiresAt: number;
+}
+
+/**
+ * Size-bounded least-recently-used cache with per-entry expiry
+ *
+ * Relies on `Map` insertion order: reads re-insert the entry, so the first
+ * key is always the least recently used.
+ *
+ * @example
+ * ```typescript
+ * const cache = new LruCache<string>({ maxSize: 100, ttl: 60000 });
+ * cache.set('greeting', 'hello');
+ * cache.get('greeting'); // 'hello'
+ * ```
+ */
+export class LruCache<V> {
+  private readonly _entries: Map<string, CacheEntry<V>> = new Map();
+  private readonly _maxSize: number;
+  private readonly _ttl: number;
+
+  constructor(options: LruCacheOptions) {
+    this._maxSize = options.maxSize;
+    this._ttl = options.ttl;
+  }
+
+  /**
+   * Number of stored entries, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Get a value, marking it as recently used
+   *
+   * @param key - Cache key
+   * @returns The value, or undefined when missing or expired
+   */
+  get(key: string): V | undefined {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this._entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   *
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttl - Time to live in milliseconds (default: cache TTL)
+   */
+  set(key: string, value: V, ttl: number = this._ttl): void {
+    this._entries.delete(key);
+    this._entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this._entries.size > this._maxSize) {
+      const oldest = this._entries.keys().next().value as string;
+      this._entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove a single entry
+   *
+   * @returns True if an entry was removed
+   */
+  delete(key: string): boolean {
+    return this._entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key starts with a prefix
+   *
+   * @param prefix - Key prefix
+   * @returns Number of entries removed
+   */
+  deleteByPrefix(prefix: string): number {
+    let removed = 0;
+    for (const key of Array.from(this._entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this._entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+/**
+ * Cache of successful tool results keyed by tool name and parameters
+ *
+ * Keys have the form `<tool>:<key>\0<scope>`, where `<key>` comes from the
+ * tool's `cache.key` function or the canonical JSON of its parameters, and
+ * `<scope>` is `user:<id>` or `anonymous`, so results never cross users.
+ * Failed results are never cached.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ToolResultCache({ maxSize: 1000, ttl: 300000 });
+ * const result = await cache.execute(tool, params, () => tool.execute(params), user);
+ * result.metadata?.cacheHit; // true on repeated calls
+ *
+ * cache.invalidate('news-search');
+ * ```
+ */
+export class ToolResultCache {
+  private readonly _cache: LruCache<ToolResult>;
+
+  constructor(options: LruCacheOptions) {
+    this._cache = new LruCache(options);
+  }
+
+  /**
+   * Number of cached results
+   */
+  get size(): number {
+    return this._cache.size;
+  }
+
+  /**
+   * Return a cached result or run the tool and cache a successful result
+   *
+   * Tools that do not opt into caching always run.
+   *
+   * @param tool - Tool being executed
+   * @param params - Validated tool parameters
+   * @param run - Executes the tool on a cache miss
+   * @param user - Authenticated caller; results are cached per caller
+   * @returns Result with `metadata.cacheHit` set for cacheable tools
+   */
+  async execute(
+    tool: McpTool,
+    params: unknown,
+    run: () => Promise<ToolResult>,
+    user?: UserContext
+  ): Promise<ToolResult> {
+    const options = resolveCacheOptions(tool);
+    if (!options) {
+      return run();
+    }
+
+    // The scope follows the key so that invalidation by key prefix spans every caller
+    const scope = user ? `user:${user.id}` : ANONYMOUS_CACHE_SCOPE;
+    const paramsKey = options.key ? options.key(params) : canonicalJson(params);
+    const key = `${toolKeyPrefix(tool.name)}${paramsKey}\0${scope}`;
+
+    const cached = this._cache.get(key);
+    if (cached) {
+      return withCacheHit(cached, true, 0);
+    }
+
+    const startTime = Date.now();
+    const result = await run();
+    if (result.success) {
+      this._cache.set(key, result, options.ttl);
+    }
+
+    return withCacheHit(result, false, Date.now() - startTime);
+  }
+
+  /**
+   * Drop cached results for a tool
+   *
+   * @param toolName - Tool whose results are dropped
+   * @param keyPrefix - Only drop keys starting with this prefix
+   * @returns Number of results removed
+   */
+  invalidate(toolName: string, keyPrefix = ''): number {
+    return this._cache.deleteByPrefix(`${toolKeyPrefix(toolName)}${keyPrefix}`);
+  }
+
+  /**
+   * Drop all cached results
+   */
+  clear(): void {
+    this._cache.clear();
+  }
+}
+
+/**
+ * Start of the cache keys of a tool's results
+ *
+ * Names end in a NUL, which tool names do not use, so invalidating one tool
+ * never reaches tools whose names extend it, such as `files` and `files:search`.
+ *
+ * @param toolName - Tool name
+ * @returns Key prefix
+ */
+function toolKeyPrefix(toolName: string): string {
+  return `${toolName}\0`;
+}
+
+/**
+ * Create a tool result cache from a server's performance configuration
+ *
+ * @param performance - Server performance configuration
+ * @returns Cache, or undefined when caching is disabled
+ */
+export function createToolResultCache(performance: PerformanceConfig): ToolResultCache | undefined {
+  if (!performance.caching.enabled) {
+    return undefined;
+  }
+
+  return new ToolResultCache({
+    maxSize: performance.caching.maxSize,
+    ttl: performance.caching.ttl,
+  });
+}
+
+/**
+ * Normalize a tool's `cache` declaration
+ */
+function resolveCacheOptions(tool: McpTool): ToolCacheOptions | undefined {
+  if (!tool.cache) {
+    return undefined;
+  }
+
+  return tool.cache === true ? {} : tool.cache;
+}
+
+/**
+ * Copy a result with `cacheHit` recorded in its metadata
+ */
+function withCacheHit(result: ToolResult, cacheHit: boolean, executionTime: number): ToolResult {
+  return {
+    ...result,
+    metadata: {
+      executionTime,
+      ...result.metadata,
+      timestamp: new Date().toISOString(),
+      cacheHit,
+    },
+  };
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so that equal
+ * parameters produce equal keys regardless of property order
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(
+        Object.entries(nested as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+
+    return nested;
+  });
+}
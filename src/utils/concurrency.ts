@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Admission Control for Tool Executions
+ *
+ * This module bounds how many tool calls run at once. Calls that cannot start
+ * immediately wait in a bounded priority queue until a slot frees up, their
+ * queue timeout expires, or the caller cancels them.
+ *
+ * Features:
+ * - Global concurrency limit (`performance.maxConcurrentRequests`)
+ * - Optional per-tool and per-category limits
+ * - Priority ordering with FIFO among equal priorities
+ * - Queue size limit and queue timeout
+ * - Queue depth, wait time and rejection metrics
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  ConcurrencyConfig,
+  DEFAULT_LIMITS,
+  DEFAULT_TIMEOUTS,
+  McpTool,
+  PerformanceConfig,
+  ToolCancelledError,
+  ToolQueueError,
+} from '../types/index.js';
+import { MetricsCollector } from './metrics.js';
+
+/**
+ * JSON-RPC error code for calls rejected by admission control
+ */
+export const SERVER_BUSY = -32003;
+
+/**
+ * Options for a concurrency limiter
+ */
+export interface ConcurrencyLimiterOptions extends Partial<ConcurrencyConfig> {
+  /** Maximum number of calls executing at once across all tools */
+  readonly maxConcurrent: number;
+  /** Collector receiving queue depth, wait time and rejection metrics */
+  readonly metrics?: MetricsCollector;
+}
+
+/**
+ * Call waiting for an execution slot
+ */
+interface QueueEntry {
+  readonly tool: McpTool;
+  readonly priority: number;
+  readonly enqueuedAt: number;
+  readonly admit: () => void;
+  readonly cancel: (error: Error) => void;
+}
+
+/**
+ * Bounded priority queue in front of tool execution
+ *
+ * A call starts immediately when the global, per-tool and per-category limits
+ * all have room. Otherwise it is queued; whenever a call finishes, the queue
+ * is scanned in priority order and every call that now fits is started, so a
+ * tool at its own limit does not block calls to other tools.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new ConcurrencyLimiter({
+ *   maxConcurrent: 50,
+ *   perCategory: { database: 10 },
+ * });
+ *
+ * const result = await limiter.run(tool, () => tool.execute(params), signal);
+ * ```
+ */
+export class ConcurrencyLimiter {
+  private readonly _maxConcurrent: number;
+  private readonly _maxQueueSize: number;
+  private readonly _queueTimeout: number;
+  private readonly _perTool: Readonly<Record<string, number>>;
+  private readonly _perCategory: Readonly<Record<string, number>>;
+  private readonly _metrics?: MetricsCollector;
+
+  private readonly _activeByTool: Map<string, number> = new Map();
+  private readonly _activeByCategory: Map<string, number> = new Map();
+  private _queue: QueueEntry[] = [];
+  private _active = 0;
+
+  constructor(options: ConcurrencyLimiterOptions) {
+    this._maxConcurrent = options.maxConcurrent;
+    this._maxQueueSize = options.maxQueueSize ?? DEFAULT_LIMITS.MAX_QUEUE_SIZE;
+    this._queueTimeout = options.queueTimeout ?? DEFAULT_TIMEOUTS.QUEUE_WAIT;
+    this._perTool = options.perTool ?? {};
+    this._perCategory = options.perCategory ?? {};
+    this._metrics = options.metrics;
+  }
+
+  /**
+   * Number of calls currently executing
+   */
+  get activeCount(): number {
+    return this._active;
+  }
+
+  /**
+   * Number of calls waiting for a slot
+   */
+  get queueDepth(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Run a task for a tool once an execution slot is available
+   *
+   * @param tool - Tool the task executes
+   * @param task - Work to run while holding the slot
+   * @param signal - Caller's signal; aborting it removes a queued call
+   * @returns The task's result
+   * @throws {ToolQueueError} When the queue is full or the queue timeout expires
+   * @throws {ToolCancelledError} When the caller aborts while queued
+   */
+  async run<T>(tool: McpTool, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this._acquire(tool, signal);
+
+    try {
+      return await task();
+    } finally {
+      this._release(tool);
+    }
+  }
+
+  /**
+   * Wait until the tool may start, taking its slot
+   */
+  private _acquire(tool: McpTool, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ToolCancelledError(tool.name));
+    }
+
+    if (this._canStart(tool)) {
+      this._start(tool);
+      return Promise.resolve();
+    }
+
+    if (this._queue.length >= this._maxQueueSize) {
+      this._metrics?.recordQueueRejection(tool.name, 'queue_full');
+      return Promise.reject(
+        new ToolQueueError(
+          tool.name,
+          'queue_full',
+          `Tool '${tool.name}' rejected: ${this._queue.length} calls are already queued`
+        )
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => entry.cancel(new ToolCancelledError(tool.name));
+      const timer = setTimeout(() => {
+        this._metrics?.recordQueueRejection(tool.name, 'queue_timeout');
+        entry.cancel(
+          new ToolQueueError(
+            tool.name,
+            'queue_timeout',
+            `Tool '${tool.name}' waited more than ${this._queueTimeout}ms for an execution slot`
+          )
+        );
+      }, this._queueTimeout);
+
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const entry: QueueEntry = {
+        tool,
+        priority: tool.priority ?? 0,
+        enqueuedAt: Date.now(),
+        admit: () => {
+          cleanup();
+          resolve();
+        },
+        cancel: error => {
+          cleanup();
+          this._queue = this._queue.filter(queued => queued !== entry);
+          this._recordDepth();
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this._enqueue(entry);
+    });
+  }
+
+  /**
+   * Give back a tool's slot and start whatever queued calls now fit
+   */
+  private _release(tool: McpTool): void {
+    this._active--;
+    decrement(this._activeByTool, tool.name);
+    decrement(this._activeByCategory, tool.category);
+
+    for (const entry of [...this._queue]) {
+      if (this._active >= this._maxConcurrent) {
+        break;
+      }
+
+      if (this._canStart(entry.tool)) {
+        this._queue = this._queue.filter(queued => queued !== entry);
+        this._metrics?.recordQueueWait(entry.tool.name, Date.now() - entry.enqueuedAt);
+        this._start(entry.tool);
+        entry.admit();
+      }
+    }
+
+    this._recordDepth();
+  }
+
+  /**
+   * Insert behind every queued call of equal or higher priority
+   */
+  private _enqueue(entry: QueueEntry): void {
+    const index = this._queue.findIndex(queued => queued.priority < entry.priority);
+    if (index === -1) {
+      this._queue.push(entry);
+    } else {
+      this._queue.splice(index, 0, entry);
+    }
+
+    this._recordDepth();
+  }
+
+  /**
+   * Check the global, per-tool and per-category limits
+   */
+  private _canStart(tool: McpTool): boolean {
+    if (this._active >= this._maxConcurrent) {
+      return false;
+    }
+
+    const toolLimit = this._perTool[tool.name] ?? tool.maxConcurrency;
+    if (toolLimit !== undefined && (this._activeByTool.get(tool.name) ?? 0) >= toolLimit) {
+      return false;
+    }
+
+    const categoryLimit = this._perCategory[tool.category];
+    if (
+      categoryLimit !== undefined &&
+      (this._activeByCategory.get(tool.category) ?? 0) >= categoryLimit
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Take a slot for a tool
+   */
+  private _start(tool: McpTool): void {
+    this._active++;
+    this._activeByTool.set(tool.name, (this._activeByTool.get(tool.name) ?? 0) + 1);
+    this._activeByCategory.set(tool.category, (this._activeByCategory.get(tool.category) ?? 0) + 1);
+    this._recordDepth();
+  }
+
+  private _recordDepth(): void {
+    this._metrics?.recordQueueDepth(this._queue.length, this._active);
+  }
+}
+
+/**
+ * Create a limiter from a server's performance configuration
+ *
+ * @param performance - Server performance configuration
+ * @param metrics - Optional collector for queue metrics
+ * @returns Limiter enforcing `maxConcurrentRequests` and `concurrency`
+ */
+export function createConcurrencyLimiter(
+  performance: PerformanceConfig,
+  metrics?: MetricsCollector
+): ConcurrencyLimiter {
+  return new ConcurrencyLimiter({
+    ...performance.concurrency,
+    maxConcurrent: performance.maxConcurrentRequests,
+    metrics,
+  });
+}
+
+/**
+ * Map an admission-control rejection to a JSON-RPC error
+ *
+ * @param error - Rejection raised by the limiter
+ * @returns MCP error with code {@link SERVER_BUSY}
+ */
+export function toServerBusyError(error: ToolQueueError): McpError {
+  return new McpError(SERVER_BUSY, error.message, {
+    tool: error.toolName,
+    reason: error.reason,
+  });
+}
+
+/**
+ * Decrement a counter, removing it when it reaches zero
+ */
+function decrement(counts: Map<string, number>, key: string): void {
+  const count = (counts.get(key) ?? 0) - 1;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
@@ -65,6 +65,18 @@ const SecurityConfigSchema = z.object({
     origins: z.array(z.string()).default(['*']),
     methods: z.array(z.string()).default(['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS']),
   }),
+  authorization: z
+    .object({
+      categories: z
+        .record(
+          z.object({
+            roles: z.array(z.string().min(1)).optional(),
+            permissions: z.array(z.string().min(1)).optional(),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
 });
 
 /**
@@ -79,6 +91,60 @@ const PerformanceConfigSchema = z.object({
     ttl: z.number().positive().default(300000), // 5 minutes
     maxSize: z.number().positive().default(1000),
   }),
+  concurrency: z
+    .object({
+      maxQueueSize: z.number().int().nonnegative().default(DEFAULT_LIMITS.MAX_QUEUE_SIZE),
+      queueTimeout: z.number().positive().default(DEFAULT_TIMEOUTS.QUEUE_WAIT),
+      perTool: z.record(z.number().int().positive()).optional(),
+      perCategory: z.record(z.number().int().positive()).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Plugin discovery configuration schema
+ */
+const PluginConfigSchema = z.object({
+  directories: z.array(z.string().min(1)).default([]),
+  packages: z.array(z.string().min(1)).optional(),
+  watch: z.boolean().default(false),
+});
+
+/**
+ * Telemetry configuration schema
+ */
+const TelemetryConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  endpoint: z.string().url().optional(),
+  serviceName: z.string().min(1),
+  serviceVersion: z.string().min(1),
+  traces: z.object({
+    enabled: z.boolean().default(true),
+    sampleRate: z.number().min(0).max(1).default(1),
+  }),
+  metrics: z.object({
+    enabled: z.boolean().default(false),
+    interval: z.number().positive().default(60000),
+  }),
+  logs: z.object({
+    enabled: z.boolean().default(true),
+    correlation: z.boolean().default(true),
+  }),
+});
+
+/**
+ * Audit log configuration schema
+ */
+const AuditConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  directory: z.string().min(1),
+  fileName: z.string().min(1).default('audit.jsonl'),
+  maxFileSize: z
+    .number()
+    .int()
+    .positive()
+    .default(10 * 1024 * 1024),
+  maxFiles: z.number().int().min(0).default(0),
 });
 
 /**
@@ -94,6 +160,9 @@ const ServerConfigSchema = z.object({
   logging: LoggingConfigSchema,
   security: SecurityConfigSchema,
   performance: PerformanceConfigSchema,
+  plugins: PluginConfigSchema.optional(),
+  telemetry: TelemetryConfigSchema.optional(),
+  audit: AuditConfigSchema.optional(),
 });
 
 // =============================================================================
@@ -185,6 +254,10 @@ function createDefaultPerformanceConfig(environment: string): PerformanceConfig
       ttl: isProduction ? 600000 : 300000, // 10min prod, 5min dev
       maxSize: isProduction ? 5000 : 1000,
     },
+    concurrency: {
+      maxQueueSize: DEFAULT_LIMITS.MAX_QUEUE_SIZE,
+      queueTimeout: DEFAULT_TIMEOUTS.QUEUE_WAIT,
+    },
   };
 }
 
@@ -361,8 +434,27 @@ export function loadConfigFromEnv(serverName?: string): Partial<McpServerConfig>
       ttl: getEnvNumber('CACHE_TTL', 300000),
       maxSize: getEnvNumber('CACHE_MAX_SIZE', 1000),
     },
+    concurrency: {
+      maxQueueSize: getEnvNumber('MAX_QUEUE_SIZE', DEFAULT_LIMITS.MAX_QUEUE_SIZE),
+      queueTimeout: getEnvNumber('QUEUE_TIMEOUT', DEFAULT_TIMEOUTS.QUEUE_WAIT),
+    },
   };
 
+  // Plugin configuration
+  const pluginDirs = getEnvVar('PLUGIN_DIRS')
+    ?.split(',')
+    .map(dir => dir.trim());
+  const pluginPackages = getEnvVar('PLUGIN_PACKAGES')
+    ?.split(',')
+    .map(name => name.trim());
+  if (pluginDirs || pluginPackages) {
+    config.plugins = {
+      directories: pluginDirs ?? [],
+      packages: pluginPackages,
+      watch: getEnvBoolean('PLUGIN_WATCH', false),
+    };
+  }
+
   return config;
 }
 
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Request Context Propagation
+ *
+ * This module carries the context of the request being served (request id,
+ * session, user, tool and trace) through async calls with AsyncLocalStorage,
+ * so loggers, metrics and tool results pick it up without it being passed
+ * along by hand.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+import { RequestContext } from '../types/index.js';
+
+/**
+ * Context of the request served by each async execution context
+ */
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Get the context of the request being served
+ *
+ * @returns Request context, or undefined outside any request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+/**
+ * Run a function with fields added to the current request context
+ *
+ * Outside a request, a new context is started with a generated request id.
+ * Fields that are undefined leave the current value in place.
+ *
+ * @param fields - Fields to set for the duration of the function
+ * @param fn - Function to run
+ * @returns Result of the function
+ *
+ * @example
+ * ```typescript
+ * await withRequestContext({ toolName: 'search' }, async () => {
+ *   logger.info('Searching'); // entry carries requestId and toolName
+ * });
+ * ```
+ */
+export function withRequestContext<T>(fields: Partial<RequestContext>, fn: () => T): T {
+  const current = requestContext.getStore();
+  const defined = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Partial<RequestContext>;
+
+  return requestContext.run(
+    { ...current, ...defined, requestId: defined.requestId ?? current?.requestId ?? randomUUID() },
+    fn
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Tool Execution with Timeouts and Cancellation
+ *
+ * This module runs tool executions under a deadline and an `AbortSignal`, so
+ * that timed-out or client-cancelled calls stop their work instead of running
+ * on in the background.
+ *
+ * Features:
+ * - Server-wide default timeout with per-tool overrides
+ * - `AbortSignal` passed to `McpTool.execute` and aborted on timeout
+ * - Upstream cancellation (e.g. MCP `notifications/cancelled`) propagation
+ * - Mapping to JSON-RPC `-32001 Request timeout` for the MCP protocol path
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  DEFAULT_TIMEOUTS,
+  McpTool,
+  PerformanceConfig,
+  ToolCancelledError,
+  ToolResult,
+  ToolTimeoutError,
+  UserContext,
+} from '../types/index.js';
+
+/**
+ * Options for a single tool execution
+ */
+export interface ToolExecutionOptions {
+  /** Timeout in milliseconds */
+  readonly timeout: number;
+  /** Caller's signal; aborting it cancels the execution */
+  readonly signal?: AbortSignal;
+  /** Authenticated caller, passed on to the tool */
+  readonly user?: UserContext;
+}
+
+/**
+ * Resolve the effective timeout for a tool
+ *
+ * @param tool - Tool being executed
+ * @param performance - Server performance configuration
+ * @returns Per-tool timeout, else the server timeout, else the library default
+ */
+export function resolveToolTimeout(tool: McpTool, performance?: PerformanceConfig): number {
+  return tool.timeout ?? performance?.timeout ?? DEFAULT_TIMEOUTS.TOOL_EXECUTION;
+}
+
+/**
+ * Execute a tool under a timeout, aborting its signal when the call ends early
+ *
+ * The tool receives an `AbortSignal` that is aborted when the timeout expires
+ * or the caller's signal is aborted; the returned promise rejects at that
+ * moment without waiting for the tool to notice.
+ *
+ * @param tool - Tool to execute
+ * @param params - Validated tool parameters
+ * @param options - Timeout, optional caller signal and caller identity
+ * @returns Tool result
+ * @throws {ToolTimeoutError} When the timeout expires
+ * @throws {ToolCancelledError} When the caller's signal is aborted
+ */
+export function executeToolWithTimeout(
+  tool: McpTool,
+  params: unknown,
+  options: ToolExecutionOptions
+): Promise<ToolResult> {
+  const { timeout, signal, user } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(new ToolCancelledError(tool.name, abortReason(signal)));
+  }
+
+  const controller = new AbortController();
+
+  return new Promise<ToolResult>((resolve, reject) => {
+    const stop = (error: Error): void => {
+      cleanup();
+      controller.abort(error);
+      reject(error);
+    };
+
+    const onAbort = (): void => stop(new ToolCancelledError(tool.name, abortReason(signal!)));
+    const timer = setTimeout(() => stop(new ToolTimeoutError(tool.name, timeout)), timeout);
+
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    Promise.resolve()
+      .then(() => tool.execute(params, { signal: controller.signal, timeout, user }))
+      .then(
+        result => {
+          cleanup();
+          resolve(result);
+        },
+        error => {
+          cleanup();
+          reject(error);
+        }
+      );
+  });
+}
+
+/**
+ * Map a tool timeout to a JSON-RPC `Request timeout` error
+ *
+ * @param error - Timeout raised for the tool call
+ * @returns MCP error carrying the tool and timeout in its `data` field
+ */
+export function toRequestTimeoutError(error: ToolTimeoutError): McpError {
+  return new McpError(ErrorCode.RequestTimeout, error.message, {
+    tool: error.toolName,
+    timeout: error.timeout,
+  });
+}
+
+/**
+ * Extract a human-readable abort reason, if the signal carries one
+ */
+function abortReason(signal: AbortSignal): string | undefined {
+  if (typeof signal.reason === 'string') {
+    return signal.reason;
+  }
+
+  return signal.reason instanceof Error ? signal.reason.message : undefined;
+}
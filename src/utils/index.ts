@@ -55,6 +55,8 @@ export {
   logAuditEvent,
   createHttpLogger,
   createCorrelationContext,
+  traceContextFormat,
+  requestContextFormat,
   logFunctionEntry,
   logFunctionExit,
   createLogAggregator,
@@ -89,6 +91,8 @@ export {
   formatMetricValue,
   createHttpMetrics,
   createDatabaseMetrics,
+  DEFAULT_HISTOGRAM_BUCKETS,
+  UNKNOWN_TOOL_LABEL,
   // Types
   type MetricType,
   type AggregationType,
@@ -96,8 +100,75 @@ export {
   type MetricValue,
   type MetricStats,
   type PerformanceSnapshot,
+  type MetricsCollectorOptions,
+  type PrometheusExportOptions,
+  type OtlpExportOptions,
 } from './metrics.js';
 
+// Request context utilities
+export { getRequestContext, withRequestContext } from './context.js';
+
+// Audit log utilities
+export {
+  AuditLog,
+  createAuditLog,
+  hashAuditArguments,
+  AUDIT_GENESIS_HASH,
+  AUDIT_ANONYMOUS_ACTOR,
+  AUDIT_SYSTEM_ACTOR,
+} from './audit.js';
+
+// Tracing utilities
+export {
+  Tracer,
+  Span,
+  createTracer,
+  getActiveSpan,
+  parseTraceparent,
+  formatTraceparent,
+  extractTraceContext,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  type SpanOptions,
+} from './tracing.js';
+export {
+  OtlpTraceExporter,
+  OtlpMetricExporter,
+  type OtlpExporterOptions,
+  type OtlpMetricExporterOptions,
+} from './otlp.js';
+
+// Schema conversion utilities
+export {
+  zodToJsonSchema,
+  getToolInputSchema,
+  JSON_SCHEMA_DIALECT,
+  type ZodToJsonSchemaOptions,
+} from './schema.js';
+
+// Validation utilities
+export { validateToolArguments, formatZodIssues, toInvalidParamsError } from './validation.js';
+
+// Tool execution utilities
+export {
+  executeToolWithTimeout,
+  resolveToolTimeout,
+  toRequestTimeoutError,
+  type ToolExecutionOptions,
+} from './execution.js';
+
+// Admission control utilities
+export {
+  ConcurrencyLimiter,
+  createConcurrencyLimiter,
+  toServerBusyError,
+  SERVER_BUSY,
+  type ConcurrencyLimiterOptions,
+} from './concurrency.js';
+
+// Caching utilities
+export { LruCache, ToolResultCache, createToolResultCache, type LruCacheOptions } from './cache.js';
+
 // =============================================================================
 // Common Utility Functions
 // =============================================================================
@@ -173,6 +244,37 @@ export async function retry<T>(
   throw lastError!;
 }
 
+/**
+ * Map items through an async function with bounded concurrency
+ *
+ * Results keep the order of the input items regardless of completion order.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent invocations
+ * @param fn - Async function applied to each item
+ * @returns Promise with results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
 /**
  * Deep clone an object using JSON serialization
  *
@@ -21,6 +21,8 @@
 import { createLogger, format, transports, Logger } from 'winston';
 import { LoggingConfig } from '../types/index.js';
 import { LoggingConfigSchema } from './config.js';
+import { getRequestContext } from './context.js';
+import { getActiveSpan } from './tracing.js';
 
 // =============================================================================
 // Constants
@@ -73,9 +75,14 @@ const FILE_ROTATION_DEFAULTS = {
  *
  * @param config - Logging configuration
  * @param serverName - Optional server name for context
+ * @param options - Set `traceCorrelation` to add the active span's ids to every entry
  * @returns Configured Winston logger
  */
-export function createDefaultLogger(config: LoggingConfig, serverName?: string): Logger {
+export function createDefaultLogger(
+  config: LoggingConfig,
+  serverName?: string,
+  options: { traceCorrelation?: boolean } = {}
+): Logger {
   const loggerTransports: any[] = [];
   const environment = process.env.NODE_ENV || 'development';
 
@@ -146,7 +153,9 @@ export function createDefaultLogger(config: LoggingConfig, serverName?: string):
       format.timestamp(),
       format.errors({ stack: true }),
       serverName ? format.label({ label: serverName }) : format.label({ label: 'mcp-server' }),
-      format.metadata({ fillExcept: ['message', 'level', 'timestamp', 'label'] })
+      format.metadata({ fillExcept: ['message', 'level', 'timestamp', 'label'] }),
+      requestContextFormat(),
+      ...(options.traceCorrelation ? [traceContextFormat()] : [])
     ),
     transports: loggerTransports,
     exitOnError: false,
@@ -528,7 +537,10 @@ export function createAppLogger(appName: string, level: string = 'info'): Logger
 
   return createLogger({
     level,
-    format: LOG_FORMATS[environment as keyof typeof LOG_FORMATS] || LOG_FORMATS.development,
+    format: format.combine(
+      requestContextFormat(),
+      LOG_FORMATS[environment as keyof typeof LOG_FORMATS] || LOG_FORMATS.development
+    ),
     defaultMeta: {
       service: appName,
       environment,
@@ -555,6 +567,7 @@ export function createPerformanceLogger(component: string): Logger {
     level: 'debug',
     format: format.combine(
       format.timestamp(),
+      requestContextFormat(),
       format.label({ label: `perf:${component}` }),
       format.json()
     ),
@@ -573,6 +586,7 @@ export function createSecurityLogger(serviceName: string): Logger {
     level: 'info',
     format: format.combine(
       format.timestamp(),
+      requestContextFormat(),
       format.label({ label: `security:${serviceName}` }),
       format.json()
     ),
@@ -614,6 +628,39 @@ export function createCorrelationContext(
   };
 }
 
+/**
+ * Winston format adding the current request's context (`requestId`,
+ * `sessionId`, `userId`, `toolName`, ...) to log entries
+ *
+ * Fields given explicitly in the entry take precedence. Entries logged
+ * outside a request are left unchanged.
+ */
+export const requestContextFormat = format(info => {
+  const context = getRequestContext();
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (info[key] === undefined) {
+        info[key] = value;
+      }
+    }
+  }
+  return info;
+});
+
+/**
+ * Winston format adding the active span's `traceId` and `spanId` to log entries
+ *
+ * Entries logged outside a traced operation are left unchanged.
+ */
+export const traceContextFormat = format(info => {
+  const span = getActiveSpan();
+  if (span) {
+    info.traceId = span.context.traceId;
+    info.spanId = span.context.spanId;
+  }
+  return info;
+});
+
 /**
  * Log function entry with parameters
  *
@@ -20,7 +20,14 @@
 
 import { EventEmitter } from 'events';
 
-import { MetricDataPoint, TimeSeriesMetric, ResourceUsage } from '../types/index.js';
+import {
+  MetricDataPoint,
+  TimeSeriesMetric,
+  ResourceUsage,
+  SpanAttributeValue,
+} from '../types/index.js';
+import { getRequestContext } from './context.js';
+import { OTLP_INSTRUMENTATION_SCOPE, toOtlpAttributes, toUnixNano } from './otlp.js';
 
 // =============================================================================
 // Constants and Types
@@ -46,6 +53,64 @@ export interface MetricConfig {
   readonly unit: string;
   readonly labels?: Record<string, string>;
   readonly retention?: number; // milliseconds
+  /** Bucket upper bounds for `histogram` and `timer` metrics */
+  readonly buckets?: readonly number[];
+}
+
+/**
+ * Metrics collector options
+ */
+export interface MetricsCollectorOptions {
+  /** Bucket upper bounds for histograms that do not configure their own */
+  readonly histogramBuckets?: readonly number[];
+}
+
+/**
+ * Prometheus export options
+ */
+export interface PrometheusExportOptions {
+  /** Include CPU, memory and start time of the process (default: true) */
+  readonly processMetrics?: boolean;
+}
+
+/**
+ * OTLP export options
+ */
+export interface OtlpExportOptions {
+  /** Resource attributes added to `service.name`, e.g. `service.version` */
+  readonly resourceAttributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * OTLP cumulative aggregation temporality
+ */
+const OTLP_CUMULATIVE = 2;
+
+/**
+ * Default histogram bucket upper bounds, in milliseconds
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS: readonly number[] = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * Tool label for calls to tools that are not registered, so client-supplied
+ * names cannot create new metric series
+ */
+export const UNKNOWN_TOOL_LABEL = 'unknown';
+
+/**
+ * Running Prometheus state of one label set of a metric
+ */
+interface MetricSeries {
+  readonly labels: Record<string, string>;
+  /** Counter or gauge value */
+  value: number;
+  /** Histogram bucket upper bounds and the observations falling in each */
+  readonly buckets: readonly number[];
+  readonly bucketCounts: number[];
+  sum: number;
+  count: number;
 }
 
 /**
@@ -55,6 +120,8 @@ export interface MetricValue {
   readonly value: number;
   readonly timestamp: number;
   readonly labels?: Record<string, string>;
+  /** Request the sample was recorded in; kept out of exported labels to bound their cardinality */
+  readonly requestId?: string;
 }
 
 /**
@@ -117,6 +184,10 @@ export class MetricsCollector extends EventEmitter {
   private readonly _serviceName: string;
   private readonly _metrics: Map<string, MetricValue[]> = new Map();
   private readonly _configs: Map<string, MetricConfig> = new Map();
+  /** Exported series by metric name and label set; never trimmed by cleanup */
+  private readonly _series: Map<string, { type: MetricType; series: Map<string, MetricSeries> }> =
+    new Map();
+  private readonly _histogramBuckets: readonly number[];
   private readonly _toolExecutions: Map<string, number> = new Map();
   private readonly _responseTimes: number[] = [];
   private readonly _startTime: number = Date.now();
@@ -136,10 +207,12 @@ export class MetricsCollector extends EventEmitter {
   private readonly _retentionPeriod = 3600000; // 1 hour
 
   private _cleanupTimer?: NodeJS.Timeout;
+  private _performanceTimer?: NodeJS.Timeout;
 
-  constructor(serviceName: string) {
+  constructor(serviceName: string, options: MetricsCollectorOptions = {}) {
     super();
     this._serviceName = serviceName;
+    this._histogramBuckets = options.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS;
     this._initializeDefaultMetrics();
     this._startCleanupTimer();
     this._startPerformanceMonitoring();
@@ -187,35 +260,21 @@ export class MetricsCollector extends EventEmitter {
    * @param labels - Optional labels
    */
   record(name: string, value: number, labels?: Record<string, string>): void {
-    const timestamp = Date.now();
-    const metricValue: MetricValue = { value, timestamp, labels };
-
-    let values = this._metrics.get(name);
-    if (!values) {
-      values = [];
-      this._metrics.set(name, values);
-    }
-
-    values.push(metricValue);
-
-    // Prevent memory leaks by limiting data points
-    if (values.length > this._maxDataPoints) {
-      values.splice(0, values.length - this._maxDataPoints);
-    }
-
-    this.emit('metricRecorded', { metric: name, value, timestamp, labels });
+    this._record(name, value, labels, 'gauge');
   }
 
   /**
    * Increment a counter metric
    *
+   * Counters are cumulative per label set.
+   *
    * @param name - Counter name
    * @param increment - Increment value (default: 1)
    * @param labels - Optional labels
    */
   increment(name: string, increment = 1, labels?: Record<string, string>): void {
-    const current = this.getLatestValue(name) || 0;
-    this.record(name, current + increment, labels);
+    const current = this._getSeries(name, labels, 'counter').value;
+    this._record(name, current + increment, labels, 'counter');
   }
 
   /**
@@ -226,7 +285,7 @@ export class MetricsCollector extends EventEmitter {
    * @param labels - Optional labels
    */
   gauge(name: string, value: number, labels?: Record<string, string>): void {
-    this.record(name, value, labels);
+    this._record(name, value, labels, 'gauge');
   }
 
   /**
@@ -237,7 +296,7 @@ export class MetricsCollector extends EventEmitter {
    * @param labels - Optional labels
    */
   timing(name: string, duration: number, labels?: Record<string, string>): void {
-    this.record(name, duration, labels);
+    this._record(name, duration, labels, 'timer');
     this._responseTimes.push(duration);
 
     // Keep response times manageable
@@ -279,6 +338,37 @@ export class MetricsCollector extends EventEmitter {
     }
   }
 
+  /**
+   * Record how long a tool call waited for an execution slot
+   *
+   * @param toolName - Name of the queued tool
+   * @param waitTime - Time spent in the queue in milliseconds
+   */
+  recordQueueWait(toolName: string, waitTime: number): void {
+    this.record('tool_queue_wait_time', waitTime, { tool: toolName });
+  }
+
+  /**
+   * Record the current admission-control load
+   *
+   * @param queueDepth - Number of calls waiting for a slot
+   * @param active - Number of calls currently executing
+   */
+  recordQueueDepth(queueDepth: number, active: number): void {
+    this.gauge('tool_queue_depth', queueDepth);
+    this.gauge('tool_active_executions', active);
+  }
+
+  /**
+   * Record a tool call rejected by admission control
+   *
+   * @param toolName - Name of the rejected tool
+   * @param reason - Why the call was rejected
+   */
+  recordQueueRejection(toolName: string, reason: string): void {
+    this.increment('tool_queue_rejections_total', 1, { tool: toolName, reason });
+  }
+
   /**
    * Get tool execution counts
    *
@@ -594,38 +684,143 @@ export class MetricsCollector extends EventEmitter {
   // =============================================================================
 
   /**
-   * Export metrics in Prometheus format
+   * Export metrics in the Prometheus text exposition format
    *
-   * @returns Prometheus-formatted metrics string
+   * Counters are cumulative per label set, histograms and timers are exported
+   * as `_bucket`/`_sum`/`_count` series, and gauges report their latest value.
+   * Every series carries a `service` label.
+   *
+   * @param options - Export options
+   * @returns Prometheus exposition text
    */
-  exportPrometheus(): string {
+  exportPrometheus(options: PrometheusExportOptions = {}): string {
     const lines: string[] = [];
 
-    for (const [name, values] of Array.from(this._metrics)) {
-      const config = this._configs.get(name);
-      const latest = values[values.length - 1];
-
-      if (!latest) continue;
+    for (const [name, metric] of Array.from(this._series)) {
+      const metricName = toPrometheusName(name);
+      const description = this._configs.get(name)?.description;
 
-      // Add help comment
-      if (config?.description) {
-        lines.push(`# HELP ${name} ${config.description}`);
+      if (description) {
+        lines.push(`# HELP ${metricName} ${escapePrometheusHelp(description)}`);
+      }
+      lines.push(`# TYPE ${metricName} ${this._getPrometheusType(metric.type)}`);
+
+      for (const series of Array.from(metric.series.values())) {
+        const labels = { service: this._serviceName, ...series.labels };
+
+        if (!isHistogram(metric.type)) {
+          lines.push(
+            `${metricName}${this._formatPrometheusLabels(labels)} ${formatPrometheusValue(series.value)}`
+          );
+          continue;
+        }
+
+        // Bucket counts are cumulative: each includes every smaller bucket
+        let cumulative = 0;
+        series.buckets.forEach((bound, index) => {
+          cumulative += series.bucketCounts[index]!;
+          const bucketLabels = { ...labels, le: formatPrometheusValue(bound) };
+          lines.push(
+            `${metricName}_bucket${this._formatPrometheusLabels(bucketLabels)} ${cumulative}`
+          );
+        });
+        lines.push(
+          `${metricName}_bucket${this._formatPrometheusLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+          `${metricName}_sum${this._formatPrometheusLabels(labels)} ${formatPrometheusValue(series.sum)}`,
+          `${metricName}_count${this._formatPrometheusLabels(labels)} ${series.count}`
+        );
       }
+    }
 
-      // Add type comment
-      const prometheusType = this._getPrometheusType(config?.type || 'gauge');
-      lines.push(`# TYPE ${name} ${prometheusType}`);
+    if (options.processMetrics !== false) {
+      lines.push(...this._exportProcessMetrics());
+    }
 
-      // Add metric value with labels
-      const labelsStr = this._formatPrometheusLabels({
-        service: this._serviceName,
-        ...latest.labels,
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Export metrics as an OTLP `ExportMetricsServiceRequest` in JSON encoding
+   *
+   * Counters become cumulative monotonic sums, histograms and timers become
+   * cumulative explicit-bucket histograms, and gauges report their latest
+   * value. Labels become data point attributes.
+   *
+   * @param options - Export options
+   * @returns OTLP JSON request body
+   */
+  exportOtlp(options: OtlpExportOptions = {}): Record<string, unknown> {
+    const startTimeUnixNano = toUnixNano(this._startTime);
+    const timeUnixNano = toUnixNano(Date.now());
+
+    const metrics = Array.from(this._series).map(([name, metric]) => {
+      const config = this._configs.get(name);
+      const series = Array.from(metric.series.values());
+      const point = (entry: MetricSeries) => ({
+        attributes: toOtlpAttributes(entry.labels),
+        startTimeUnixNano,
+        timeUnixNano,
       });
 
-      lines.push(`${name}${labelsStr} ${latest.value} ${latest.timestamp}`);
-    }
+      let data: Record<string, unknown>;
+      if (isHistogram(metric.type)) {
+        data = {
+          histogram: {
+            aggregationTemporality: OTLP_CUMULATIVE,
+            dataPoints: series.map(entry => {
+              const bucketed = entry.bucketCounts.reduce((total, count) => total + count, 0);
+              return {
+                ...point(entry),
+                count: String(entry.count),
+                sum: entry.sum,
+                // OTLP counts are per bucket, with a final bucket above the last bound
+                bucketCounts: [...entry.bucketCounts, entry.count - bucketed].map(String),
+                explicitBounds: entry.buckets,
+              };
+            }),
+          },
+        };
+      } else if (metric.type === 'counter') {
+        data = {
+          sum: {
+            aggregationTemporality: OTLP_CUMULATIVE,
+            isMonotonic: true,
+            dataPoints: series.map(entry => ({ ...point(entry), asDouble: entry.value })),
+          },
+        };
+      } else {
+        data = {
+          gauge: {
+            dataPoints: series.map(entry => ({
+              attributes: toOtlpAttributes(entry.labels),
+              timeUnixNano,
+              asDouble: entry.value,
+            })),
+          },
+        };
+      }
+
+      return {
+        name,
+        ...(config?.description && { description: config.description }),
+        ...(config?.unit && { unit: config.unit }),
+        ...data,
+      };
+    });
 
-    return lines.join('\n');
+    return {
+      resourceMetrics: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({
+              'service.name': this._serviceName,
+              ...options.resourceAttributes,
+            }),
+          },
+          scopeMetrics: [{ scope: OTLP_INSTRUMENTATION_SCOPE, metrics }],
+        },
+      ],
+    };
   }
 
   /**
@@ -677,6 +872,9 @@ export class MetricsCollector extends EventEmitter {
 
   /**
    * Clean up old metric data to prevent memory leaks
+   *
+   * Only the sample history is trimmed; exported counters and histograms keep
+   * accumulating.
    */
   cleanup(): void {
     const cutoff = Date.now() - this._retentionPeriod;
@@ -707,6 +905,7 @@ export class MetricsCollector extends EventEmitter {
    */
   reset(): void {
     this._metrics.clear();
+    this._series.clear();
     this._toolExecutions.clear();
     this._responseTimes.length = 0;
     this._performanceSnapshots.length = 0;
@@ -726,6 +925,10 @@ export class MetricsCollector extends EventEmitter {
       clearInterval(this._cleanupTimer);
       this._cleanupTimer = undefined;
     }
+    if (this._performanceTimer) {
+      clearInterval(this._performanceTimer);
+      this._performanceTimer = undefined;
+    }
 
     this.removeAllListeners();
     this.reset();
@@ -735,6 +938,91 @@ export class MetricsCollector extends EventEmitter {
   // Private Implementation
   // =============================================================================
 
+  /**
+   * Store a sample and update its exported series
+   *
+   * @param name - Metric name
+   * @param value - Sample value; observed by histograms, set on counters and gauges
+   * @param labels - Optional labels
+   * @param defaultType - Type of a metric that was not registered
+   */
+  private _record(
+    name: string,
+    value: number,
+    labels: Record<string, string> | undefined,
+    defaultType: MetricType
+  ): void {
+    const timestamp = Date.now();
+    const requestId = getRequestContext()?.requestId;
+    const metricValue: MetricValue = { value, timestamp, labels, ...(requestId && { requestId }) };
+
+    let values = this._metrics.get(name);
+    if (!values) {
+      values = [];
+      this._metrics.set(name, values);
+    }
+
+    values.push(metricValue);
+
+    // Prevent memory leaks by limiting data points
+    if (values.length > this._maxDataPoints) {
+      values.splice(0, values.length - this._maxDataPoints);
+    }
+
+    const series = this._getSeries(name, labels, defaultType);
+    if (isHistogram(this._series.get(name)!.type)) {
+      series.sum += value;
+      series.count++;
+      const bucket = series.buckets.findIndex(bound => value <= bound);
+      if (bucket >= 0) {
+        series.bucketCounts[bucket]!++;
+      }
+    } else {
+      series.value = value;
+    }
+
+    this.emit('metricRecorded', { metric: name, value, timestamp, labels, requestId });
+  }
+
+  /**
+   * Get the exported series of a label set, creating it on first use
+   *
+   * @param name - Metric name
+   * @param labels - Optional labels
+   * @param defaultType - Type of a metric that was not registered
+   * @returns Series state
+   */
+  private _getSeries(
+    name: string,
+    labels: Record<string, string> | undefined,
+    defaultType: MetricType
+  ): MetricSeries {
+    let metric = this._series.get(name);
+    if (!metric) {
+      const config = this._configs.get(name);
+      metric = { type: config?.type ?? defaultType, series: new Map() };
+      this._series.set(name, metric);
+    }
+
+    const key = JSON.stringify(Object.entries(labels ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+    let series = metric.series.get(key);
+    if (!series) {
+      const buckets = isHistogram(metric.type)
+        ? [...(this._configs.get(name)?.buckets ?? this._histogramBuckets)].sort((a, b) => a - b)
+        : [];
+      series = {
+        labels: { ...labels },
+        value: 0,
+        buckets,
+        bucketCounts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      metric.series.set(key, series);
+    }
+    return series;
+  }
+
   /**
    * Initialize default metrics for all servers
    */
@@ -758,6 +1046,30 @@ export class MetricsCollector extends EventEmitter {
         description: 'Total number of tool execution errors',
         unit: 'count',
       },
+      {
+        name: 'tool_queue_wait_time',
+        type: 'histogram',
+        description: 'Time tool calls waited for an execution slot',
+        unit: 'milliseconds',
+      },
+      {
+        name: 'tool_queue_depth',
+        type: 'gauge',
+        description: 'Tool calls waiting for an execution slot',
+        unit: 'count',
+      },
+      {
+        name: 'tool_active_executions',
+        type: 'gauge',
+        description: 'Tool calls currently executing',
+        unit: 'count',
+      },
+      {
+        name: 'tool_queue_rejections_total',
+        type: 'counter',
+        description: 'Tool calls rejected because the queue was full or timed out',
+        unit: 'count',
+      },
       {
         name: 'memory_heap_used_mb',
         type: 'gauge',
@@ -800,6 +1112,8 @@ export class MetricsCollector extends EventEmitter {
     this._cleanupTimer = setInterval(() => {
       this.cleanup();
     }, this._cleanupInterval);
+    // Background maintenance must not keep the process alive
+    this._cleanupTimer.unref();
   }
 
   /**
@@ -810,9 +1124,10 @@ export class MetricsCollector extends EventEmitter {
     this.recordPerformanceSnapshot();
 
     // Schedule regular snapshots
-    setInterval(() => {
+    this._performanceTimer = setInterval(() => {
       this.recordPerformanceSnapshot();
     }, 30000); // Every 30 seconds
+    this._performanceTimer.unref();
   }
 
   /**
@@ -878,12 +1193,66 @@ export class MetricsCollector extends EventEmitter {
     if (Object.keys(labels).length === 0) return '';
 
     const labelPairs = Object.entries(labels)
-      .map(([key, value]) => `${key}="${value}"`)
+      .map(([key, value]) => `${toPrometheusName(key, false)}="${escapePrometheusLabel(value)}"`)
       .join(',');
 
     return `{${labelPairs}}`;
   }
 
+  /**
+   * Export the standard process metrics: CPU time, memory and start time
+   *
+   * @returns Prometheus exposition lines
+   */
+  private _exportProcessMetrics(): string[] {
+    const cpu = process.cpuUsage();
+    const memory = process.memoryUsage();
+    const labels = this._formatPrometheusLabels({ service: this._serviceName });
+    const startTime = (Date.now() - process.uptime() * 1000) / 1000;
+
+    const metrics: Array<[string, string, string, number]> = [
+      [
+        'process_cpu_user_seconds_total',
+        'counter',
+        'User CPU time spent in seconds',
+        cpu.user / 1e6,
+      ],
+      [
+        'process_cpu_system_seconds_total',
+        'counter',
+        'System CPU time spent in seconds',
+        cpu.system / 1e6,
+      ],
+      [
+        'process_cpu_seconds_total',
+        'counter',
+        'Total user and system CPU time spent in seconds',
+        (cpu.user + cpu.system) / 1e6,
+      ],
+      ['process_resident_memory_bytes', 'gauge', 'Resident memory size in bytes', memory.rss],
+      [
+        'process_start_time_seconds',
+        'gauge',
+        'Start time of the process since unix epoch in seconds',
+        Math.round(startTime),
+      ],
+      ['nodejs_heap_size_total_bytes', 'gauge', 'Process heap size in bytes', memory.heapTotal],
+      ['nodejs_heap_size_used_bytes', 'gauge', 'Process heap size used in bytes', memory.heapUsed],
+      [
+        'nodejs_external_memory_bytes',
+        'gauge',
+        'Node.js external memory in bytes',
+        memory.external,
+      ],
+    ];
+
+    return metrics.flatMap(([name, type, help, value]) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      `${name}${labels} ${formatPrometheusValue(value)}`,
+    ]);
+  }
+
   /**
    * Measure event loop delay (simplified implementation)
    *
@@ -913,6 +1282,49 @@ export class MetricsCollector extends EventEmitter {
   }
 }
 
+/**
+ * Whether a metric type is exported as a Prometheus histogram
+ */
+function isHistogram(type: MetricType): boolean {
+  return type === 'histogram' || type === 'timer';
+}
+
+/**
+ * Replace characters Prometheus does not allow in metric or label names
+ *
+ * @param name - Metric or label name
+ * @param allowColons - Whether colons are allowed (metric names only)
+ * @returns Valid name
+ */
+function toPrometheusName(name: string, allowColons = true): string {
+  const sanitized = name.replace(allowColons ? /[^a-zA-Z0-9_:]/g : /[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Escape a label value: backslashes, double quotes and line feeds
+ */
+function escapePrometheusLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Escape HELP text: backslashes and line feeds
+ */
+function escapePrometheusHelp(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format a sample value, spelling out infinities and NaN
+ */
+function formatPrometheusValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -940,9 +1352,12 @@ export function createCustomMetricsCollector(
     maxDataPoints?: number;
     retentionPeriod?: number;
     cleanupInterval?: number;
+    histogramBuckets?: readonly number[];
   } = {}
 ): MetricsCollector {
-  const collector = new MetricsCollector(serviceName);
+  const collector = new MetricsCollector(serviceName, {
+    histogramBuckets: options.histogramBuckets,
+  });
 
   // Apply custom configuration
   if (options.maxDataPoints) {
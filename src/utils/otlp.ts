@@ -0,0 +1,530 @@
+/**
+ * @fileoverview OTLP/HTTP Span and Metric Export
+ *
+ * This module sends telemetry to an OpenTelemetry collector using the
+ * OTLP/HTTP JSON encoding. Spans are queued and sent in batches on an
+ * interval, so exporting never delays a request. When the collector cannot
+ * keep up, the oldest queued spans are dropped.
+ *
+ * Metrics are pushed for environments without a scraper: a snapshot of the
+ * metrics collector is taken every interval and sent with retries. While the
+ * collector is unreachable, snapshots are buffered up to a limit and sent in
+ * order once it recovers.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import type { Logger } from 'winston';
+
+import { SpanAttributeValue, SpanData, SpanExporter, SpanKind } from '../types/index.js';
+import type { MetricsCollector } from './metrics.js';
+
+// =============================================================================
+// Constants and Types
+// =============================================================================
+
+/**
+ * Path of the OTLP/HTTP traces endpoint below the collector URL
+ */
+const TRACES_PATH = '/v1/traces';
+
+/**
+ * Path of the OTLP/HTTP metrics endpoint below the collector URL
+ */
+const METRICS_PATH = '/v1/metrics';
+
+/**
+ * Instrumentation scope reported with every span and metric
+ */
+export const OTLP_INSTRUMENTATION_SCOPE = { name: 'mcp-boilerplate', version: '0.3.0' };
+
+/**
+ * Collector responses worth retrying; other failures are permanent
+ */
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+/**
+ * Longest wait between metric export attempts, in milliseconds
+ */
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * OTLP span kind numbers
+ */
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+/**
+ * OTLP status code numbers
+ */
+const OTLP_STATUS_CODES: Record<SpanData['status']['code'], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/**
+ * OTLP exporter options
+ */
+export interface OtlpExporterOptions {
+  /** Collector URL; `/v1/traces` is appended unless already present */
+  readonly endpoint: string;
+  readonly serviceName: string;
+  readonly serviceVersion: string;
+  /** Extra request headers, e.g. for collector authentication */
+  readonly headers?: Record<string, string>;
+  /** Spans held before the oldest are dropped (default: 2048) */
+  readonly maxQueueSize?: number;
+  /** Spans sent per request (default: 512) */
+  readonly maxBatchSize?: number;
+  /** Milliseconds between sends (default: 5000) */
+  readonly flushInterval?: number;
+  /** Milliseconds before a send is abandoned (default: 10000) */
+  readonly timeout?: number;
+  readonly logger?: Logger;
+}
+
+/**
+ * OTLP metric exporter options
+ */
+export interface OtlpMetricExporterOptions {
+  /** Collector URL; `/v1/metrics` is appended unless already present */
+  readonly endpoint: string;
+  readonly serviceName: string;
+  readonly serviceVersion: string;
+  /** Extra request headers, e.g. for collector authentication */
+  readonly headers?: Record<string, string>;
+  /** Milliseconds between snapshots (default: 60000) */
+  readonly interval?: number;
+  /** Snapshots held while the collector is unreachable before the oldest are dropped (default: 100) */
+  readonly maxBufferSize?: number;
+  /** Retries of a failed send before waiting for the next interval (default: 3) */
+  readonly maxRetries?: number;
+  /** Milliseconds before the first retry, doubled for each further retry (default: 1000) */
+  readonly retryDelay?: number;
+  /** Milliseconds before a send is abandoned (default: 10000) */
+  readonly timeout?: number;
+  readonly logger?: Logger;
+}
+
+/**
+ * Outcome of sending one metrics snapshot
+ */
+type SendOutcome = 'sent' | 'rejected' | 'failed';
+
+/**
+ * OTLP JSON key-value attribute
+ */
+export interface OtlpAttribute {
+  readonly key: string;
+  readonly value:
+    | { stringValue: string }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { boolValue: boolean };
+}
+
+// =============================================================================
+// OTLP Trace Exporter
+// =============================================================================
+
+/**
+ * Span exporter posting OTLP JSON to a collector
+ *
+ * @example
+ * ```typescript
+ * const exporter = new OtlpTraceExporter({
+ *   endpoint: 'http://localhost:4318',
+ *   serviceName: 'my-server',
+ *   serviceVersion: '1.0.0',
+ * });
+ *
+ * const tracer = new Tracer(config.telemetry, exporter);
+ * ```
+ */
+export class OtlpTraceExporter implements SpanExporter {
+  private readonly _url: string;
+  private readonly _options: OtlpExporterOptions;
+  private readonly _queue: SpanData[] = [];
+  private readonly _timer: NodeJS.Timeout;
+  private _sending: Promise<void> = Promise.resolve();
+  private _dropped = 0;
+  private _shutdown = false;
+
+  /**
+   * Create an exporter and start its send interval
+   *
+   * @param options - Collector URL, service identity and batching limits
+   */
+  constructor(options: OtlpExporterOptions) {
+    this._options = options;
+    this._url = resolveOtlpUrl(options.endpoint, TRACES_PATH);
+
+    this._timer = setInterval(() => void this.flush(), options.flushInterval ?? 5000);
+    this._timer.unref();
+  }
+
+  /**
+   * Number of spans dropped because the queue was full
+   */
+  get droppedSpans(): number {
+    return this._dropped;
+  }
+
+  /**
+   * Queue a completed span, dropping the oldest when the queue is full
+   *
+   * @param span - Completed span
+   */
+  export(span: SpanData): void {
+    if (this._shutdown) {
+      return;
+    }
+
+    this._queue.push(span);
+    if (this._queue.length > (this._options.maxQueueSize ?? 2048)) {
+      this._queue.shift();
+      this._dropped++;
+    }
+    if (this._queue.length >= (this._options.maxBatchSize ?? 512)) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send every queued span; failed batches are logged and discarded
+   */
+  async flush(): Promise<void> {
+    // Sends run one at a time, in order
+    this._sending = this._sending.then(async () => {
+      while (this._queue.length > 0) {
+        await this._send(this._queue.splice(0, this._options.maxBatchSize ?? 512));
+      }
+    });
+    return this._sending;
+  }
+
+  /**
+   * Send queued spans and stop the send interval
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this._timer);
+    await this.flush();
+    this._shutdown = true;
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  /**
+   * Post one batch of spans to the collector
+   */
+  private async _send(spans: SpanData[]): Promise<void> {
+    try {
+      const response = await postOtlp(
+        this._url,
+        JSON.stringify(this._createRequest(spans)),
+        this._options
+      );
+      if (!response.ok) {
+        throw new Error(`Collector responded with HTTP ${response.status}`);
+      }
+    } catch (error) {
+      this._options.logger?.warn('Failed to export spans', {
+        endpoint: this._url,
+        spanCount: spans.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Build an OTLP `ExportTraceServiceRequest` for a batch of spans
+   */
+  private _createRequest(spans: SpanData[]): Record<string, unknown> {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({
+              'service.name': this._options.serviceName,
+              'service.version': this._options.serviceVersion,
+              'telemetry.sdk.language': 'nodejs',
+            }),
+          },
+          scopeSpans: [{ scope: OTLP_INSTRUMENTATION_SCOPE, spans: spans.map(toOtlpSpan) }],
+        },
+      ],
+    };
+  }
+}
+
+// =============================================================================
+// OTLP Metric Exporter
+// =============================================================================
+
+/**
+ * Pushes snapshots of a metrics collector to an OTLP collector on an interval
+ *
+ * Counters and histograms are cumulative, so a snapshot sent late still
+ * describes the moment it was taken and no increments are lost when the
+ * oldest buffered snapshots are dropped.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new OtlpMetricExporter(server.metrics, {
+ *   endpoint: 'http://localhost:4318',
+ *   serviceName: 'my-server',
+ *   serviceVersion: '1.0.0',
+ *   interval: 15000,
+ * });
+ *
+ * exporter.start();
+ * ```
+ */
+export class OtlpMetricExporter {
+  private readonly _collector: MetricsCollector;
+  private readonly _url: string;
+  private readonly _options: OtlpMetricExporterOptions;
+  /** Serialized snapshots awaiting delivery, oldest first */
+  private readonly _buffer: string[] = [];
+  private _timer?: NodeJS.Timeout;
+  private _sending: Promise<void> = Promise.resolve();
+  private _dropped = 0;
+
+  /**
+   * Create an exporter; call {@link start} to begin pushing
+   *
+   * @param collector - Metrics to push
+   * @param options - Collector URL, service identity, interval and retry limits
+   */
+  constructor(collector: MetricsCollector, options: OtlpMetricExporterOptions) {
+    this._collector = collector;
+    this._options = options;
+    this._url = resolveOtlpUrl(options.endpoint, METRICS_PATH);
+  }
+
+  /**
+   * Number of snapshots waiting for the collector
+   */
+  get bufferedSnapshots(): number {
+    return this._buffer.length;
+  }
+
+  /**
+   * Number of snapshots dropped because the buffer was full
+   */
+  get droppedSnapshots(): number {
+    return this._dropped;
+  }
+
+  /**
+   * Start pushing a snapshot every interval; calling it again has no effect
+   */
+  start(): void {
+    if (this._timer) {
+      return;
+    }
+    this._timer = setInterval(() => void this.export(), this._options.interval ?? 60000);
+    this._timer.unref();
+  }
+
+  /**
+   * Take a snapshot and send it with every buffered one, retrying failures
+   *
+   * Snapshots the collector rejects as invalid are discarded; snapshots that
+   * still fail after the retries stay buffered for the next export.
+   */
+  async export(): Promise<void> {
+    this._snapshot();
+    return this._drain(this._options.maxRetries ?? 3);
+  }
+
+  /**
+   * Stop the interval and make a final attempt to send every snapshot
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this._timer);
+    this._timer = undefined;
+    this._snapshot();
+    await this._drain(0);
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  /**
+   * Buffer a snapshot of the collector, dropping the oldest when the buffer is full
+   */
+  private _snapshot(): void {
+    this._buffer.push(
+      JSON.stringify(
+        this._collector.exportOtlp({
+          resourceAttributes: {
+            'service.name': this._options.serviceName,
+            'service.version': this._options.serviceVersion,
+          },
+        })
+      )
+    );
+    if (this._buffer.length > (this._options.maxBufferSize ?? 100)) {
+      this._buffer.shift();
+      this._dropped++;
+    }
+  }
+
+  /**
+   * Send buffered snapshots in order until one cannot be delivered
+   */
+  private async _drain(maxRetries: number): Promise<void> {
+    // Sends run one at a time, in order
+    this._sending = this._sending.then(async () => {
+      while (this._buffer.length > 0) {
+        const outcome = await this._sendWithRetry(this._buffer[0]!, maxRetries);
+        if (outcome === 'failed') {
+          this._options.logger?.warn('Metrics collector unavailable; snapshots buffered', {
+            endpoint: this._url,
+            buffered: this._buffer.length,
+            dropped: this._dropped,
+          });
+          return;
+        }
+        this._buffer.shift();
+      }
+    });
+    return this._sending;
+  }
+
+  /**
+   * Send one snapshot, backing off exponentially between attempts
+   */
+  private async _sendWithRetry(body: string, maxRetries: number): Promise<SendOutcome> {
+    const retryDelay = this._options.retryDelay ?? 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      let retryAfter: number | undefined;
+      try {
+        const response = await postOtlp(this._url, body, this._options);
+        if (response.ok) {
+          return 'sent';
+        }
+        if (!RETRYABLE_STATUS_CODES.has(response.status)) {
+          this._options.logger?.error('Metrics collector rejected snapshot', {
+            endpoint: this._url,
+            status: response.status,
+          });
+          return 'rejected';
+        }
+        retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      } catch {
+        // Network errors and timeouts are retried
+      }
+
+      if (attempt >= maxRetries) {
+        return 'failed';
+      }
+      const delay = retryAfter ?? Math.min(retryDelay * 2 ** attempt, MAX_RETRY_DELAY);
+      await new Promise(resolve => setTimeout(resolve, delay).unref());
+    }
+  }
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Resolve the URL of an OTLP/HTTP signal endpoint from a collector URL
+ */
+function resolveOtlpUrl(endpoint: string, signalPath: string): string {
+  const url = endpoint.replace(/\/$/, '');
+  return url.endsWith(signalPath) ? url : `${url}${signalPath}`;
+}
+
+/**
+ * Post an OTLP JSON request body to a collector
+ */
+function postOtlp(
+  url: string,
+  body: string,
+  options: { readonly headers?: Record<string, string>; readonly timeout?: number }
+): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body,
+    signal: AbortSignal.timeout(options.timeout ?? 10000),
+  });
+}
+
+/**
+ * Parse a `Retry-After` header given in seconds, capped at the longest retry delay
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  const seconds = Number(header ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0
+    ? Math.min(seconds * 1000, MAX_RETRY_DELAY)
+    : undefined;
+}
+
+/**
+ * Convert a completed span to its OTLP JSON form
+ */
+function toOtlpSpan(span: SpanData): Record<string, unknown> {
+  return {
+    traceId: span.context.traceId,
+    spanId: span.context.spanId,
+    ...(span.context.parentSpanId && { parentSpanId: span.context.parentSpanId }),
+    ...(span.context.traceState && { traceState: span.context.traceState }),
+    name: span.name,
+    kind: OTLP_SPAN_KINDS[span.kind],
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map(event => ({
+      name: event.name,
+      timeUnixNano: toUnixNano(event.time),
+      attributes: toOtlpAttributes(event.attributes ?? {}),
+    })),
+    status: {
+      code: OTLP_STATUS_CODES[span.status.code],
+      ...(span.status.message && { message: span.status.message }),
+    },
+  };
+}
+
+/**
+ * Convert attributes to OTLP key-value pairs
+ *
+ * @param attributes - Attributes or labels
+ * @returns OTLP JSON attributes
+ */
+export function toOtlpAttributes(
+  attributes: Readonly<Record<string, SpanAttributeValue>>
+): OtlpAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+/**
+ * Convert milliseconds since the epoch to the decimal nanosecond string OTLP JSON uses
+ *
+ * @param time - Milliseconds since the epoch
+ * @returns Nanoseconds since the epoch
+ */
+export function toUnixNano(time: number): string {
+  const milliseconds = Math.floor(time);
+  const nanoseconds = Math.round((time - milliseconds) * 1e6);
+  return (BigInt(milliseconds) * 1000000n + BigInt(nanoseconds)).toString();
+}
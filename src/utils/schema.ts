@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Zod to JSON Schema Conversion
+ *
+ * This module converts the Zod schemas declared on MCP tools into JSON Schema
+ * (draft 2020-12) documents that clients can use for argument validation and
+ * form generation. Converted tool schemas are cached per tool instance so that
+ * `tools/list`, the REST tool listing and Swagger generation share one result.
+ *
+ * Supported Zod types:
+ * - Primitives, literals, enums and native enums
+ * - Objects (required/optional keys, strict/passthrough/catchall), records
+ * - Arrays, tuples and sets
+ * - Unions, discriminated unions and intersections
+ * - Optional, nullable and default wrappers
+ * - Effects, pipelines, brands, readonly and catch wrappers (input side)
+ * - Descriptions via `.describe()`
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+import { JsonSchema, McpTool } from '../types/index.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * JSON Schema dialect emitted by the converter
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Conversion options
+ */
+export interface ZodToJsonSchemaOptions {
+  /** Add the `$schema` dialect keyword to the root schema */
+  readonly includeDialect?: boolean;
+}
+
+/**
+ * Converted input schemas, keyed by tool instance
+ */
+const toolSchemaCache = new WeakMap<McpTool, JsonSchema>();
+
+/**
+ * Converted output schemas, keyed by tool instance
+ */
+const outputSchemaCache = new WeakMap<McpTool, JsonSchema>();
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Convert a Zod schema to JSON Schema (draft 2020-12)
+ *
+ * Schemas describe the accepted input: transforms and refinements are
+ * unwrapped to the schema they validate, and keys with defaults are optional.
+ *
+ * @param schema - Zod schema to convert
+ * @param options - Conversion options
+ * @returns JSON Schema document
+ */
+export function zodToJsonSchema(
+  schema: ZodTypeAny,
+  options: ZodToJsonSchemaOptions = {}
+): JsonSchema {
+  const converted = convert(schema, new Set());
+
+  return options.includeDialect ? { $schema: JSON_SCHEMA_DIALECT, ...converted } : converted;
+}
+
+/**
+ * Get the JSON Schema describing a tool's input parameters
+ *
+ * The result is computed once per tool instance and cached.
+ *
+ * @param tool - Tool whose parameters schema should be converted
+ * @returns Cached JSON Schema for the tool input
+ */
+export function getToolInputSchema(tool: McpTool): JsonSchema {
+  let schema = toolSchemaCache.get(tool);
+
+  if (!schema) {
+    schema = zodToJsonSchema(tool.parameters as ZodTypeAny, { includeDialect: true });
+    toolSchemaCache.set(tool, schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Get the JSON Schema describing a tool's structured output
+ *
+ * @param tool - Tool whose output schema should be converted
+ * @returns Cached JSON Schema, or undefined when the tool declares none
+ */
+export function getToolOutputSchema(tool: McpTool): JsonSchema | undefined {
+  if (!tool.outputSchema) {
+    return undefined;
+  }
+
+  let schema = outputSchemaCache.get(tool);
+
+  if (!schema) {
+    schema = zodToJsonSchema(tool.outputSchema, { includeDialect: true });
+    outputSchemaCache.set(tool, schema);
+  }
+
+  return schema;
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Convert a schema, attaching its description if one was set
+ */
+function convert(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  // Recursive (lazy) schemas are emitted as unconstrained past the first cycle
+  if (seen.has(schema)) {
+    return {};
+  }
+
+  seen.add(schema);
+  const result = convertType(schema, seen);
+  seen.delete(schema);
+
+  if (schema.description && result.description === undefined) {
+    result.description = schema.description;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a schema according to its Zod type
+ */
+function convertType(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString);
+
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber);
+
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return convertLiteral(def.value);
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return convertNativeEnum(def.values);
+
+    case ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject, seen);
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: 'object',
+        additionalProperties: convert(def.valueType, seen),
+      };
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: convert(def.type, seen) };
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value;
+        result.maxItems = def.exactLength.value;
+      }
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const items = def.items as ZodTypeAny[];
+      return {
+        type: 'array',
+        prefixItems: items.map(item => convert(item, seen)),
+        items: def.rest ? convert(def.rest, seen) : false,
+        minItems: items.length,
+        ...(def.rest ? {} : { maxItems: items.length }),
+      };
+    }
+
+    case ZodFirstPartyTypeKind.ZodSet: {
+      const result: JsonSchema = {
+        type: 'array',
+        uniqueItems: true,
+        items: convert(def.valueType, seen),
+      };
+      if (def.minSize) result.minItems = def.minSize.value;
+      if (def.maxSize) result.maxItems = def.maxSize.value;
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return convertUnion(Array.from(def.options as Iterable<ZodTypeAny>), seen);
+
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, seen), convert(def.right, seen)] };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, seen);
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [convert(def.innerType, seen), { type: 'null' }] };
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, seen), default: def.defaultValue() };
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, seen);
+
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(def.in, seen);
+
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.type, seen);
+
+    case ZodFirstPartyTypeKind.ZodReadonly:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return convert(def.innerType, seen);
+
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return convert(def.getter(), seen);
+
+    case ZodFirstPartyTypeKind.ZodNever:
+    case ZodFirstPartyTypeKind.ZodUndefined:
+    case ZodFirstPartyTypeKind.ZodVoid:
+      return { not: {} };
+
+    // any, unknown and types without a JSON representation
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert a string schema and its checks
+ */
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'email':
+        result.format = 'email';
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'uuid':
+        result.format = 'uuid';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      case 'date':
+        result.format = 'date';
+        break;
+      case 'time':
+        result.format = 'time';
+        break;
+      case 'ip':
+        result.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a number schema and its checks
+ */
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) result.minimum = check.value;
+        else result.exclusiveMinimum = check.value;
+        break;
+      case 'max':
+        if (check.inclusive) result.maximum = check.value;
+        else result.exclusiveMaximum = check.value;
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a literal value to a `const` schema
+ */
+function convertLiteral(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: 'null', const: null };
+  }
+
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean') {
+    return { type, const: value };
+  }
+
+  // undefined, bigint and symbol literals have no JSON representation
+  return {};
+}
+
+/**
+ * Convert a TypeScript enum object, skipping numeric reverse mappings
+ */
+function convertNativeEnum(values: Record<string, string | number>): JsonSchema {
+  const enumValues = Object.keys(values)
+    .filter(key => typeof values[values[key]!] !== 'number')
+    .map(key => values[key]!);
+  const types = Array.from(new Set(enumValues.map(value => typeof value)));
+
+  return {
+    type: types.length === 1 ? types[0] : types,
+    enum: enumValues,
+  };
+}
+
+/**
+ * Convert an object schema, deriving `required` from key optionality
+ */
+function convertObject(schema: z.AnyZodObject, seen: Set<ZodTypeAny>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+    properties[key] = convert(value, seen);
+
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+
+  if (required.length > 0) {
+    result.required = required;
+  }
+
+  const catchall = schema._def.catchall as ZodTypeAny;
+  if (catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+    result.additionalProperties = convert(catchall, seen);
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  } else if (schema._def.unknownKeys === 'passthrough') {
+    result.additionalProperties = true;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a union, collapsing unions of primitive literals into an `enum`
+ */
+function convertUnion(options: ZodTypeAny[], seen: Set<ZodTypeAny>): JsonSchema {
+  const literals = options.every(
+    option =>
+      option._def.typeName === ZodFirstPartyTypeKind.ZodLiteral &&
+      ['string', 'number', 'boolean'].includes(typeof option._def.value) &&
+      !option.description
+  );
+
+  if (literals) {
+    const values = options.map(option => option._def.value);
+    const types = Array.from(new Set(values.map(value => typeof value)));
+
+    return {
+      type: types.length === 1 ? types[0] : types,
+      enum: values,
+    };
+  }
+
+  return { anyOf: options.map(option => convert(option, seen)) };
+}
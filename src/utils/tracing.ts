@@ -0,0 +1,446 @@
+/**
+ * @fileoverview Distributed Tracing
+ *
+ * This module records OpenTelemetry-compatible spans for MCP requests and
+ * tool executions. Trace context arrives with requests as W3C `traceparent`
+ * and `tracestate` values, either as HTTP headers or in a request's `_meta`,
+ * and the active span follows the request through async calls so child spans
+ * and log lines can be correlated with it.
+ *
+ * Features:
+ * - W3C Trace Context parsing and formatting
+ * - Parent-based sampling with a configurable ratio for new traces
+ * - Active span tracking with AsyncLocalStorage
+ * - Pluggable span exporters (OTLP/HTTP by default)
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import type { Logger } from 'winston';
+
+import {
+  SpanAttributeValue,
+  SpanContext,
+  SpanData,
+  SpanExporter,
+  SpanKind,
+  TelemetryConfig,
+} from '../types/index.js';
+import { OtlpTraceExporter } from './otlp.js';
+
+// =============================================================================
+// Constants and Types
+// =============================================================================
+
+/**
+ * Header and `_meta` key carrying the W3C trace parent
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * Header and `_meta` key carrying the W3C vendor trace state
+ */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/**
+ * Trace flag marking a trace as sampled
+ */
+const SAMPLED_FLAG = 0x01;
+
+/**
+ * `traceparent` format: version, trace id, parent span id and flags
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** Role of the span (default: 'internal') */
+  readonly kind?: SpanKind;
+  /** Parent span context; defaults to the active span */
+  readonly parent?: SpanContext;
+  readonly attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Span currently active for each async execution context
+ */
+const activeSpan = new AsyncLocalStorage<Span>();
+
+// =============================================================================
+// W3C Trace Context
+// =============================================================================
+
+/**
+ * Parse a W3C `traceparent` value
+ *
+ * @param traceparent - `traceparent` value
+ * @param tracestate - `tracestate` value to carry along
+ * @returns Remote span context, or undefined when the value is malformed
+ */
+export function parseTraceparent(
+  traceparent: string,
+  tracestate?: string
+): SpanContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden, and version 00 has no further fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return undefined;
+  }
+  if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) {
+    return undefined;
+  }
+
+  return {
+    traceId: traceId!,
+    spanId: spanId!,
+    traceFlags: parseInt(flags!, 16),
+    ...(tracestate && { traceState: tracestate }),
+  };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` value
+ *
+ * @param context - Span context
+ * @returns `traceparent` value naming the span as the parent
+ */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = (context.traceFlags ?? 0).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Extract the caller's trace context from a request
+ *
+ * Context in the request's `_meta` wins over HTTP headers, since it belongs
+ * to the single MCP request rather than the connection carrying it.
+ *
+ * @param headers - HTTP request headers, when the transport has them
+ * @param meta - The request's `params._meta`
+ * @returns Remote span context, or undefined when the request carries none
+ */
+export function extractTraceContext(
+  headers?: Readonly<Record<string, string | string[] | undefined>>,
+  meta?: Readonly<Record<string, unknown>>
+): SpanContext | undefined {
+  if (typeof meta?.[TRACEPARENT_HEADER] === 'string') {
+    const tracestate = meta[TRACESTATE_HEADER];
+    return parseTraceparent(
+      meta[TRACEPARENT_HEADER],
+      typeof tracestate === 'string' ? tracestate : undefined
+    );
+  }
+
+  // Several traceparent headers make the context ambiguous, so it is ignored
+  const traceparent = headers?.[TRACEPARENT_HEADER];
+  if (typeof traceparent !== 'string') {
+    return undefined;
+  }
+  const tracestate = headers?.[TRACESTATE_HEADER];
+  return parseTraceparent(
+    traceparent,
+    Array.isArray(tracestate) ? tracestate.join(',') : tracestate
+  );
+}
+
+/**
+ * Get the span of the current async execution context
+ *
+ * @returns Active span, or undefined outside any traced operation
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+// =============================================================================
+// Span
+// =============================================================================
+
+/**
+ * A timed operation within a trace
+ *
+ * Spans of unsampled traces still carry ids, so context propagates and logs
+ * correlate, but record nothing and are never exported.
+ */
+export class Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly context: SpanContext;
+  private readonly _startTime = now();
+  private readonly _attributes: Record<string, SpanAttributeValue>;
+  private readonly _events: SpanData['events'][number][] = [];
+  private _status: SpanData['status'] = { code: 'unset' };
+  private _ended = false;
+  private readonly _onEnd: (span: SpanData) => void;
+
+  /**
+   * Create a span; use {@link Tracer.startSpan} instead
+   *
+   * @param name - Operation name
+   * @param kind - Role of the span
+   * @param context - Ids and flags of the span
+   * @param attributes - Initial attributes
+   * @param onEnd - Receives the completed span of a sampled trace
+   */
+  constructor(
+    name: string,
+    kind: SpanKind,
+    context: SpanContext,
+    attributes: Record<string, SpanAttributeValue>,
+    onEnd: (span: SpanData) => void
+  ) {
+    this.name = name;
+    this.kind = kind;
+    this.context = context;
+    this._attributes = { ...attributes };
+    this._onEnd = onEnd;
+  }
+
+  /**
+   * Whether the span records data, i.e. belongs to a sampled trace and has not ended
+   */
+  get isRecording(): boolean {
+    return !this._ended && ((this.context.traceFlags ?? 0) & SAMPLED_FLAG) !== 0;
+  }
+
+  /**
+   * Set an attribute
+   *
+   * @param key - Attribute name, following OpenTelemetry semantic conventions where one exists
+   * @param value - Attribute value
+   */
+  setAttribute(key: string, value: SpanAttributeValue): void {
+    if (this.isRecording) {
+      this._attributes[key] = value;
+    }
+  }
+
+  /**
+   * Record an event at the current time
+   *
+   * @param name - Event name
+   * @param attributes - Event attributes
+   */
+  addEvent(name: string, attributes?: Record<string, SpanAttributeValue>): void {
+    if (this.isRecording) {
+      this._events.push({ name, time: now(), ...(attributes && { attributes }) });
+    }
+  }
+
+  /**
+   * Record an error as an `exception` event and mark the span failed
+   *
+   * @param error - Error the operation failed with
+   */
+  recordException(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message,
+    });
+    this.setStatus('error', message);
+  }
+
+  /**
+   * Set the outcome of the operation
+   *
+   * @param code - 'ok' or 'error'
+   * @param message - Error description
+   */
+  setStatus(code: 'ok' | 'error', message?: string): void {
+    if (this.isRecording) {
+      this._status = { code, ...(message && { message }) };
+    }
+  }
+
+  /**
+   * End the span and hand it to the exporter; later calls are ignored
+   */
+  end(): void {
+    if (!this.isRecording) {
+      this._ended = true;
+      return;
+    }
+    this._ended = true;
+
+    this._onEnd({
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      startTime: this._startTime,
+      endTime: now(),
+      attributes: this._attributes,
+      events: this._events,
+      status: this._status,
+    });
+  }
+}
+
+// =============================================================================
+// Tracer
+// =============================================================================
+
+/**
+ * Creates spans and sends the sampled ones to an exporter
+ *
+ * @example
+ * ```typescript
+ * const tracer = createTracer(config.telemetry);
+ *
+ * const result = await tracer.trace('tools/call', { kind: 'server' }, async span => {
+ *   span?.setAttribute('gen_ai.tool.name', 'echo');
+ *   return callTool();
+ * });
+ * ```
+ */
+export class Tracer {
+  private readonly _config?: TelemetryConfig;
+  private readonly _exporter?: SpanExporter;
+
+  /**
+   * Create a tracer
+   *
+   * @param config - Telemetry settings; tracing is off when absent or disabled
+   * @param exporter - Destination of sampled spans
+   */
+  constructor(config?: TelemetryConfig, exporter?: SpanExporter) {
+    this._config = config;
+    this._exporter = exporter;
+  }
+
+  /**
+   * Whether tracing is enabled
+   */
+  get enabled(): boolean {
+    return Boolean(this._config?.enabled && this._config.traces.enabled);
+  }
+
+  /**
+   * Start a span; it must be ended by the caller
+   *
+   * A span joins its parent's trace and sampling decision. A span without a
+   * parent starts a new trace, sampled at the configured rate.
+   *
+   * @param name - Operation name
+   * @param options - Kind, parent and initial attributes
+   * @returns Started span
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent ?? getActiveSpan()?.context;
+    const traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+    const sampled = parent
+      ? ((parent.traceFlags ?? 0) & SAMPLED_FLAG) !== 0
+      : isSampled(traceId, this._config?.traces.sampleRate ?? 1);
+
+    const context: SpanContext = {
+      traceId,
+      spanId: randomBytes(8).toString('hex'),
+      traceFlags: sampled ? SAMPLED_FLAG : 0,
+      ...(parent && { parentSpanId: parent.spanId }),
+      ...(parent?.traceState && { traceState: parent.traceState }),
+    };
+
+    return new Span(name, options.kind ?? 'internal', context, options.attributes ?? {}, span =>
+      this._exporter?.export(span)
+    );
+  }
+
+  /**
+   * Run an operation in a new span that is active while it runs
+   *
+   * A thrown error is recorded on the span and rethrown. When tracing is
+   * disabled the operation runs without a span.
+   *
+   * @param name - Operation name
+   * @param options - Kind, parent and initial attributes
+   * @param operation - Operation to run; receives the span for adding attributes
+   * @returns Result of the operation
+   */
+  async trace<T>(
+    name: string,
+    options: SpanOptions,
+    operation: (span?: Span) => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled) {
+      return operation();
+    }
+
+    const span = this.startSpan(name, options);
+    try {
+      return await activeSpan.run(span, () => operation(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Send every completed span still queued
+   */
+  async flush(): Promise<void> {
+    await this._exporter?.flush();
+  }
+
+  /**
+   * Send queued spans and stop exporting
+   */
+  async shutdown(): Promise<void> {
+    await this._exporter?.shutdown();
+  }
+}
+
+/**
+ * Create the tracer for a server's telemetry settings
+ *
+ * Spans are exported over OTLP/HTTP when an endpoint is configured.
+ *
+ * @param config - Telemetry settings
+ * @param logger - Logger for export failures
+ * @returns Tracer; disabled when tracing is not configured
+ */
+export function createTracer(config?: TelemetryConfig, logger?: Logger): Tracer {
+  const tracing = config?.enabled && config.traces.enabled;
+  const exporter =
+    tracing && config.endpoint
+      ? new OtlpTraceExporter({
+          endpoint: config.endpoint,
+          serviceName: config.serviceName,
+          serviceVersion: config.serviceVersion,
+          logger,
+        })
+      : undefined;
+
+  return new Tracer(config, exporter);
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Current time in milliseconds since the epoch, with sub-millisecond precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Decide whether to sample a new trace from its id, so every service
+ * sampling at the same rate makes the same decision
+ */
+function isSampled(traceId: string, sampleRate: number): boolean {
+  return parseInt(traceId.slice(-8), 16) / 0x100000000 < sampleRate;
+}
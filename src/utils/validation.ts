@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Tool Argument Validation
+ *
+ * This module validates tool call arguments against each tool's Zod
+ * `parameters` schema before execution, so tools receive parsed values with
+ * defaults applied and callers receive structured, field-level errors.
+ *
+ * Features:
+ * - Central `parameters.safeParse()` for every transport
+ * - Field paths, messages and issue codes for each failure
+ * - Mapping to JSON-RPC `-32602 Invalid params` for the MCP protocol path
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ZodError } from 'zod';
+
+import { McpTool, ToolValidationError, ValidationIssue } from '../types/index.js';
+
+/**
+ * Validate arguments against a tool's parameters schema
+ *
+ * @param tool - Tool whose parameters schema should be applied
+ * @param args - Raw arguments received from the caller
+ * @returns Parsed arguments with defaults and transforms applied
+ * @throws ToolValidationError if the arguments do not match the schema
+ */
+export function validateToolArguments(tool: McpTool, args: unknown): unknown {
+  const result = tool.parameters.safeParse(args);
+
+  if (!result.success) {
+    throw new ToolValidationError(tool.name, formatZodIssues(result.error));
+  }
+
+  return result.data;
+}
+
+/**
+ * Convert a Zod error into field-level validation issues
+ *
+ * @param error - Zod error to convert
+ * @returns Validation issues with dotted field paths
+ */
+export function formatZodIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Map a tool validation error to a JSON-RPC `Invalid params` error
+ *
+ * @param error - Validation error raised for the tool call
+ * @returns MCP error carrying the issues in its `data` field
+ */
+export function toInvalidParamsError(error: ToolValidationError): McpError {
+  return new McpError(ErrorCode.InvalidParams, error.message, {
+    tool: error.toolName,
+    issues: error.issues,
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Request Authentication Tests
+ *
+ * Tests for the configured authentication methods and for the authenticated
+ * user reaching middleware and tools over the builder, JSON-RPC and REST.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import request from 'supertest';
+import { z } from 'zod';
+import { createAuthenticator, toUserContext, UNAUTHENTICATED } from '../../src/auth/index.js';
+import { BaseMcpServer, ServerBuilder } from '../../src/core/server.js';
+import { HttpMcpServerFactory } from '../../src/transport/http-server.js';
+import {
+  AuthConfig,
+  AuthenticationError,
+  McpTool,
+  ServerConfigError,
+  UserContext,
+} from '../../src/types/index.js';
+
+const alice: UserContext = { id: 'alice', roles: ['admin'], permissions: ['deploy'] };
+
+const apiKeyAuth: AuthConfig = {
+  method: 'api-key',
+  required: true,
+  options: { keys: { 'key-alice': alice } },
+};
+
+/**
+ * Tool that returns the id of the user it was called by
+ */
+const whoamiTool: McpTool = {
+  name: 'whoami',
+  description: 'Return the calling user',
+  parameters: z.object({}),
+  category: 'utility',
+  version: '1.0.0',
+  examples: [],
+  execute: async (_params, context) => ({ success: true, data: context?.user?.id ?? null }),
+};
+
+describe('createAuthenticator', () => {
+  it('should resolve users from API keys and reject unknown keys', async () => {
+    const authenticate = createAuthenticator(apiKeyAuth);
+
+    await expect(
+      authenticate({ headers: { 'x-api-key': 'key-alice' }, transport: 'http' })
+    ).resolves.toBe(alice);
+    await expect(
+      authenticate({ headers: { 'x-api-key': 'key-mallory' }, transport: 'http' })
+    ).rejects.toThrow(new AuthenticationError('Invalid API key'));
+    await expect(authenticate({ headers: {}, transport: 'stdio' })).rejects.toThrow(
+      'Authentication required'
+    );
+  });
+
+  it('should allow anonymous requests when authentication is optional', async () => {
+    const authenticate = createAuthenticator({ ...apiKeyAuth, required: false });
+
+    await expect(authenticate({ headers: {}, transport: 'http' })).resolves.toBeUndefined();
+  });
+
+  it('should check bearer tokens against static tokens and the verify callback', async () => {
+    const authenticate = createAuthenticator({
+      method: 'bearer',
+      required: true,
+      options: {
+        tokens: { 'static-token': alice },
+        verify: async (token: string) =>
+          token === 'issued-token' ? { id: 'bob', roles: [], permissions: [] } : undefined,
+      },
+    });
+
+    await expect(
+      authenticate({ headers: { authorization: 'Bearer static-token' }, transport: 'http' })
+    ).resolves.toBe(alice);
+    await expect(
+      authenticate({ headers: { authorization: 'bearer issued-token' }, transport: 'http' })
+    ).resolves.toMatchObject({ id: 'bob' });
+    await expect(
+      authenticate({ headers: { authorization: 'Bearer forged' }, transport: 'http' })
+    ).rejects.toThrow('Invalid bearer token');
+  });
+
+  it('should pass basic credentials to the verify callback', async () => {
+    const authenticate = createAuthenticator({
+      method: 'basic',
+      required: true,
+      options: {
+        verify: async (username: string, password: string) =>
+          username === 'alice' && password === 's3cr:et' ? alice : undefined,
+      },
+    });
+    const encode = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+    await expect(
+      authenticate({ headers: { authorization: encode('alice:s3cr:et') }, transport: 'http' })
+    ).resolves.toBe(alice);
+    await expect(
+      authenticate({ headers: { authorization: encode('alice:wrong') }, transport: 'http' })
+    ).rejects.toThrow('Invalid username or password');
+  });
+
+  it('should reject options that do not fit the method', () => {
+    expect(() => createAuthenticator({ method: 'api-key', required: true, options: {} })).toThrow(
+      ServerConfigError
+    );
+    expect(() => createAuthenticator({ method: 'basic', required: true, options: {} })).toThrow(
+      ServerConfigError
+    );
+  });
+});
+
+describe('toUserContext', () => {
+  it('should map token claims to a user', () => {
+    expect(
+      toUserContext({ sub: 'svc-1', name: 'Deployer', roles: ['ops'], scope: 'read write' })
+    ).toMatchObject({
+      id: 'svc-1',
+      name: 'Deployer',
+      roles: ['ops'],
+      permissions: ['read', 'write'],
+    });
+    expect(() => toUserContext({ scope: 'read' })).toThrow(AuthenticationError);
+  });
+});
+
+describe('ServerBuilder.withAuth', () => {
+  it('should hand the authenticated user to middleware and tools', async () => {
+    const seen: Array<string | undefined> = [];
+    const server = (await new ServerBuilder()
+      .withConfig({ name: 'auth-server', version: '1.0.0' })
+      .withTool(whoamiTool)
+      .withMiddleware({
+        name: 'audit',
+        before: context => {
+          seen.push(context.user?.id);
+        },
+      })
+      .withAuth(apiKeyAuth)
+      .build()) as BaseMcpServer;
+
+    const result = await server.callTool(
+      'whoami',
+      {},
+      { transport: 'http', headers: { 'x-api-key': 'key-alice' } }
+    );
+
+    expect(result).toMatchObject({ success: true, data: 'alice' });
+    expect(seen).toEqual(['alice']);
+
+    // A user supplied by the transport does not bypass the authenticator
+    await expect(server.callTool('whoami', {}, { user: alice })).rejects.toThrow(
+      AuthenticationError
+    );
+  });
+
+  it('should reject unauthenticated JSON-RPC tool calls', async () => {
+    const server = new BaseMcpServer({ name: 'auth-server', version: '1.0.0' });
+    server.registerTool(whoamiTool);
+    server.configureAuth(apiKeyAuth);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    try {
+      await expect(client.callTool({ name: 'whoami', arguments: {} })).rejects.toMatchObject({
+        code: UNAUTHENTICATED,
+      });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should authenticate REST and /rpc tool calls from request headers', async () => {
+    const server = HttpMcpServerFactory.createDevelopment({
+      name: 'auth-server',
+      version: '1.0.0',
+      enableStdio: false,
+      http: {
+        port: 8700 + Math.floor(Math.random() * 100),
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+    server.registerTool(whoamiTool);
+    server.configureAuth(apiKeyAuth);
+    await server.start();
+
+    try {
+      const app = (server.httpTransport as any)._app;
+
+      const rest = await request(app)
+        .post('/mcp/tools/whoami')
+        .set('X-API-Key', 'key-alice')
+        .send({})
+        .expect(200);
+      expect(rest.body).toMatchObject({ success: true, data: 'alice' });
+
+      await request(app).post('/mcp/tools/whoami').send({}).expect(401);
+
+      const rpc = await request(app)
+        .post('/mcp/rpc')
+        .set('X-API-Key', 'key-mallory')
+        .send({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tools/call',
+          params: { name: 'whoami', arguments: {} },
+        })
+        .expect(200);
+      expect(rpc.body.error).toMatchObject({ code: UNAUTHENTICATED });
+    } finally {
+      await server.stop();
+    }
+  });
+});
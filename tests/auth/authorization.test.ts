@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Tool Authorization Tests
+ *
+ * Tests for tool and category access policies, filtering of tool listings,
+ * and rejection of unauthorized calls over JSON-RPC and REST.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import request from 'supertest';
+import { z } from 'zod';
+import { FORBIDDEN, isToolAuthorized } from '../../src/auth/index.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { HttpMcpServerFactory } from '../../src/transport/http-server.js';
+import {
+  AuthConfig,
+  AuthorizationConfig,
+  AuthorizationError,
+  McpTool,
+  ToolAccessPolicy,
+  ToolCategory,
+  UserContext,
+} from '../../src/types/index.js';
+
+function createTool(name: string, category: ToolCategory, access?: ToolAccessPolicy): McpTool {
+  return {
+    name,
+    description: `${name} tool`,
+    parameters: z.object({}),
+    category,
+    version: '1.0.0',
+    examples: [],
+    ...(access && { access }),
+    execute: async () => ({ success: true, data: name }),
+  };
+}
+
+const operator: UserContext = { id: 'olga', roles: ['operator'], permissions: ['db:write'] };
+const analyst: UserContext = { id: 'ana', roles: ['analyst'], permissions: ['db:read'] };
+
+// Database tools need an operator unless they say otherwise
+const authorization: AuthorizationConfig = {
+  categories: { database: { roles: ['operator', 'dba'] } },
+};
+
+const tools = [
+  createTool('query', 'database', { permissions: ['db:read'] }),
+  createTool('run_migration', 'database'),
+  createTool('restore_backup', 'database', { roles: ['operator'], permissions: ['db:write'] }),
+  createTool('echo', 'utility'),
+];
+
+const auth: AuthConfig = {
+  method: 'api-key',
+  required: false,
+  options: { keys: { 'key-olga': operator, 'key-ana': analyst } },
+};
+
+describe('isToolAuthorized', () => {
+  it('should apply the tool policy, else the category policy', () => {
+    const [query, migrate, restore, echo] = tools;
+
+    expect(isToolAuthorized(query!, analyst, authorization)).toBe(true);
+    expect(isToolAuthorized(query!, operator, authorization)).toBe(false);
+    expect(isToolAuthorized(migrate!, operator, authorization)).toBe(true);
+    expect(isToolAuthorized(migrate!, analyst, authorization)).toBe(false);
+    expect(isToolAuthorized(restore!, { ...operator, permissions: [] }, authorization)).toBe(false);
+    expect(isToolAuthorized(echo!, undefined, authorization)).toBe(true);
+    expect(isToolAuthorized(migrate!, undefined, authorization)).toBe(false);
+  });
+});
+
+describe('BaseMcpServer authorization', () => {
+  let server: BaseMcpServer;
+  let warn: jest.SpiedFunction<(...args: any[]) => any>;
+
+  beforeEach(() => {
+    server = new BaseMcpServer({
+      name: 'db-server',
+      version: '1.0.0',
+      security: {
+        enableAuth: true,
+        rateLimiting: { enabled: false, windowMs: 60000, maxRequests: 100 },
+        cors: { enabled: false, origins: [], methods: [] },
+        authorization,
+      },
+    });
+    server.registerTools(tools);
+    server.configureAuth(auth);
+    warn = jest.spyOn((server as any)._logger, 'log');
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('should reject calls the caller is not authorized for and log a security event', async () => {
+    await expect(
+      server.callTool('run_migration', {}, { headers: { 'x-api-key': 'key-olga' } })
+    ).resolves.toMatchObject({ success: true });
+
+    await expect(
+      server.callTool('run_migration', {}, { headers: { 'x-api-key': 'key-ana' } })
+    ).rejects.toThrow(AuthorizationError);
+
+    expect(warn).toHaveBeenCalledWith(
+      'warn',
+      'Security event: tool_authorization',
+      expect.objectContaining({ result: 'failure', toolName: 'run_migration', userId: 'ana' })
+    );
+  });
+
+  it('should list and allow only permitted tools over JSON-RPC', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    try {
+      // The in-memory transport carries no headers, so the caller is anonymous
+      const { tools: listed } = await client.listTools();
+      expect(listed.map(tool => tool.name)).toEqual(['echo']);
+
+      await expect(
+        client.callTool({ name: 'restore_backup', arguments: {} })
+      ).rejects.toMatchObject({ code: FORBIDDEN });
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe('HttpMcpServer authorization', () => {
+  it('should filter GET /tools and answer unauthorized calls with 403', async () => {
+    const server = HttpMcpServerFactory.createDevelopment({
+      name: 'db-server',
+      version: '1.0.0',
+      enableStdio: false,
+      security: {
+        enableAuth: true,
+        rateLimiting: { enabled: false, windowMs: 60000, maxRequests: 100 },
+        cors: { enabled: false, origins: [], methods: [] },
+        authorization,
+      },
+      http: {
+        port: 8600 + Math.floor(Math.random() * 100),
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+    server.registerTools(tools);
+    server.configureAuth(auth);
+    await server.start();
+
+    try {
+      const app = (server.httpTransport as any)._app;
+
+      const operatorList = await request(app)
+        .get('/mcp/tools')
+        .set('X-API-Key', 'key-olga')
+        .expect(200);
+      expect(operatorList.body.tools.map((tool: McpTool) => tool.name)).toEqual([
+        'run_migration',
+        'restore_backup',
+        'echo',
+      ]);
+
+      const analystList = await request(app).get('/mcp/tools').set('X-API-Key', 'key-ana');
+      expect(analystList.body.tools.map((tool: McpTool) => tool.name)).toEqual(['query', 'echo']);
+
+      await request(app)
+        .post('/mcp/tools/restore_backup')
+        .set('X-API-Key', 'key-ana')
+        .send({})
+        .expect(403);
+      await request(app).get('/mcp/tools').set('X-API-Key', 'key-unknown').expect(401);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview JWT Token Issuer Tests
+ *
+ * Tests for issuing access tokens with roles and permissions, rotating
+ * refresh tokens with reuse detection, revocation, and signing key rotation.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { JwtTokenIssuer } from '../../src/auth/index.js';
+import { AuthenticationError, ServerConfigError, UserContext } from '../../src/types/index.js';
+
+const user: UserContext = { id: 'ci', roles: ['deployer'], permissions: ['tools:call'] };
+
+function createIssuer(): JwtTokenIssuer {
+  return new JwtTokenIssuer({
+    enabled: true,
+    type: 'jwt',
+    jwtKeys: [{ kid: 'k1', secret: 'first-secret' }],
+    jwtExpiration: '5m',
+  });
+}
+
+describe('JwtTokenIssuer', () => {
+  it('should issue short-lived tokens carrying roles and permissions', async () => {
+    const issuer = createIssuer();
+    const tokens = issuer.issue(user);
+
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 300 });
+    expect(jwt.decode(tokens.access_token, { complete: true })?.header.kid).toBe('k1');
+    await expect(issuer.verify(tokens.access_token)).resolves.toMatchObject(user);
+  });
+
+  it('should spend refresh tokens and revoke the login when one is reused', async () => {
+    const issuer = createIssuer();
+    const first = issuer.issue(user);
+    const { tokens: second, user: refreshedUser } = issuer.refresh(first.refresh_token);
+
+    expect(refreshedUser).toEqual(user);
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+    await expect(issuer.verify(second.access_token)).resolves.toMatchObject({ id: 'ci' });
+
+    expect(() => issuer.refresh(first.refresh_token)).toThrow(AuthenticationError);
+    expect(() => issuer.refresh(second.refresh_token)).toThrow(AuthenticationError);
+    await expect(issuer.verify(second.access_token)).rejects.toThrow('revoked');
+  });
+
+  it('should revoke access tokens and refresh tokens', async () => {
+    const issuer = createIssuer();
+    const session = issuer.issue(user);
+    const other = issuer.issue(user);
+
+    issuer.revoke(session.access_token);
+    await expect(issuer.verify(session.access_token)).rejects.toThrow(AuthenticationError);
+    expect(() => issuer.refresh(session.refresh_token)).not.toThrow();
+
+    issuer.revoke(other.refresh_token);
+    expect(() => issuer.refresh(other.refresh_token)).toThrow(AuthenticationError);
+    await expect(issuer.verify(other.access_token)).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should ignore revocation of access tokens it did not sign', async () => {
+    const issuer = createIssuer();
+    const session = issuer.issue(user);
+    const claims = jwt.decode(session.access_token) as jwt.JwtPayload;
+    const forged = jwt.sign(claims, 'guessed-secret', { keyid: 'k1' });
+
+    issuer.revoke(forged);
+    issuer.revoke(jwt.sign({ jti: 'made-up', exp: claims.exp }, 'guessed-secret'));
+    await expect(issuer.verify(session.access_token)).resolves.toMatchObject({ id: 'ci' });
+    expect((issuer as any)._revokedIds.size).toBe(0);
+  });
+
+  it('should keep verifying tokens signed with a rotated key until it is retired', async () => {
+    const issuer = createIssuer();
+    const before = issuer.issue(user);
+
+    issuer.rotateKey({ kid: 'k2', secret: 'second-secret' });
+    const after = issuer.issue(user);
+
+    expect(jwt.decode(after.access_token, { complete: true })?.header.kid).toBe('k2');
+    await expect(issuer.verify(before.access_token)).resolves.toMatchObject({ id: 'ci' });
+
+    issuer.retireKey('k1');
+    await expect(issuer.verify(before.access_token)).rejects.toThrow('unknown key');
+    await expect(issuer.verify(after.access_token)).resolves.toMatchObject({ id: 'ci' });
+    expect(() => issuer.retireKey('k2')).toThrow(ServerConfigError);
+  });
+
+  it('should verify tokens without a key id against the configured secret', async () => {
+    const issuer = new JwtTokenIssuer({ enabled: true, type: 'jwt', jwtSecret: 'legacy' });
+    const token = jwt.sign({ sub: 'old-client' }, 'legacy');
+
+    await expect(issuer.verify(token)).resolves.toMatchObject({ id: 'old-client' });
+    expect(() => new JwtTokenIssuer({ enabled: true, type: 'jwt' })).toThrow(ServerConfigError);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Tool Result Content Tests
+ *
+ * Tests for converting tool results to MCP `tools/call` results: typed
+ * content blocks, structured output validation and error flagging.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { toCallToolResult } from '../../src/core/content.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { McpTool, ToolExecutionError, ToolResult } from '../../src/types/index.js';
+
+const chartOutput = z.object({
+  series: z.array(z.object({ label: z.string(), value: z.number() })),
+});
+
+function createTool(overrides: Partial<McpTool> = {}): McpTool {
+  return {
+    name: 'chart',
+    description: 'Render a chart',
+    parameters: z.object({}),
+    category: 'analytics',
+    version: '1.0.0',
+    examples: [],
+    execute: async () => ({ success: true }),
+    ...overrides,
+  };
+}
+
+describe('toCallToolResult', () => {
+  it('should pass typed content through and base64-encode binary data', () => {
+    const result: ToolResult = {
+      success: true,
+      content: [
+        { type: 'text', text: 'Weekly sales' },
+        { type: 'image', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]), mimeType: 'image/png' },
+        { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' },
+        { type: 'resource', resource: { uri: 'report://weekly', text: 'csv' } },
+        { type: 'resource_link', uri: 'report://weekly.csv', name: 'weekly.csv' },
+      ],
+    };
+
+    expect(toCallToolResult(createTool(), result).content).toEqual([
+      { type: 'text', text: 'Weekly sales' },
+      { type: 'image', data: 'iVBORw==', mimeType: 'image/png' },
+      { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' },
+      { type: 'resource', resource: { uri: 'report://weekly', text: 'csv' } },
+      { type: 'resource_link', uri: 'report://weekly.csv', name: 'weekly.csv' },
+    ]);
+  });
+
+  it('should derive text content from data', () => {
+    expect(toCallToolResult(createTool(), { success: true, data: 'done' })).toEqual({
+      content: [{ type: 'text', text: 'done' }],
+    });
+    expect(toCallToolResult(createTool(), { success: true, data: { n: 1 } }).content).toEqual([
+      { type: 'text', text: JSON.stringify({ n: 1 }, null, 2) },
+    ]);
+  });
+
+  it('should flag failures with isError and the error message', () => {
+    expect(toCallToolResult(createTool(), { success: false, error: 'No data' })).toEqual({
+      content: [{ type: 'text', text: 'No data' }],
+      isError: true,
+    });
+  });
+
+  it('should validate structured output against the output schema', () => {
+    const tool = createTool({ outputSchema: chartOutput });
+    const series = [{ label: 'Mon', value: 3 }];
+
+    expect(toCallToolResult(tool, { success: true, data: { series } })).toMatchObject({
+      structuredContent: { series },
+    });
+    expect(() =>
+      toCallToolResult(tool, { success: true, structuredContent: { series: 'none' } })
+    ).toThrow(ToolExecutionError);
+  });
+});
+
+describe('BaseMcpServer tool results', () => {
+  let client: Client;
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should advertise output schemas and return structured content', async () => {
+    const server = new BaseMcpServer({ name: 'analytics', version: '1.0.0' });
+    server.registerTool(
+      createTool({
+        outputSchema: chartOutput,
+        execute: async () => ({
+          success: true,
+          structuredContent: { series: [{ label: 'Mon', value: 3 }] },
+          content: [{ type: 'image', data: 'iVBORw==', mimeType: 'image/png' }],
+        }),
+      })
+    );
+
+    // Connect the underlying SDK server in-process instead of over stdio
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools[0]!.outputSchema).toMatchObject({ type: 'object', required: ['series'] });
+
+    const result = await client.callTool({ name: 'chart', arguments: {} });
+    expect(result).toEqual({
+      content: [{ type: 'image', data: 'iVBORw==', mimeType: 'image/png' }],
+      structuredContent: { series: [{ label: 'Mon', value: 3 }] },
+    });
+  });
+
+  it('should answer calls to tools unregistered while they run', async () => {
+    const server = new BaseMcpServer({ name: 'analytics', version: '1.0.0' });
+    server.registerTool(
+      createTool({
+        outputSchema: chartOutput,
+        execute: async () => {
+          server.unregisterTool('chart');
+          return { success: true, structuredContent: { series: [] } };
+        },
+      })
+    );
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'chart', arguments: {} });
+    expect(result).toMatchObject({ structuredContent: { series: [] } });
+    expect(result.isError).toBeUndefined();
+  });
+
+  it('should format results with the tool that ran when it is replaced or registered', async () => {
+    const server = new BaseMcpServer({ name: 'analytics', version: '1.0.0' });
+    const replacement = createTool({
+      version: '2.0.0',
+      outputSchema: z.object({ total: z.number() }),
+      execute: async () => ({ success: true, structuredContent: { total: 3 } }),
+    });
+    // Swaps the tool between the call's start and its lookup, as a plugin reload could
+    server.configureAuth({
+      method: 'custom',
+      required: false,
+      options: {
+        authenticate: async () => {
+          server.unregisterTool('chart');
+          server.registerTool(replacement);
+          return undefined;
+        },
+      },
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    server.registerTool(createTool({ outputSchema: chartOutput }));
+    const replaced = await client.callTool({ name: 'chart', arguments: {} });
+    expect(replaced).toMatchObject({ structuredContent: { total: 3 } });
+    expect(replaced.isError).toBeUndefined();
+
+    server.unregisterTool('chart');
+    const registered = await client.callTool({ name: 'chart', arguments: {} });
+    expect(registered).toMatchObject({ structuredContent: { total: 3 } });
+    expect(registered.isError).toBeUndefined();
+  });
+});
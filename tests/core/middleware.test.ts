@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Tool Middleware Tests
+ *
+ * Tests for the middleware chain around tool execution: hook ordering,
+ * argument rewriting, result replacement, error recovery, and the chain
+ * being applied to MCP and HTTP calls alike.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import request from 'supertest';
+import { z } from 'zod';
+import { runMiddleware } from '../../src/core/middleware.js';
+import { BaseMcpServer, createServerBuilder } from '../../src/core/server.js';
+import { HttpTransport } from '../../src/transport/http.js';
+import {
+  McpTool,
+  ToolCallContext,
+  ToolMiddleware,
+  ToolResult,
+  ToolValidationError,
+} from '../../src/types/index.js';
+
+const echoTool: McpTool = {
+  name: 'echo',
+  description: 'Echo a message',
+  parameters: z.object({ message: z.string() }),
+  category: 'utility',
+  version: '1.0.0',
+  examples: [],
+  execute: async params => ({ success: true, data: params }),
+};
+
+function createContext(args: unknown = { message: 'hi' }): ToolCallContext {
+  return { tool: echoTool, args, transport: 'stdio', state: new Map() };
+}
+
+/**
+ * Middleware that records every hook invocation
+ */
+function createTracer(name: string, log: string[]): ToolMiddleware {
+  return {
+    name,
+    before: () => {
+      log.push(`${name}:before`);
+    },
+    after: () => {
+      log.push(`${name}:after`);
+    },
+    error: () => {
+      log.push(`${name}:error`);
+    },
+  };
+}
+
+describe('runMiddleware', () => {
+  it('should run before hooks in order and after hooks in reverse', async () => {
+    const log: string[] = [];
+
+    await runMiddleware(
+      [createTracer('outer', log), createTracer('inner', log)],
+      createContext(),
+      async () => {
+        log.push('tool');
+        return { success: true };
+      }
+    );
+
+    expect(log).toEqual(['outer:before', 'inner:before', 'tool', 'inner:after', 'outer:after']);
+  });
+
+  it('should let before hooks rewrite arguments and after hooks replace results', async () => {
+    const redact: ToolMiddleware = {
+      name: 'redact',
+      before: context => {
+        context.args = { message: '[redacted]' };
+      },
+      after: (_context, result) => ({ ...result, data: { wrapped: result.data } }),
+    };
+
+    const result = await runMiddleware([redact], createContext(), async context =>
+      echoTool.execute(context.args)
+    );
+
+    expect(result.data).toEqual({ wrapped: { message: '[redacted]' } });
+  });
+
+  it('should run error hooks of entered middleware and allow recovery', async () => {
+    const log: string[] = [];
+    const fallback: ToolMiddleware = {
+      name: 'fallback',
+      error: (_context, error) => ({ success: false, error: `recovered: ${String(error)}` }),
+    };
+    const quota: ToolMiddleware = {
+      name: 'quota',
+      before: () => {
+        throw new Error('quota exceeded');
+      },
+    };
+
+    const result = await runMiddleware(
+      [createTracer('outer', log), fallback, quota, createTracer('never', log)],
+      createContext(),
+      async () => ({ success: true })
+    );
+
+    expect(result).toEqual({ success: false, error: 'recovered: Error: quota exceeded' });
+    expect(log).toEqual(['outer:before', 'outer:after']);
+  });
+
+  it('should rethrow when no error hook recovers', async () => {
+    const log: string[] = [];
+
+    await expect(
+      runMiddleware([createTracer('audit', log)], createContext(), async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(log).toEqual(['audit:before', 'audit:error']);
+  });
+});
+
+describe('BaseMcpServer middleware', () => {
+  let server: BaseMcpServer;
+  let calls: ToolCallContext[];
+
+  beforeEach(async () => {
+    calls = [];
+    server = (await createServerBuilder()
+      .withConfig({ name: 'middleware-server', version: '1.0.0' })
+      .withTool(echoTool)
+      .withMiddleware({
+        name: 'recorder',
+        before: context => {
+          calls.push(context);
+        },
+      })
+      .build()) as BaseMcpServer;
+  });
+
+  it('should validate arguments after before hooks run', async () => {
+    server.use({
+      name: 'defaults',
+      before: context => {
+        context.args = { message: 'default', ...(context.args as object) };
+      },
+    });
+
+    await expect(server.callTool('echo', {})).resolves.toMatchObject({
+      data: { message: 'default' },
+    });
+    await expect(server.callTool('echo', { message: 1 })).rejects.toBeInstanceOf(
+      ToolValidationError
+    );
+  });
+
+  describe('over MCP', () => {
+    let client: Client;
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('should pass the request id and transport to middleware', async () => {
+      // Connect the underlying SDK server in-process instead of over stdio
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await (server as any)._server.connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(clientTransport);
+
+      await client.callTool({ name: 'echo', arguments: { message: 'hi' } });
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0]).toMatchObject({ transport: 'stdio', args: { message: 'hi' } });
+      expect(calls[0]!.requestId).toBeDefined();
+      expect(calls[0]!.signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  it('should apply to REST tool calls routed through the server', async () => {
+    const transport = new HttpTransport(
+      { basePath: '/mcp', auth: { enabled: false } },
+      new Map([[echoTool.name, echoTool]])
+    );
+    transport.toolExecutor = (name, args, options) => server.callTool(name, args, options);
+
+    const response = await request((transport as any)._app)
+      .post('/mcp/tools/echo')
+      .send({ message: 'over http' });
+
+    expect(response.status).toBe(200);
+    expect((response.body as ToolResult).data).toEqual({ message: 'over http' });
+    expect(calls[0]).toMatchObject({ transport: 'http', args: { message: 'over http' } });
+  });
+});
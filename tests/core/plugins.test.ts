@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Tool Plugin Loader Tests
+ *
+ * Tests for discovering tool modules in plugin directories, isolating plugins
+ * that fail to load, and reloading plugins when their files change.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm, symlink, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { z } from 'zod';
+import { PluginLoader } from '../../src/core/plugins.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+
+/**
+ * Source of a plugin module exporting one tool per name
+ */
+function pluginSource(names: string[], reply = 'v1'): string {
+  const tools = names.map(
+    name => `{
+      name: '${name}',
+      description: '${name} tool',
+      parameters: z.object({}),
+      category: 'utility',
+      version: '1.0.0',
+      examples: [],
+      execute: async () => ({ success: true, data: '${reply}' }),
+    }`
+  );
+
+  return `import { z } from 'zod';\nexport default [${tools.join(', ')}];\n`;
+}
+
+/**
+ * Wait until an assertion passes or the timeout expires
+ */
+async function eventually(assertion: () => void | Promise<void>, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      await assertion();
+      return;
+    } catch (error) {
+      if (Date.now() > deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+}
+
+describe('PluginLoader', () => {
+  let directory: string;
+  let server: BaseMcpServer;
+  let loader: PluginLoader;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-plugins-'));
+    // Plugins are ES modules that resolve `zod` from the repository
+    await writeFile(join(directory, 'package.json'), '{ "type": "module" }');
+    await symlink(resolve('node_modules'), join(directory, 'node_modules'), 'dir');
+
+    server = new BaseMcpServer({ name: 'plugin-server', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    loader?.stop();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should register tools from plugin files and isolate failing plugins', async () => {
+    await writeFile(join(directory, 'a-weather.js'), pluginSource(['forecast', 'alerts']));
+    await writeFile(join(directory, 'b-broken.js'), "throw new Error('missing API key');");
+    await writeFile(join(directory, 'c-empty.js'), 'export const helper = 1;');
+    await writeFile(join(directory, 'notes.txt'), 'not a plugin');
+
+    loader = new PluginLoader(server, { directories: [directory], watch: false });
+    const results = await loader.start();
+
+    expect(results).toEqual([
+      { source: join(directory, 'a-weather.js'), tools: ['forecast', 'alerts'] },
+      {
+        source: join(directory, 'b-broken.js'),
+        tools: [],
+        error: 'Failed to import plugin: missing API key',
+      },
+      { source: join(directory, 'c-empty.js'), tools: [], error: 'Plugin exports no tools' },
+    ]);
+    expect(server.listTools().map(tool => tool.name)).toEqual(['forecast', 'alerts']);
+  });
+
+  it('should not let a plugin replace tools registered elsewhere', async () => {
+    await writeFile(join(directory, 'clash.js'), pluginSource(['forecast']));
+    server.registerTool({
+      name: 'forecast',
+      description: 'Built-in forecast',
+      parameters: z.object({}),
+      category: 'utility',
+      version: '1.0.0',
+      examples: [],
+      execute: async () => ({ success: true }),
+    });
+
+    loader = new PluginLoader(server, { directories: [directory], watch: false });
+    const [result] = await loader.start();
+
+    expect(result!.error).toBe("Tool 'forecast' is already registered");
+    expect(server.getTool('forecast')!.description).toBe('Built-in forecast');
+  });
+
+  it('should load added plugin files and unregister removed ones while watching', async () => {
+    await writeFile(join(directory, 'weather.js'), pluginSource(['forecast']));
+
+    loader = new PluginLoader(server, { directories: [directory], watch: true });
+    await loader.start();
+
+    const file = join(directory, 'traffic.js');
+    await writeFile(file, pluginSource(['congestion'], 'jammed'));
+    await eventually(async () => {
+      await expect(server.callTool('congestion', {})).resolves.toMatchObject({ data: 'jammed' });
+    });
+
+    await unlink(file);
+    await eventually(() => {
+      expect(server.listTools().map(tool => tool.name)).toEqual(['forecast']);
+      expect(Array.from(loader.plugins.keys())).toEqual([join(directory, 'weather.js')]);
+    });
+  });
+});
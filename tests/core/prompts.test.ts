@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Prompt Capability Tests
+ *
+ * Tests for the prompt registry and the prompts capability exposed by
+ * BaseMcpServer, including argument advertisement and validation.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PromptRegistry } from '../../src/core/prompts.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { McpPrompt } from '../../src/types/index.js';
+
+const reviewArguments = z.object({
+  code: z.string().min(1).describe('Code to review'),
+  focus: z.enum(['security', 'style']).optional(),
+});
+
+const reviewPrompt: McpPrompt<typeof reviewArguments> = {
+  name: 'code-review',
+  description: 'Review a code snippet',
+  arguments: reviewArguments,
+  render: async ({ code, focus }) => [
+    { role: 'user', content: { type: 'text', text: `Review for ${focus ?? 'all'}:\n${code}` } },
+  ],
+};
+
+const schemaPrompt: McpPrompt = {
+  name: 'explain-schema',
+  render: async () => [
+    {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: { uri: 'db://schema', mimeType: 'text/plain', text: 'CREATE TABLE t (id INT)' },
+      },
+    },
+    { role: 'user', content: { type: 'text', text: 'Explain this schema.' } },
+  ],
+};
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+    registry.register(reviewPrompt);
+    registry.register(schemaPrompt);
+  });
+
+  it('should advertise arguments derived from the schema', () => {
+    expect(registry.list()).toEqual([
+      {
+        name: 'code-review',
+        description: 'Review a code snippet',
+        arguments: [
+          { name: 'code', description: 'Code to review', required: true },
+          { name: 'focus', required: false },
+        ],
+      },
+      { name: 'explain-schema', arguments: [] },
+    ]);
+  });
+
+  it('should render validated arguments', async () => {
+    const result = await registry.get('code-review', { code: 'eval(x)', focus: 'security' });
+
+    expect(result).toEqual({
+      description: 'Review a code snippet',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review for security:\neval(x)' } },
+      ],
+    });
+  });
+
+  it('should render embedded resource content', async () => {
+    const result = await registry.get('explain-schema');
+
+    expect(result.messages[0]!.content).toEqual({
+      type: 'resource',
+      resource: { uri: 'db://schema', mimeType: 'text/plain', text: 'CREATE TABLE t (id INT)' },
+    });
+  });
+
+  it('should reject invalid arguments with field issues', async () => {
+    await expect(registry.get('code-review', { focus: 'speed' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      data: {
+        prompt: 'code-review',
+        issues: [
+          expect.objectContaining({ path: 'code' }),
+          expect.objectContaining({ path: 'focus' }),
+        ],
+      },
+    });
+  });
+
+  it('should reject unknown prompts', async () => {
+    await expect(registry.get('missing')).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+    });
+  });
+});
+
+describe('BaseMcpServer prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = new BaseMcpServer({ name: 'prompt-server', version: '1.0.0' });
+    server.registerPrompt(reviewPrompt);
+
+    // Connect the underlying SDK server in-process instead of over stdio
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should serve prompts/list and prompts/get', async () => {
+    expect(client.getServerCapabilities()?.prompts).toEqual({});
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['code-review']);
+
+    const result = await client.getPrompt({ name: 'code-review', arguments: { code: 'x' } });
+    expect(result.messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Live Tool Registry Tests
+ *
+ * Tests for registering and removing tools while clients are connected:
+ * list change notifications, registry events and the HTTP tool endpoints.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import request from 'supertest';
+import { z } from 'zod';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { HttpMcpServerFactory } from '../../src/transport/http-server.js';
+import { McpTool } from '../../src/types/index.js';
+
+function createTool(name: string): McpTool {
+  return {
+    name,
+    description: `${name} tool`,
+    parameters: z.object({}),
+    category: 'utility',
+    version: '1.0.0',
+    examples: [],
+    execute: async () => ({ success: true, data: name }),
+  };
+}
+
+describe('BaseMcpServer live tool registry', () => {
+  let server: BaseMcpServer;
+  let client: Client;
+  let listChanges: number;
+
+  beforeEach(async () => {
+    server = new BaseMcpServer({ name: 'registry-server', version: '1.0.0' });
+    server.registerTool(createTool('first'));
+
+    // Connect the underlying SDK server in-process instead of over stdio
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    listChanges = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChanges++;
+    });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should declare listChanged and notify clients once per batch of registrations', async () => {
+    expect(client.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+
+    server.registerTools([createTool('second'), createTool('third')]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(listChanges).toBe(1);
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should remove tools at runtime and emit registry events', async () => {
+    const events: string[] = [];
+    server.addEventListener('tool:registered', payload => {
+      events.push(`registered:${payload.data?.toolName}`);
+    });
+    server.addEventListener('tool:unregistered', payload => {
+      events.push(`unregistered:${payload.data?.toolName}`);
+    });
+
+    server.registerTool(createTool('second'));
+    expect(server.unregisterTool('first')).toBe(true);
+    expect(server.unregisterTool('missing')).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(events).toEqual(['registered:second', 'unregistered:first']);
+    expect(listChanges).toBe(1);
+
+    const result = await client.callTool({ name: 'first', arguments: {} });
+    expect(result).toMatchObject({ isError: true });
+  });
+});
+
+describe('HttpMcpServer live tool registry', () => {
+  it('should expose tools registered after start on the REST endpoints', async () => {
+    const server = HttpMcpServerFactory.createDevelopment({
+      name: 'registry-server',
+      version: '1.0.0',
+      enableStdio: false,
+      http: {
+        port: 8800 + Math.floor(Math.random() * 100),
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+    await server.start();
+
+    try {
+      const app = (server.httpTransport as any)._app;
+      server.registerTool(createTool('late'));
+
+      const list = await request(app).get('/mcp/tools').expect(200);
+      expect(JSON.stringify(list.body)).toContain('late');
+      await request(app).post('/mcp/tools/late').send({}).expect(200);
+
+      server.unregisterTool('late');
+      await request(app).post('/mcp/tools/late').send({}).expect(404);
+    } finally {
+      await server.stop();
+    }
+  });
+});
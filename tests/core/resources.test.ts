@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Resource Capability Tests
+ *
+ * Tests for the resource registry and the resources capability exposed by
+ * BaseMcpServer, including URI templates, binary contents and subscriptions.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  McpError,
+  ResourceUpdatedNotificationSchema,
+  ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ResourceRegistry, RESOURCE_NOT_FOUND } from '../../src/core/resources.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { McpResource, McpResourceTemplate } from '../../src/types/index.js';
+
+const schemaResource: McpResource = {
+  uri: 'db://schema',
+  name: 'schema',
+  mimeType: 'text/plain',
+  read: async () => ({ text: 'CREATE TABLE users (id INT)' }),
+};
+
+const reportTemplate: McpResourceTemplate = {
+  uriTemplate: 'analytics://reports/{reportId}',
+  name: 'report',
+  mimeType: 'application/json',
+  list: async () => [{ uri: 'analytics://reports/daily', name: 'Daily report' }],
+  read: async (_uri, { reportId }) => ({ text: JSON.stringify({ reportId }) }),
+};
+
+describe('ResourceRegistry', () => {
+  let registry: ResourceRegistry;
+
+  beforeEach(() => {
+    registry = new ResourceRegistry();
+    registry.registerResource(schemaResource);
+    registry.registerTemplate(reportTemplate);
+  });
+
+  it('should list static resources and template-enumerated resources', async () => {
+    expect(await registry.listResources()).toEqual([
+      { uri: 'db://schema', name: 'schema', mimeType: 'text/plain' },
+      { uri: 'analytics://reports/daily', name: 'Daily report', mimeType: 'application/json' },
+    ]);
+    expect(registry.listTemplates()).toEqual([
+      {
+        uriTemplate: 'analytics://reports/{reportId}',
+        name: 'report',
+        mimeType: 'application/json',
+      },
+    ]);
+  });
+
+  it('should read static resources with defaulted uri and mimeType', async () => {
+    expect(await registry.read('db://schema')).toEqual({
+      contents: [
+        { uri: 'db://schema', mimeType: 'text/plain', text: 'CREATE TABLE users (id INT)' },
+      ],
+    });
+  });
+
+  it('should pass template variables to the reader', async () => {
+    const result = await registry.read('analytics://reports/weekly');
+
+    expect(result.contents[0]).toMatchObject({
+      uri: 'analytics://reports/weekly',
+      text: JSON.stringify({ reportId: 'weekly' }),
+    });
+  });
+
+  it('should base64-encode binary contents', async () => {
+    registry.registerResource({
+      uri: 'file:///logo.png',
+      name: 'logo',
+      mimeType: 'image/png',
+      read: async () => ({ blob: Buffer.from([0x89, 0x50, 0x4e, 0x47]) }),
+    });
+
+    const result = await registry.read('file:///logo.png');
+
+    expect(result.contents[0]).toEqual({
+      uri: 'file:///logo.png',
+      mimeType: 'image/png',
+      blob: 'iVBORw==',
+    });
+  });
+
+  it('should reject unknown URIs with the resource-not-found code', async () => {
+    await expect(registry.read('db://missing')).rejects.toMatchObject({
+      code: RESOURCE_NOT_FOUND,
+    });
+    expect(() => registry.subscribe('db://missing')).toThrow(McpError);
+  });
+});
+
+describe('BaseMcpServer resources', () => {
+  let server: BaseMcpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    server = new BaseMcpServer({ name: 'resource-server', version: '1.0.0' });
+    server.registerResource(schemaResource);
+    server.registerResourceTemplate(reportTemplate);
+
+    // Connect the underlying SDK server in-process instead of over stdio
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+    (server as any)._state = 'running';
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should advertise the resources capability', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+  });
+
+  it('should serve resources/list and resources/read', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'db://schema',
+      'analytics://reports/daily',
+    ]);
+
+    const { contents } = await client.readResource({ uri: 'analytics://reports/q3' });
+    expect(contents[0]).toMatchObject({ text: JSON.stringify({ reportId: 'q3' }) });
+  });
+
+  it('should notify subscribers when a resource is updated', async () => {
+    const notifications: ServerNotification[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      notifications.push(notification);
+    });
+
+    // Unsubscribed URIs produce no notification
+    await server.notifyResourceUpdated('analytics://reports/daily');
+
+    await client.subscribeResource({ uri: 'db://schema' });
+    await server.notifyResourceUpdated('db://schema');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(notifications).toEqual([
+      { method: 'notifications/resources/updated', params: { uri: 'db://schema' } },
+    ]);
+  });
+
+  it('should track subscriptions per session', async () => {
+    // A second session on its own SDK server, as the session transports connect them
+    const [otherClientTransport, otherServerTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any).connectTransport(otherServerTransport, 'in-memory');
+    const other = new Client({ name: 'other-client', version: '1.0.0' });
+    await other.connect(otherClientTransport);
+
+    const received: Record<string, string[]> = { first: [], other: [] };
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      received.first!.push(notification.params.uri);
+    });
+    other.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      received.other!.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: 'db://schema' });
+    await other.subscribeResource({ uri: 'db://schema' });
+    await other.subscribeResource({ uri: 'analytics://reports/daily' });
+
+    // Only the subscriber hears about its URI
+    await server.notifyResourceUpdated('analytics://reports/daily');
+    // One session unsubscribing leaves the other subscribed
+    await client.unsubscribeResource({ uri: 'db://schema' });
+    await server.notifyResourceUpdated('db://schema');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(received).toEqual({
+      first: [],
+      other: ['analytics://reports/daily', 'db://schema'],
+    });
+
+    // Closed sessions are forgotten
+    await other.close();
+    expect((server as any)._resources.isSubscribed('db://schema')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Server Tracing Tests
+ *
+ * Tests for the spans the server records: a server span per JSON-RPC request
+ * joining the caller's trace from `_meta`, a tool execution span nested under
+ * it, tool calls traced from HTTP headers, and export to a collector.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { McpTool } from '../../src/types/index.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+const divideTool: McpTool = {
+  name: 'divide',
+  description: 'Divide two numbers',
+  parameters: z.object({ a: z.number(), b: z.number() }),
+  category: 'utility',
+  version: '1.0.0',
+  examples: [],
+  execute: async ({ a, b }) =>
+    b === 0 ? { success: false, error: 'Division by zero' } : { success: true, data: a / b },
+};
+
+describe('BaseMcpServer tracing', () => {
+  let collector: Server;
+  let spans: any[];
+  let server: BaseMcpServer;
+
+  beforeEach(async () => {
+    spans = [];
+    // Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver
+    collector = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        spans.push(...JSON.parse(body).resourceSpans[0].scopeSpans[0].spans);
+        res.writeHead(200).end();
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+
+    server = new BaseMcpServer({
+      name: 'traced-server',
+      version: '1.0.0',
+      telemetry: {
+        enabled: true,
+        endpoint: `http://127.0.0.1:${(collector.address() as AddressInfo).port}`,
+        serviceName: 'traced-server',
+        serviceVersion: '1.0.0',
+        traces: { enabled: true, sampleRate: 1 },
+        metrics: { enabled: false, interval: 60000 },
+        logs: { enabled: true, correlation: true },
+      },
+    });
+    server.registerTool(divideTool);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => collector.close(resolve));
+  });
+
+  it('should trace requests from the caller context in _meta down to the tool', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    await client.callTool({
+      name: 'divide',
+      arguments: { a: 6, b: 3 },
+      _meta: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`, tracestate: 'vendor=1' },
+    });
+    await client.close();
+    await server.tracer.flush();
+
+    const request = spans.find(span => span.name === 'tools/call');
+    const tool = spans.find(span => span.name === 'execute_tool divide');
+    expect(request).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+      traceState: 'vendor=1',
+      kind: 2,
+    });
+    expect(request.attributes).toContainEqual({
+      key: 'rpc.method',
+      value: { stringValue: 'tools/call' },
+    });
+    expect(tool).toMatchObject({ traceId: TRACE_ID, parentSpanId: request.spanId, kind: 1 });
+    expect(tool.attributes).toContainEqual({
+      key: 'gen_ai.tool.name',
+      value: { stringValue: 'divide' },
+    });
+  });
+
+  it('should trace direct tool calls from the traceparent header and mark failures', async () => {
+    await server.callTool(
+      'divide',
+      { a: 1, b: 0 },
+      { transport: 'http', headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` } }
+    );
+    await server.tracer.flush();
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+      status: { code: 2, message: 'Division by zero' },
+    });
+  });
+
+  it('should not export spans of unsampled traces', async () => {
+    await server.callTool(
+      'divide',
+      { a: 1, b: 1 },
+      { headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` } }
+    );
+    await server.tracer.flush();
+
+    expect(spans).toHaveLength(0);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview HTTP Bearer and Basic Authentication Tests
+ *
+ * Tests for the HTTP transport's bearer token verifiers (static, JWKS-signed
+ * JWT, introspection), hashed Basic credentials, `WWW-Authenticate`
+ * challenges, the identity reaching tools as `UserContext`, and the `jwt`
+ * mode's token issuance endpoints.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { z } from 'zod';
+import { hashPassword, verifyPassword } from '../../src/auth/index.js';
+import { HttpTransport } from '../../src/transport/http.js';
+import {
+  BearerVerifierConfig,
+  HttpAuthConfig,
+  McpTool,
+  ServerConfigError,
+} from '../../src/types/index.js';
+
+const whoamiTool: McpTool = {
+  name: 'whoami',
+  description: 'Return the calling user',
+  parameters: z.object({}),
+  category: 'utility',
+  version: '1.0.0',
+  examples: [],
+  execute: async () => ({ success: true }),
+};
+
+/**
+ * Create a transport whose tool calls echo the caller resolved by authentication
+ */
+function createTransport(auth: Omit<HttpAuthConfig, 'enabled'>): any {
+  const transport = new HttpTransport(
+    { basePath: '/mcp', auth: { enabled: true, ...auth } },
+    new Map([['whoami', whoamiTool]])
+  );
+  transport.toolExecutor = async (_name, _args, options) => ({
+    success: true,
+    data: options.user ?? null,
+  });
+  return (transport as any)._app;
+}
+
+describe('HttpTransport bearer authentication', () => {
+  let directory: string;
+  let privateKey: KeyObject;
+  let jwksFile: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-jwks-'));
+    const keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    privateKey = keyPair.privateKey;
+
+    jwksFile = join(directory, 'jwks.json');
+    const jwk = keyPair.publicKey.export({ format: 'jwk' });
+    await writeFile(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: 'k1', alg: 'RS256' }] }));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const sign = (claims: object, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, privateKey, { algorithm: 'RS256', keyid: 'k1', ...options });
+
+  it('should map a JWKS-verified token to the caller and reject other audiences', async () => {
+    const app = createTransport({
+      type: 'bearer',
+      bearer: { type: 'jwt', jwksFile, audience: 'mcp-api', issuer: 'https://idp.example.com' },
+    });
+    const claims = { sub: 'svc-42', roles: ['operator'], scope: 'db:read' };
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set(
+        'Authorization',
+        `Bearer ${sign(claims, { audience: 'mcp-api', issuer: 'https://idp.example.com' })}`
+      )
+      .send({})
+      .expect(200);
+    expect(response.body.data).toMatchObject({
+      id: 'svc-42',
+      roles: ['operator'],
+      permissions: ['db:read'],
+    });
+
+    const rejected = await request(app)
+      .post('/mcp/tools/whoami')
+      .set(
+        'Authorization',
+        `Bearer ${sign(claims, { audience: 'other-api', issuer: 'https://idp.example.com' })}`
+      )
+      .send({})
+      .expect(401);
+    expect(rejected.headers['www-authenticate']).toBe('Bearer realm="mcp", error="invalid_token"');
+  });
+
+  it('should not accept HMAC tokens signed with the public key', async () => {
+    const app = createTransport({ type: 'bearer', bearer: { type: 'jwt', jwksFile } });
+    const publicPem = createPublicKey(privateKey).export({ format: 'pem', type: 'spki' });
+    const forged = jwt.sign({ sub: 'mallory' }, publicPem, { algorithm: 'HS256', keyid: 'k1' });
+
+    await request(app).get('/mcp/tools').set('Authorization', `Bearer ${forged}`).expect(401);
+  });
+
+  it('should challenge requests without credentials', async () => {
+    const app = createTransport({
+      type: 'bearer',
+      realm: 'ops',
+      bearer: { type: 'static', tokens: { 't-1': { id: 'ci', roles: [], permissions: [] } } },
+    });
+
+    const response = await request(app).get('/mcp/tools').expect(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer realm="ops"');
+
+    await request(app).get('/mcp/tools').set('Authorization', 'Bearer t-1').expect(200);
+    await request(app).get('/mcp/tools').set('Authorization', 'Basic t-1').expect(401);
+  });
+
+  it('should resolve tokens with the introspection callback', async () => {
+    const bearer: BearerVerifierConfig = {
+      type: 'introspection',
+      introspect: async token =>
+        token === 'live' ? { active: true, sub: 'user-7', scope: 'read' } : { active: false },
+    };
+    const app = createTransport({ type: 'bearer', bearer });
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set('Authorization', 'Bearer live')
+      .send({})
+      .expect(200);
+    expect(response.body.data).toMatchObject({ id: 'user-7', permissions: ['read'] });
+
+    await request(app).get('/mcp/tools').set('Authorization', 'Bearer revoked').expect(401);
+  });
+
+  it('should refuse to start bearer or basic authentication without a verifier', () => {
+    expect(() => createTransport({ type: 'bearer' })).toThrow(ServerConfigError);
+    expect(() => createTransport({ type: 'basic' })).toThrow(ServerConfigError);
+  });
+});
+
+describe('HttpTransport basic authentication', () => {
+  const encode = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+  it('should hash passwords with scrypt', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$\d+\$\d+\$\d+\$/);
+    await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+    await expect(verifyPassword('battery staple', hash)).resolves.toBe(false);
+  });
+
+  it('should check credentials against the hashed store', async () => {
+    const app = createTransport({
+      type: 'basic',
+      basic: {
+        users: {
+          olga: {
+            passwordHash: await hashPassword('s3cret:pass'),
+            roles: ['operator'],
+            permissions: ['db:write'],
+          },
+        },
+      },
+    });
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set('Authorization', encode('olga:s3cret:pass'))
+      .send({})
+      .expect(200);
+    expect(response.body.data).toEqual({
+      id: 'olga',
+      roles: ['operator'],
+      permissions: ['db:write'],
+    });
+
+    for (const credentials of ['olga:wrong', 'nobody:s3cret:pass']) {
+      const rejected = await request(app)
+        .get('/mcp/tools')
+        .set('Authorization', encode(credentials))
+        .expect(401);
+      expect(rejected.headers['www-authenticate']).toBe('Basic realm="mcp", charset="UTF-8"');
+    }
+  });
+
+  it('should reject plain-text passwords in the store', () => {
+    expect(() =>
+      createTransport({ type: 'basic', basic: { users: { olga: { passwordHash: 'hunter2' } } } })
+    ).toThrow(ServerConfigError);
+  });
+});
+
+describe('HttpTransport token issuance', () => {
+  const createIssuingTransport = async () =>
+    createTransport({
+      type: 'jwt',
+      jwtKeys: [{ kid: 'k1', secret: 'signing-secret' }],
+      jwtExpiration: '10m',
+      basic: { users: { olga: { passwordHash: await hashPassword('pw'), roles: ['operator'] } } },
+      issuance: {
+        apiKeys: { 'cli-key': { id: 'cli', roles: ['deployer'], permissions: ['db:read'] } },
+      },
+    });
+
+  it('should exchange an API key or Basic credentials for an access token', async () => {
+    const app = await createIssuingTransport();
+
+    const issued = await request(app)
+      .post('/mcp/auth/token')
+      .set('X-API-Key', 'cli-key')
+      .expect(200);
+    expect(issued.body).toMatchObject({ token_type: 'Bearer', expires_in: 600 });
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set('Authorization', `Bearer ${issued.body.access_token}`)
+      .send({})
+      .expect(200);
+    expect(response.body.data).toMatchObject({
+      id: 'cli',
+      roles: ['deployer'],
+      permissions: ['db:read'],
+    });
+
+    await request(app)
+      .post('/mcp/auth/token')
+      .set('Authorization', `Basic ${Buffer.from('olga:pw').toString('base64')}`)
+      .expect(200);
+    await request(app).post('/mcp/auth/token').set('X-API-Key', 'stolen').expect(401);
+  });
+
+  it('should rotate refresh tokens and honour revocation', async () => {
+    const app = await createIssuingTransport();
+    const issued = await request(app).post('/mcp/auth/token').set('X-API-Key', 'cli-key');
+
+    const refreshed = await request(app)
+      .post('/mcp/auth/refresh')
+      .send({ refresh_token: issued.body.refresh_token })
+      .expect(200);
+    await request(app)
+      .post('/mcp/auth/refresh')
+      .send({ refresh_token: issued.body.refresh_token })
+      .expect(401);
+
+    // Reuse of the spent token ended the login
+    await request(app)
+      .get('/mcp/tools')
+      .set('Authorization', `Bearer ${refreshed.body.access_token}`)
+      .expect(401);
+
+    const next = await request(app).post('/mcp/auth/token').set('X-API-Key', 'cli-key');
+    await request(app).post('/mcp/auth/revoke').send({ token: next.body.access_token }).expect(204);
+    await request(app)
+      .get('/mcp/tools')
+      .set('Authorization', `Bearer ${next.body.access_token}`)
+      .expect(401);
+  });
+});
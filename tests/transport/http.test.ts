@@ -49,6 +49,21 @@ class ErrorTool implements McpTool {
   }
 }
 
+class CountTool implements McpTool {
+  readonly name = 'count-tool';
+  readonly description = 'Tool with structured output';
+  readonly category = 'data' as const;
+  readonly version = '1.0.0';
+  readonly parameters = z.object({ valid: z.boolean() });
+  readonly outputSchema = z.object({ count: z.number() });
+  readonly examples = [];
+
+  async execute(params: unknown): Promise<ToolResult> {
+    const { valid } = this.parameters.parse(params);
+    return { success: true, data: { count: valid ? 1 : 'one' } };
+  }
+}
+
 describe('HttpTransport', () => {
   let transport: HttpTransport;
   let testPort: number;
@@ -113,6 +128,7 @@ describe('HttpTransport', () => {
       const tools = new Map<string, McpTool>();
       tools.set('test-tool', new TestTool());
       tools.set('error-tool', new ErrorTool());
+      tools.set('count-tool', new CountTool());
 
       transport = new HttpTransport(
         {
@@ -165,6 +181,11 @@ describe('HttpTransport', () => {
               name: 'test-tool',
               description: expect.any(String),
               category: 'data',
+              parameters: expect.objectContaining({
+                type: 'object',
+                properties: { message: { type: 'string' } },
+                required: ['message'],
+              }),
             }),
           ]),
           count: expect.any(Number),
@@ -186,6 +207,32 @@ describe('HttpTransport', () => {
         });
       });
 
+      it('should reject invalid tool arguments with 422', async () => {
+        const response = await request(app)
+          .post('/mcp/tools/test-tool')
+          .send({ message: 42 })
+          .expect(422);
+
+        expect(response.body).toMatchObject({
+          error: 'Validation Failed',
+          issues: [{ path: 'message', code: 'invalid_type', message: expect.any(String) }],
+        });
+      });
+
+      it('should check results against the output schema', async () => {
+        const response = await request(app)
+          .post('/mcp/tools/count-tool')
+          .send({ valid: true })
+          .expect(200);
+        expect(response.body).toMatchObject({ success: true, structuredContent: { count: 1 } });
+
+        const invalid = await request(app)
+          .post('/mcp/tools/count-tool')
+          .send({ valid: false })
+          .expect(500);
+        expect(invalid.body.message).toContain('does not match its output schema');
+      });
+
       it('should handle tool execution errors', async () => {
         const response = await request(app).post('/mcp/tools/error-tool').send({}).expect(500);
 
@@ -198,30 +245,145 @@ describe('HttpTransport', () => {
       it('should return 404 for non-existent tool', async () => {
         const response = await request(app).post('/mcp/tools/non-existent').send({}).expect(404);
 
-        expect(response.body).toMatchObject({
-          error: 'Tool Not Found',
-          availableTools: expect.any(Array),
-        });
+        expect(response.body).toMatchObject({ error: 'Tool Not Found' });
+        // Tools hidden by the access policy must not leak through the error
+        expect(response.body).not.toHaveProperty('availableTools');
+      });
+    });
+
+    describe('API Docs', () => {
+      it('should document tools registered after startup', async () => {
+        const tools: Map<string, McpTool> = (transport as any)._tools;
+        tools.set('late-tool', { ...new TestTool(), name: 'late-tool' });
+
+        await request(app).get('/docs/').expect(200);
+        const response = await request(app).get('/docs/swagger-ui-init.js').expect(200);
+
+        expect(response.text).toContain('"/tools/late-tool"');
+        expect(response.text).toContain('"late-toolInput"');
       });
     });
 
     describe('JSON-RPC Endpoint', () => {
-      it('should accept valid JSON-RPC request', async () => {
+      it('should return the response sent by the message handler', async () => {
+        transport.onmessage = message => {
+          if ('id' in message) {
+            void transport.send({ jsonrpc: '2.0', result: { tools: [] }, id: message.id });
+          }
+        };
+
         const rpcRequest = {
           jsonrpc: '2.0',
           method: 'tools/list',
           id: 1,
         };
 
-        const response = await request(app).post('/mcp/rpc').send(rpcRequest).expect(202);
+        const response = await request(app).post('/mcp/rpc').send(rpcRequest).expect(200);
 
         expect(response.body).toMatchObject({
           jsonrpc: '2.0',
-          result: { accepted: true },
+          result: { tools: [] },
           id: 1,
         });
       });
 
+      it('should correlate concurrent requests that reuse the same ID', async () => {
+        transport.onmessage = message => {
+          if ('id' in message && 'params' in message) {
+            const { delay, value } = message.params as { delay: number; value: string };
+            setTimeout(() => {
+              void transport.send({ jsonrpc: '2.0', result: { value }, id: message.id });
+            }, delay);
+          }
+        };
+
+        const [slow, fast] = await Promise.all([
+          request(app)
+            .post('/mcp/rpc')
+            .send({ jsonrpc: '2.0', method: 'echo', params: { delay: 50, value: 'slow' }, id: 7 }),
+          request(app)
+            .post('/mcp/rpc')
+            .send({ jsonrpc: '2.0', method: 'echo', params: { delay: 0, value: 'fast' }, id: 7 }),
+        ]);
+
+        expect(slow.body).toMatchObject({ result: { value: 'slow' }, id: 7 });
+        expect(fast.body).toMatchObject({ result: { value: 'fast' }, id: 7 });
+      });
+
+      it('should abort the handler signal when the request times out', async () => {
+        const timed = new HttpTransport({
+          basePath: '/mcp',
+          auth: { enabled: false },
+          security: { helmet: false, trustProxy: false, requestSizeLimit: '1mb', timeout: 50 },
+        });
+        let signal: AbortSignal | undefined;
+        timed.onmessage = (_message, extra) => {
+          signal = extra?.signal;
+        };
+
+        const response = await request((timed as any)._app)
+          .post('/mcp/rpc')
+          .send({ jsonrpc: '2.0', method: 'tools/call', params: { name: 'slow' }, id: 3 })
+          .expect(200);
+
+        expect(response.body.error.message).toBe('Request timed out after 50ms');
+        expect(signal?.aborted).toBe(true);
+        expect(signal?.reason).toBe('Request timed out after 50ms');
+      });
+
+      it('should acknowledge notifications without a response body', async () => {
+        const received: unknown[] = [];
+        transport.onmessage = message => {
+          received.push(message);
+        };
+
+        await request(app)
+          .post('/mcp/rpc')
+          .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+          .expect(202);
+
+        expect(received).toHaveLength(1);
+      });
+
+      it('should answer batches and omit notification responses', async () => {
+        transport.onmessage = message => {
+          if ('id' in message) {
+            void transport.send({ jsonrpc: '2.0', result: { ok: true }, id: message.id });
+          }
+        };
+
+        const response = await request(app)
+          .post('/mcp/rpc')
+          .send([
+            { jsonrpc: '2.0', method: 'a', id: 'first' },
+            { jsonrpc: '2.0', method: 'notifications/progress' },
+            { jsonrpc: '2.0', method: 'b', id: 'second' },
+          ])
+          .expect(200);
+
+        expect(response.body).toEqual([
+          { jsonrpc: '2.0', result: { ok: true }, id: 'first' },
+          { jsonrpc: '2.0', result: { ok: true }, id: 'second' },
+        ]);
+      });
+
+      it('should acknowledge notification-only batches without a response body', async () => {
+        transport.onmessage = () => {};
+
+        await request(app)
+          .post('/mcp/rpc')
+          .send([{ jsonrpc: '2.0', method: 'notifications/initialized' }])
+          .expect(202);
+      });
+
+      it('should reject empty batches', async () => {
+        transport.onmessage = () => {};
+
+        const response = await request(app).post('/mcp/rpc').send([]).expect(400);
+
+        expect(response.body).toMatchObject({ error: { code: -32600 }, id: null });
+      });
+
       it('should reject invalid JSON-RPC request', async () => {
         const invalidRequest = {
           method: 'test',
@@ -505,6 +667,226 @@ describe('HttpMcpServer Integration', () => {
     }
   });
 
+  it('should answer tools/call over the JSON-RPC endpoint', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    server.registerTool(new TestTool());
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .send({
+        jsonrpc: '2.0',
+        method: 'tools/call',
+        params: { name: 'test-tool', arguments: { message: 'over rpc' } },
+        id: 'call-1',
+      })
+      .expect(200);
+
+    expect(response.body.id).toBe('call-1');
+    expect(response.body.result).toBeDefined();
+    expect(response.body.error).toBeUndefined();
+  });
+
+  it('should return a JSON-RPC error for unknown methods', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .send({ jsonrpc: '2.0', method: 'unknown/method', id: 3 })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      jsonrpc: '2.0',
+      error: { code: -32601 },
+      id: 3,
+    });
+  });
+
+  it('should return -32602 for invalid tools/call arguments', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    server.registerTool(new TestTool());
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .send({
+        jsonrpc: '2.0',
+        method: 'tools/call',
+        params: { name: 'test-tool', arguments: {} },
+        id: 4,
+      })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      id: 4,
+      error: {
+        code: -32602,
+        data: { tool: 'test-tool', issues: [{ path: 'message', code: 'invalid_type' }] },
+      },
+    });
+  });
+
+  it('should answer JSON-RPC batches in request order', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    server.registerTool(new TestTool());
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .send([
+        {
+          jsonrpc: '2.0',
+          method: 'tools/call',
+          params: { name: 'test-tool', arguments: { message: 'first' } },
+          id: 1,
+        },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { invalid: true },
+        { jsonrpc: '2.0', method: 'tools/list', id: 2 },
+      ])
+      .expect(200);
+
+    expect(response.body).toHaveLength(3);
+    expect(response.body[0]).toMatchObject({ id: 1, result: {} });
+    expect(response.body[1]).toMatchObject({ id: null, error: { code: -32600 } });
+    expect(response.body[2]).toMatchObject({ id: 2, result: { tools: [{ name: 'test-tool' }] } });
+  });
+
+  it('should serve resources and prompts over the JSON-RPC endpoint', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    server.registerResource({
+      uri: 'docs://readme',
+      name: 'readme',
+      read: async () => ({ text: 'Hello' }),
+    });
+    server.registerPrompt({
+      name: 'greet',
+      arguments: z.object({ name: z.string() }),
+      render: async ({ name }) => [{ role: 'user', content: { type: 'text', text: `Hi ${name}` } }],
+    });
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .send([
+        { jsonrpc: '2.0', method: 'resources/read', params: { uri: 'docs://readme' }, id: 1 },
+        { jsonrpc: '2.0', method: 'prompts/get', params: { name: 'greet' }, id: 2 },
+      ])
+      .expect(200);
+
+    expect(response.body[0]).toMatchObject({
+      id: 1,
+      result: { contents: [{ uri: 'docs://readme', text: 'Hello' }] },
+    });
+    expect(response.body[1]).toMatchObject({ id: 2, error: { code: -32602 } });
+  });
+
+  it('should record calls from every transport in the server metrics and events', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'test-server',
+      version: '1.0.0',
+      description: 'Test server',
+      enableStdio: false,
+      http: {
+        port: testPort,
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+
+    const events: any[] = [];
+    server.addEventListener('tool:executed', payload => {
+      events.push(payload);
+    });
+    server.registerTool(new TestTool());
+    await server.start();
+
+    const app = (server.httpTransport as any)._app;
+    await request(app).post('/mcp/tools/test-tool').send({ message: 'rest' }).expect(200);
+    await request(app)
+      .post('/mcp/rpc')
+      .send({
+        jsonrpc: '2.0',
+        method: 'tools/call',
+        params: { name: 'test-tool', arguments: { message: 'rpc' } },
+        id: 1,
+      })
+      .expect(200);
+
+    expect(server.stats.tools.executions).toEqual({ 'test-tool': 2 });
+    expect(events.map(event => event.data)).toEqual([
+      expect.objectContaining({ toolName: 'test-tool', success: true, transport: 'http' }),
+      expect.objectContaining({ toolName: 'test-tool', success: true, transport: 'http' }),
+    ]);
+  });
+
   it('should support dual transport mode', async () => {
     server = HttpMcpServerFactory.createDevelopment({
       name: 'dual-transport-server',
@@ -525,6 +907,67 @@ describe('HttpMcpServer Integration', () => {
   });
 });
 
+describe('Metrics Endpoint', () => {
+  it('should serve the exporter output as Prometheus text', async () => {
+    const transport = new HttpTransport({ rateLimit: { enabled: false } as any });
+    const app = (transport as any)._app;
+
+    await request(app).get('/metrics').expect(404);
+
+    transport.metricsExporter = () => 'tool_executions_total{service="svc"} 1\n';
+    const response = await request(app).get('/metrics').expect(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toBe('tool_executions_total{service="svc"} 1\n');
+  });
+
+  it('should serve metrics on a separate port when configured', async () => {
+    const port = 9000 + Math.floor(Math.random() * 100);
+    const transport = new HttpTransport({
+      port: port + 100,
+      host: 'localhost',
+      metrics: { enabled: true, path: '/metrics', port },
+    });
+    transport.metricsExporter = () => 'up 1\n';
+
+    await transport.start();
+    try {
+      const response = await fetch(`http://localhost:${port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('up 1\n');
+
+      await request((transport as any)._app)
+        .get('/metrics')
+        .expect(404);
+    } finally {
+      await transport.close();
+    }
+  });
+
+  it('should export tool metrics from the HTTP MCP server', async () => {
+    const server = HttpMcpServerFactory.createDevelopment({
+      name: 'metrics-server',
+      version: '1.0.0',
+      description: 'Metrics test server',
+      http: { port: 9200 + Math.floor(Math.random() * 100), host: 'localhost' },
+    });
+    server.registerTool(new TestTool());
+    await server.start();
+
+    try {
+      const app = (server.httpTransport as any)._app;
+      await request(app).post('/mcp/tools/test-tool').send({ message: 'hi' }).expect(200);
+
+      const response = await request(app).get('/metrics').expect(200);
+      expect(response.text).toContain(
+        'tool_executions_total{service="metrics-server",tool="test-tool",status="success"} 1'
+      );
+      expect(response.text).toContain('# TYPE tool_execution_time histogram');
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
 describe('Transport Performance', () => {
   let transport: HttpTransport;
   let testPort: number;
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview HTTP OAuth 2.1 Protected Resource Tests
+ *
+ * Tests for the HTTP transport's `oauth2` mode: protected resource metadata,
+ * `resource_metadata` challenges, audience-bound access tokens, per-tool
+ * scopes on REST and JSON-RPC, and the development authorization server flow.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { z } from 'zod';
+import { HttpTransport } from '../../src/transport/http.js';
+import { McpTool, OAuth2ResourceConfig, ServerConfigError } from '../../src/types/index.js';
+
+const RESOURCE = 'http://localhost:8080/mcp';
+const ISSUER = 'https://auth.example.com';
+
+const tool = (name: string): McpTool => ({
+  name,
+  description: `${name} tool`,
+  parameters: z.object({}),
+  category: 'utility',
+  version: '1.0.0',
+  examples: [],
+  execute: async () => ({ success: true }),
+});
+
+/**
+ * Create an oauth2 transport whose tool calls echo the caller
+ */
+function createTransport(oauth2: Partial<OAuth2ResourceConfig>): any {
+  const transport = new HttpTransport(
+    {
+      basePath: '/mcp',
+      auth: {
+        enabled: true,
+        type: 'oauth2',
+        oauth2: { resource: RESOURCE, issuer: ISSUER, ...oauth2 },
+      },
+    },
+    new Map([
+      ['whoami', tool('whoami')],
+      ['drop_table', tool('drop_table')],
+    ])
+  );
+  transport.toolExecutor = async (_name, _args, options) => ({
+    success: true,
+    data: options.user ?? null,
+  });
+  transport.onmessage = () => {};
+  return (transport as any)._app;
+}
+
+describe('HttpTransport OAuth 2.1 protected resource', () => {
+  let directory: string;
+  let privateKey: KeyObject;
+  let jwksFile: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-oauth-'));
+    const keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    privateKey = keyPair.privateKey;
+
+    jwksFile = join(directory, 'jwks.json');
+    const jwk = keyPair.publicKey.export({ format: 'jwk' });
+    await writeFile(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: 'k1', alg: 'RS256' }] }));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const sign = (claims: object, audience = RESOURCE) =>
+    jwt.sign({ sub: 'user-1', ...claims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'k1',
+      issuer: ISSUER,
+      audience,
+    });
+
+  it('should publish protected resource metadata without authentication', async () => {
+    const app = createTransport({ jwksFile, scopesSupported: ['tools:read', 'db:admin'] });
+
+    const response = await request(app)
+      .get('/.well-known/oauth-protected-resource/mcp')
+      .expect(200);
+    expect(response.body).toEqual({
+      resource: RESOURCE,
+      authorization_servers: [ISSUER],
+      bearer_methods_supported: ['header'],
+      scopes_supported: ['tools:read', 'db:admin'],
+    });
+
+    await request(app).get('/.well-known/oauth-protected-resource').expect(200);
+  });
+
+  it('should challenge with the resource metadata URL', async () => {
+    const app = createTransport({ jwksFile });
+
+    const response = await request(app).get('/mcp/tools').expect(401);
+    expect(response.headers['www-authenticate']).toBe(
+      'Bearer resource_metadata="http://localhost:8080/.well-known/oauth-protected-resource/mcp"'
+    );
+  });
+
+  it('should only accept tokens issued for this resource', async () => {
+    const app = createTransport({ jwksFile });
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set('Authorization', `Bearer ${sign({ scope: 'tools:read' })}`)
+      .send({})
+      .expect(200);
+    expect(response.body.data).toMatchObject({ id: 'user-1' });
+
+    const rejected = await request(app)
+      .get('/mcp/tools')
+      .set('Authorization', `Bearer ${sign({}, 'https://other.example.com/mcp')}`)
+      .expect(401);
+    expect(rejected.headers['www-authenticate']).toContain('error="invalid_token"');
+  });
+
+  it('should require the scopes configured for a tool', async () => {
+    const app = createTransport({ jwksFile, toolScopes: { drop_table: ['db:admin'] } });
+    const readOnly = `Bearer ${sign({ scope: 'tools:read' })}`;
+
+    const response = await request(app)
+      .post('/mcp/tools/drop_table')
+      .set('Authorization', readOnly)
+      .send({})
+      .expect(403);
+    expect(response.body.requiredScopes).toEqual(['db:admin']);
+    expect(response.headers['www-authenticate']).toContain(
+      'error="insufficient_scope", scope="db:admin"'
+    );
+
+    const rpc = await request(app)
+      .post('/mcp/rpc')
+      .set('Authorization', readOnly)
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'drop_table' } })
+      .expect(200);
+    expect(rpc.body.error).toMatchObject({ code: -32005, data: { requiredScopes: ['db:admin'] } });
+
+    await request(app)
+      .post('/mcp/tools/drop_table')
+      .set('Authorization', `Bearer ${sign({ scope: 'tools:read db:admin' })}`)
+      .send({})
+      .expect(200);
+  });
+
+  it('should refuse to start without a key source', () => {
+    expect(() => createTransport({})).toThrow(ServerConfigError);
+  });
+});
+
+describe('HttpTransport development authorization server', () => {
+  it('should register a client and issue tokens for the authorization code flow', async () => {
+    const app = createTransport({
+      issuer: 'http://localhost:8080',
+      scopesSupported: ['tools:read'],
+      devAuthorizationServer: { subject: 'dev-alice', roles: ['developer'] },
+    });
+    const redirectUri = 'http://localhost:3000/callback';
+
+    const metadata = await request(app).get('/.well-known/oauth-authorization-server').expect(200);
+    expect(metadata.body.registration_endpoint).toBe('http://localhost:8080/register');
+
+    const registration = await request(app)
+      .post('/register')
+      .send({
+        redirect_uris: [redirectUri],
+        token_endpoint_auth_method: 'none',
+        scope: 'tools:read',
+      })
+      .expect(201);
+    const clientId = registration.body.client_id;
+
+    const verifier = randomBytes(32).toString('base64url');
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    const authorization = await request(app)
+      .get('/authorize')
+      .query({
+        client_id: clientId,
+        response_type: 'code',
+        redirect_uri: redirectUri,
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+        scope: 'tools:read',
+        state: 'xyz',
+        resource: RESOURCE,
+      })
+      .expect(302);
+    const callback = new URL(authorization.headers.location);
+    expect(callback.searchParams.get('code')).toBeTruthy();
+    expect(callback.searchParams.get('state')).toBe('xyz');
+
+    const tokens = await request(app)
+      .post('/token')
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        client_id: clientId,
+        code: callback.searchParams.get('code')!,
+        code_verifier: verifier,
+        redirect_uri: redirectUri,
+      })
+      .expect(200);
+    expect(tokens.body).toMatchObject({ token_type: 'Bearer', scope: 'tools:read' });
+
+    const response = await request(app)
+      .post('/mcp/tools/whoami')
+      .set('Authorization', `Bearer ${tokens.body.access_token}`)
+      .send({})
+      .expect(200);
+    expect(response.body.data).toMatchObject({ id: 'dev-alice', roles: ['developer'] });
+
+    // Refresh tokens are single-use
+    const refresh = { grant_type: 'refresh_token', client_id: clientId };
+    await request(app)
+      .post('/token')
+      .type('form')
+      .send({ ...refresh, refresh_token: tokens.body.refresh_token })
+      .expect(200);
+    await request(app)
+      .post('/token')
+      .type('form')
+      .send({ ...refresh, refresh_token: tokens.body.refresh_token })
+      .expect(400);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * @fileoverview Streamable HTTP Transport Tests
+ *
+ * Test suite for the Streamable HTTP transport, covering session creation,
+ * session routing and termination, authentication, and the in-memory
+ * resumability store.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from '@jest/globals';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  InMemoryEventStore,
+  StreamableHttpTransport,
+} from '../../src/transport/streamable-http.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+function createProtocolServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+describe('StreamableHttpTransport', () => {
+  let transport: StreamableHttpTransport;
+  let baseUrl: string;
+  let closedServers: number;
+
+  beforeEach(async () => {
+    closedServers = 0;
+    const port = 9100 + Math.floor(Math.random() * 100); // Random port to avoid conflicts
+    baseUrl = `http://localhost:${port}`;
+
+    transport = new StreamableHttpTransport(
+      { port, host: 'localhost', enableJsonResponse: true },
+      async session => {
+        const server = createProtocolServer();
+        server.onclose = () => closedServers++;
+        await server.connect(session);
+      }
+    );
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  async function initializeSession(): Promise<string> {
+    const response = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .send(initializeRequest)
+      .expect(200);
+
+    return response.headers['mcp-session-id'];
+  }
+
+  it('should create a session on initialize', async () => {
+    const sessionId = await initializeSession();
+
+    expect(sessionId).toBeDefined();
+    expect(transport.sessionIds).toEqual([sessionId]);
+  });
+
+  it('should route requests to the session', async () => {
+    const sessionId = await initializeSession();
+
+    await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Mcp-Session-Id', sessionId)
+      .set('Mcp-Protocol-Version', '2025-03-26')
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      .expect(202);
+
+    const response = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Mcp-Session-Id', sessionId)
+      .set('Mcp-Protocol-Version', '2025-03-26')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      .expect(200);
+
+    expect(response.body).toEqual({ jsonrpc: '2.0', id: 2, result: { tools: [] } });
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(400);
+
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('should disconnect the protocol server when initialize fails', async () => {
+    // Without an Accept header for both response types the SDK rejects the request
+    await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', 'application/json')
+      .send(initializeRequest)
+      .expect(406);
+
+    expect(transport.sessionCount).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Mcp-Session-Id', 'unknown-session')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(404);
+  });
+
+  it('should terminate sessions on DELETE', async () => {
+    const sessionId = await initializeSession();
+
+    await request(baseUrl)
+      .delete('/mcp')
+      .set('Mcp-Session-Id', sessionId)
+      .set('Mcp-Protocol-Version', '2025-03-26')
+      .expect(200);
+
+    expect(transport.sessionCount).toBe(0);
+  });
+});
+
+describe('StreamableHttpTransport authentication', () => {
+  const ISSUER = 'https://auth.example.com';
+  let directory: string;
+  let privateKey: KeyObject;
+  let transport: StreamableHttpTransport;
+  let baseUrl: string;
+  let callers: (AuthInfo | undefined)[];
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-streamable-'));
+    const keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    privateKey = keyPair.privateKey;
+    const jwk = keyPair.publicKey.export({ format: 'jwk' });
+    await writeFile(
+      join(directory, 'jwks.json'),
+      JSON.stringify({ keys: [{ ...jwk, kid: 'k1', alg: 'RS256' }] })
+    );
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    callers = [];
+    const port = 9200 + Math.floor(Math.random() * 100); // Random port to avoid conflicts
+    baseUrl = `http://localhost:${port}`;
+
+    transport = new StreamableHttpTransport(
+      {
+        port,
+        host: 'localhost',
+        enableJsonResponse: true,
+        auth: {
+          enabled: true,
+          type: 'oauth2',
+          oauth2: {
+            resource: `${baseUrl}/mcp`,
+            issuer: ISSUER,
+            jwksFile: join(directory, 'jwks.json'),
+            toolScopes: { drop_table: ['db:admin'] },
+          },
+        },
+      },
+      async session => {
+        const server = createProtocolServer();
+        server.setRequestHandler(CallToolRequestSchema, async (_request, extra) => {
+          callers.push(extra.authInfo);
+          return { content: [] };
+        });
+        await server.connect(session);
+      }
+    );
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  const bearer = (sub: string, scope: string) =>
+    `Bearer ${jwt.sign({ sub, scope }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'k1',
+      issuer: ISSUER,
+      audience: `${baseUrl}/mcp`,
+    })}`;
+
+  const callTool = (sessionId: string, authorization: string, name: string) =>
+    request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Authorization', authorization)
+      .set('Mcp-Session-Id', sessionId)
+      .set('Mcp-Protocol-Version', '2025-03-26')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name, arguments: {} } });
+
+  it('should challenge unauthenticated initialize requests', async () => {
+    const response = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .send(initializeRequest)
+      .expect(401);
+
+    expect(response.headers['www-authenticate']).toBe(
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource/mcp"`
+    );
+    expect(transport.sessionCount).toBe(0);
+
+    await request(baseUrl).get('/.well-known/oauth-protected-resource/mcp').expect(200);
+  });
+
+  it('should pass the caller to handlers and check tool scopes', async () => {
+    const olga = bearer('olga', 'tools:read');
+    const response = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Authorization', olga)
+      .send(initializeRequest)
+      .expect(200);
+    const sessionId = response.headers['mcp-session-id'];
+
+    await callTool(sessionId, olga, 'whoami').expect(200);
+    expect(callers).toMatchObject([{ clientId: 'olga', scopes: ['tools:read'] }]);
+
+    const denied = await callTool(sessionId, olga, 'drop_table').expect(403);
+    expect(denied.headers['www-authenticate']).toContain('error="insufficient_scope"');
+    expect(denied.headers['www-authenticate']).toContain('scope="db:admin"');
+
+    // Sessions only serve the caller that created them
+    await callTool(sessionId, bearer('ana', 'tools:read db:admin'), 'whoami').expect(404);
+    expect(callers).toHaveLength(1);
+  });
+});
+
+describe('StreamableHttpTransport resumability', () => {
+  let transport: StreamableHttpTransport;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const port = 9300 + Math.floor(Math.random() * 100);
+    baseUrl = `http://localhost:${port}`;
+    transport = new StreamableHttpTransport({ port, host: 'localhost' }, async session => {
+      await createProtocolServer().connect(session);
+    });
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  async function initializeSession(): Promise<string> {
+    const response = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .send(initializeRequest)
+      .expect(200);
+    return response.headers['mcp-session-id'];
+  }
+
+  it('should refuse to replay events of another session', async () => {
+    const sessionA = await initializeSession();
+    const sessionB = await initializeSession();
+
+    const streamed = await request(baseUrl)
+      .post('/mcp')
+      .set('Accept', ACCEPT)
+      .set('Mcp-Session-Id', sessionA)
+      .set('Mcp-Protocol-Version', '2025-03-26')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.on('data', chunk => (text += chunk));
+        res.on('end', () => callback(null, text));
+      })
+      .expect(200);
+    const eventId = /^id: (.+)$/m.exec(streamed.body)?.[1];
+    expect(eventId).toBeDefined();
+
+    // Session B resumes neither A's stream nor the standalone stream every session shares
+    for (const lastEventId of [eventId!, '_GET_stream_1']) {
+      await request(baseUrl)
+        .get('/mcp')
+        .set('Accept', 'text/event-stream')
+        .set('Mcp-Session-Id', sessionB)
+        .set('Mcp-Protocol-Version', '2025-03-26')
+        .set('Last-Event-ID', lastEventId)
+        .expect(400);
+    }
+  });
+});
+
+describe('InMemoryEventStore', () => {
+  it('should replay only later events from the same stream', async () => {
+    const store = new InMemoryEventStore();
+    const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: {} });
+
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-b', message(2));
+    await store.storeEvent('stream-a', message(3));
+
+    const replayed: unknown[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, msg) => {
+        replayed.push(msg);
+      },
+    });
+
+    expect(streamId).toBe('stream-a');
+    expect(replayed).toEqual([message(3)]);
+  });
+
+  it('should keep at most maxEventsPerStream events', async () => {
+    const store = new InMemoryEventStore(2);
+    const ids: string[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      ids.push(await store.storeEvent('stream', { jsonrpc: '2.0', id: i, result: {} }));
+    }
+
+    const replayed: string[] = [];
+    await store.replayEventsAfter(ids[0]!, {
+      send: async eventId => {
+        replayed.push(eventId);
+      },
+    });
+
+    // The first event was evicted, so replay resumes from the oldest retained event
+    expect(replayed).toEqual([ids[2], ids[3]]);
+  });
+
+  it('should only replay its own events', async () => {
+    const store = new InMemoryEventStore();
+    const other = new InMemoryEventStore();
+    const message = { jsonrpc: '2.0' as const, method: 'notifications/tools/list_changed' };
+
+    const own = await store.storeEvent('_GET_stream', message);
+    const foreign = await other.storeEvent('_GET_stream', message);
+
+    expect(store.ownsEvent(own)).toBe(true);
+    expect(store.ownsEvent(foreign)).toBe(false);
+    expect(store.ownsEvent('_GET_stream_1')).toBe(false);
+    await expect(store.replayEventsAfter(foreign, { send: async () => {} })).rejects.toThrow(
+      'Unknown event ID'
+    );
+  });
+});
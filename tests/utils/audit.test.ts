@@ -0,0 +1,376 @@
+/**
+ * @fileoverview Audit Log Tests
+ *
+ * Tests for the hash-chained audit log: appending and rotation, recovery by a
+ * new instance, queries, tamper detection, and the events recorded by servers
+ * for tool calls, authentication and admin actions.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import { z } from 'zod';
+import { hashPassword } from '../../src/auth/index.js';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { HttpTransport } from '../../src/transport/http.js';
+import { HttpMcpServer, HttpMcpServerFactory } from '../../src/transport/http-server.js';
+import { AuditConfig, AuthorizationError, HttpAuthConfig, McpTool } from '../../src/types/index.js';
+import { AUDIT_GENESIS_HASH, AuditLog, hashAuditArguments } from '../../src/utils/audit.js';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(join(tmpdir(), 'audit-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+function createConfig(overrides: Partial<AuditConfig> = {}): AuditConfig {
+  return {
+    enabled: true,
+    directory,
+    fileName: 'audit.jsonl',
+    maxFileSize: 1024 * 1024,
+    maxFiles: 0,
+    ...overrides,
+  };
+}
+
+const restoreTool: McpTool = {
+  name: 'restore_backup',
+  description: 'Restore a backup',
+  parameters: z.object({ backup: z.string() }),
+  category: 'database',
+  version: '1.0.0',
+  examples: [],
+  access: { permissions: ['db:write'] },
+  execute: async () => ({ success: true }),
+};
+
+describe('AuditLog', () => {
+  it('should chain records across rotated files and continue the chain when reopened', async () => {
+    const log = new AuditLog(createConfig({ maxFileSize: 600 }));
+    for (const actor of ['ana', 'olga', 'ana', 'olga']) {
+      await log.record({
+        type: 'admin.action',
+        actor,
+        action: 'tool.register',
+        outcome: 'success',
+      });
+    }
+
+    const files = (await fs.readdir(directory)).sort();
+    expect(files.length).toBeGreaterThan(1);
+    expect(files.at(-1)).toBe('audit.jsonl');
+    expect(files[0]).toBe('audit.000000000000.jsonl');
+
+    // A new instance picks up the newest record, including from an archive
+    const reopened = new AuditLog(createConfig({ maxFileSize: 600 }));
+    const record = await reopened.record({
+      type: 'config.change',
+      actor: 'system',
+      action: 'auth.configure',
+      outcome: 'success',
+    });
+    expect(record.sequence).toBe(4);
+
+    const [first] = await reopened.query({ limit: 1 });
+    expect(first!.previousHash).toBe(AUDIT_GENESIS_HASH);
+    await expect(reopened.verify()).resolves.toMatchObject({ valid: true, records: 5 });
+  });
+
+  it('should query by actor, tool, type and time range', async () => {
+    const log = new AuditLog(createConfig());
+    await log.record({
+      type: 'auth.failure',
+      actor: 'anonymous',
+      action: 'authenticate',
+      outcome: 'failure',
+    });
+    const call = {
+      type: 'tool.invocation' as const,
+      actor: 'olga',
+      action: 'tools/call',
+      tool: 'restore_backup',
+      outcome: 'success' as const,
+    };
+    const first = await log.record(call);
+    await log.record({ ...call, tool: 'query' });
+    await log.record(call);
+
+    expect(await log.query({ actor: 'olga', tool: 'restore_backup' })).toHaveLength(2);
+    expect(await log.query({ type: 'auth.failure' })).toMatchObject([{ actor: 'anonymous' }]);
+    expect(await log.query({ actor: 'olga', limit: 1 })).toEqual([first]);
+    expect(await log.query({ from: new Date(Date.now() + 60000) })).toEqual([]);
+  });
+
+  it('should report the first edited, removed or unchained record', async () => {
+    const log = new AuditLog(createConfig());
+    for (const outcome of ['success', 'denied', 'success'] as const) {
+      await log.record({ type: 'tool.invocation', actor: 'ana', action: 'tools/call', outcome });
+    }
+    const lines = (await fs.readFile(log.path, 'utf8')).trimEnd().split('\n');
+
+    // Edited outcome
+    await fs.writeFile(
+      log.path,
+      [lines[0], lines[1]!.replace('denied', 'success'), lines[2]].join('\n')
+    );
+    await expect(new AuditLog(createConfig()).verify()).resolves.toMatchObject({
+      valid: false,
+      records: 1,
+      failure: { file: log.path, line: 2, sequence: 1, reason: 'Record does not match its hash' },
+    });
+
+    // Removed record
+    await fs.writeFile(log.path, [lines[0], lines[2]].join('\n'));
+    await expect(new AuditLog(createConfig()).verify()).resolves.toMatchObject({
+      failure: { line: 2, sequence: 2, reason: 'Expected sequence 1' },
+    });
+
+    // Removed start of the log
+    await fs.writeFile(log.path, [lines[1], lines[2]].join('\n'));
+    await expect(new AuditLog(createConfig()).verify()).resolves.toMatchObject({
+      failure: { line: 1, reason: 'Log does not start at the first record' },
+    });
+
+    // Removed end of the log, noticed by the instance that wrote it
+    await fs.writeFile(log.path, [lines[0], lines[1]].join('\n'));
+    await expect(log.verify()).resolves.toMatchObject({
+      valid: false,
+      records: 2,
+      failure: { line: 3, reason: 'Log ends before record 2' },
+    });
+  });
+});
+
+describe('BaseMcpServer auditing', () => {
+  it('should record tool calls with hashed arguments, denials and authentication results', async () => {
+    const server = new BaseMcpServer({
+      name: 'db-server',
+      version: '1.0.0',
+      audit: createConfig(),
+    });
+    server.registerTool(restoreTool);
+    server.configureAuth({
+      method: 'api-key',
+      required: false,
+      options: {
+        keys: {
+          'key-olga': { id: 'olga', roles: ['operator'], permissions: ['db:write'] },
+          'key-ana': { id: 'ana', roles: ['analyst'], permissions: ['db:read'] },
+        },
+      },
+    });
+
+    const args = { backup: 'nightly' };
+    await server.callTool('restore_backup', args, { headers: { 'x-api-key': 'key-olga' } });
+    await expect(
+      server.callTool('restore_backup', args, { headers: { 'x-api-key': 'key-ana' } })
+    ).rejects.toThrow(AuthorizationError);
+    await expect(
+      server.callTool('restore_backup', args, { headers: { 'x-api-key': 'wrong' } })
+    ).rejects.toThrow();
+
+    const audit = server.auditLog!;
+    expect(await audit.query({ type: 'tool.invocation' })).toMatchObject([
+      {
+        actor: 'olga',
+        tool: 'restore_backup',
+        argumentHash: hashAuditArguments({ backup: 'nightly' }),
+        outcome: 'success',
+        duration: expect.any(Number),
+        transport: 'stdio',
+        requestId: expect.any(String),
+      },
+      { actor: 'ana', outcome: 'denied' },
+      { actor: 'anonymous', outcome: 'failure' },
+    ]);
+    expect((await audit.query({ type: 'auth.success' })).map(record => record.actor)).toEqual([
+      'olga',
+      'ana',
+    ]);
+    expect(await audit.query({ type: 'auth.failure' })).toHaveLength(1);
+    expect(await audit.query({ type: 'admin.action' })).toMatchObject([
+      { actor: 'system', action: 'tool.register', tool: 'restore_backup' },
+    ]);
+    expect(await audit.query({ type: 'config.change' })).toMatchObject([
+      { action: 'auth.configure', details: { method: 'api-key' } },
+    ]);
+    // Arguments are only stored as a hash
+    expect(await fs.readFile(audit.path, 'utf8')).not.toContain('nightly');
+    await expect(audit.verify()).resolves.toMatchObject({ valid: true, records: 8 });
+  });
+});
+
+describe('HttpTransport audit endpoints', () => {
+  const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+  const createApp = async (audit?: AuditLog, auth?: HttpAuthConfig) => {
+    const passwordHash = await hashPassword('pw');
+    auth ??= {
+      enabled: true,
+      type: 'basic',
+      basic: {
+        users: {
+          olga: { passwordHash, permissions: ['audit:read'] },
+          ana: { passwordHash, permissions: ['db:read'] },
+        },
+      },
+    };
+    const transport = new HttpTransport({ basePath: '/mcp', auth });
+    transport.auditLog = audit;
+    transport.auditRecorder = async event => {
+      await audit?.record(event);
+    };
+    return (transport as any)._app;
+  };
+
+  it('should record authentication results and serve queries and verification', async () => {
+    const app = await createApp(new AuditLog(createConfig()));
+
+    await request(app).get('/mcp/tools').set('Authorization', basic('olga:wrong')).expect(401);
+
+    const response = await request(app)
+      .get('/mcp/audit')
+      .query({ type: 'auth.failure' })
+      .set('Authorization', basic('olga:pw'))
+      .expect(200);
+    expect(response.body.records).toMatchObject([
+      {
+        actor: 'anonymous',
+        action: 'authenticate',
+        transport: 'http',
+        details: { method: 'basic', reason: expect.any(String) },
+      },
+    ]);
+    expect(JSON.stringify(response.body)).not.toContain('wrong');
+
+    await request(app)
+      .get('/mcp/audit')
+      .query({ from: 'yesterday' })
+      .set('Authorization', basic('olga:pw'))
+      .expect(400);
+
+    const verification = await request(app)
+      .get('/mcp/audit/verify')
+      .set('Authorization', basic('olga:pw'))
+      .expect(200);
+    expect(verification.body).toMatchObject({ valid: true, lastHash: expect.any(String) });
+  });
+
+  it('should refuse users without the audit:read permission and API key clients', async () => {
+    const audit = new AuditLog(createConfig());
+    const app = await createApp(audit);
+
+    await request(app).get('/mcp/audit').expect(401);
+    await request(app).get('/mcp/audit').set('Authorization', basic('ana:pw')).expect(403);
+    await request(app).get('/mcp/audit/verify').set('Authorization', basic('ana:pw')).expect(403);
+
+    const apiKeyApp = await createApp(audit, {
+      enabled: true,
+      type: 'apikey',
+      apiKeys: ['ops-key'],
+    });
+    await request(apiKeyApp).get('/mcp/audit').set('X-API-Key', 'ops-key').expect(403);
+
+    // API key clients are identified by a fingerprint of the key
+    const successes = await audit.query({ type: 'auth.success' });
+    expect(successes.map(record => record.actor)).toEqual([
+      'ana',
+      'ana',
+      expect.stringMatching(/^api-key:[0-9a-f]{12}$/),
+    ]);
+    expect(await fs.readFile(audit.path, 'utf8')).not.toContain('ops-key');
+  });
+
+  it('should record token issuance and refresh', async () => {
+    const audit = new AuditLog(createConfig());
+    const app = await createApp(audit, {
+      enabled: true,
+      type: 'jwt',
+      jwtKeys: [{ kid: 'k1', secret: 'signing-secret' }],
+      issuance: { apiKeys: { 'cli-key': { id: 'cli', roles: [], permissions: [] } } },
+    });
+
+    const issued = await request(app).post('/mcp/auth/token').set('X-API-Key', 'cli-key');
+    const refreshed = await request(app)
+      .post('/mcp/auth/refresh')
+      .send({ refresh_token: issued.body.refresh_token })
+      .expect(200);
+    expect(refreshed.body).not.toHaveProperty('user');
+    await request(app)
+      .post('/mcp/auth/refresh')
+      .send({ refresh_token: issued.body.refresh_token })
+      .expect(401);
+
+    expect(
+      (await audit.query({})).filter(record => record.action.startsWith('token_'))
+    ).toMatchObject([
+      { type: 'auth.success', actor: 'cli', action: 'token_issued' },
+      { type: 'auth.success', actor: 'cli', action: 'token_refreshed' },
+      { type: 'auth.failure', actor: 'anonymous', action: 'token_refreshed' },
+    ]);
+  });
+
+  it('should respond 404 when no audit log is kept or authentication is disabled', async () => {
+    await request(await createApp())
+      .get('/mcp/audit')
+      .set('Authorization', basic('olga:pw'))
+      .expect(404);
+
+    const open = await createApp(new AuditLog(createConfig()), { enabled: false, type: 'apikey' });
+    await request(open).get('/mcp/audit').expect(404);
+    await request(open).get('/mcp/audit/verify').expect(404);
+  });
+});
+
+describe('HttpMcpServer auditing', () => {
+  let server: HttpMcpServer;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should record REST tool calls with the HTTP request id', async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'db-server',
+      version: '1.0.0',
+      description: 'Database server',
+      enableStdio: false,
+      audit: createConfig(),
+      http: {
+        port: 8900 + Math.floor(Math.random() * 100),
+        host: 'localhost',
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+    server.registerTool({ ...restoreTool, access: undefined });
+    await server.start();
+    const app = (server.httpTransport as any)._app;
+
+    await request(app)
+      .post('/mcp/tools/restore_backup')
+      .set('X-Request-ID', 'restore-1')
+      .send({ backup: 'nightly' })
+      .expect(200);
+
+    expect(await server.auditLog!.query({ tool: 'restore_backup' })).toMatchObject([
+      { type: 'admin.action', action: 'tool.register' },
+      {
+        type: 'tool.invocation',
+        actor: 'anonymous',
+        outcome: 'success',
+        transport: 'http',
+        requestId: 'restore-1',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Tool Result Cache Tests
+ *
+ * Tests for the LRU cache and the tool result cache: eviction, expiry,
+ * key derivation, per-user scoping, cacheHit metadata and invalidation.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { z } from 'zod';
+import { LruCache, ToolResultCache } from '../../src/utils/cache.js';
+import { McpTool, ToolResult, UserContext } from '../../src/types/index.js';
+
+function createTool(overrides: Partial<McpTool> = {}): McpTool {
+  return {
+    name: 'news',
+    description: 'News search',
+    parameters: z.object({ query: z.string(), limit: z.number().optional() }),
+    category: 'search',
+    version: '1.0.0',
+    examples: [],
+    cache: true,
+    execute: async params => ({ success: true, data: params }),
+    ...overrides,
+  };
+}
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry when full', () => {
+    const cache = new LruCache<number>({ maxSize: 2, ttl: 60000 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('should expire entries after their TTL', () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new LruCache<number>({ maxSize: 10, ttl: 1000 });
+      cache.set('short', 1, 100);
+      cache.set('default', 2);
+
+      jest.advanceTimersByTime(500);
+
+      expect(cache.get('short')).toBeUndefined();
+      expect(cache.get('default')).toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should delete entries by key prefix', () => {
+    const cache = new LruCache<number>({ maxSize: 10, ttl: 60000 });
+    cache.set('news:a', 1);
+    cache.set('news:b', 2);
+    cache.set('schema:a', 3);
+
+    expect(cache.deleteByPrefix('news:')).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+});
+
+describe('ToolResultCache', () => {
+  let cache: ToolResultCache;
+  let calls: number;
+  const run = (result: ToolResult) => async (): Promise<ToolResult> => {
+    calls++;
+    return result;
+  };
+
+  beforeEach(() => {
+    cache = new ToolResultCache({ maxSize: 100, ttl: 60000 });
+    calls = 0;
+  });
+
+  it('should reuse results for parameters that differ only in key order', async () => {
+    const tool = createTool();
+    const result = { success: true, data: 'headlines' };
+
+    const first = await cache.execute(tool, { query: 'ai', limit: 5 }, run(result));
+    const second = await cache.execute(tool, { limit: 5, query: 'ai' }, run(result));
+
+    expect(calls).toBe(1);
+    expect(first.metadata?.cacheHit).toBe(false);
+    expect(second).toMatchObject({
+      success: true,
+      data: 'headlines',
+      metadata: { cacheHit: true },
+    });
+  });
+
+  it('should not cache failed results', async () => {
+    const tool = createTool();
+    const failure = { success: false, error: 'upstream down' };
+
+    await cache.execute(tool, { query: 'ai' }, run(failure));
+    await cache.execute(tool, { query: 'ai' }, run(failure));
+
+    expect(calls).toBe(2);
+  });
+
+  it('should always run tools that do not opt in', async () => {
+    const tool = createTool({ cache: undefined });
+    const result = { success: true };
+
+    const first = await cache.execute(tool, {}, run(result));
+    await cache.execute(tool, {}, run(result));
+
+    expect(calls).toBe(2);
+    expect(first.metadata).toBeUndefined();
+  });
+
+  it('should use the tool key function and invalidate by key prefix', async () => {
+    const tool = createTool({
+      cache: { key: params => `region/${(params as { query: string }).query}` },
+    });
+    const result = { success: true };
+
+    await cache.execute(tool, { query: 'eu' }, run(result));
+    await cache.execute(tool, { query: 'us' }, run(result));
+
+    expect(cache.invalidate('news', 'region/eu')).toBe(1);
+    await cache.execute(tool, { query: 'us' }, run(result));
+    await cache.execute(tool, { query: 'eu' }, run(result));
+
+    expect(calls).toBe(3);
+    expect(cache.invalidate('news')).toBe(2);
+  });
+
+  it('should keep results of different users apart', async () => {
+    const tool = createTool();
+    const olga: UserContext = { id: 'olga', roles: [], permissions: [] };
+    const ana: UserContext = { id: 'ana', roles: [], permissions: [] };
+
+    await cache.execute(tool, { query: 'ai' }, run({ success: true, data: 'olga' }), olga);
+    const anaResult = await cache.execute(
+      tool,
+      { query: 'ai' },
+      run({ success: true, data: 'ana' }),
+      ana
+    );
+    const anonymous = await cache.execute(tool, { query: 'ai' }, run({ success: true }));
+    const olgaResult = await cache.execute(tool, { query: 'ai' }, run({ success: true }), olga);
+
+    expect(calls).toBe(3);
+    expect(anaResult).toMatchObject({ data: 'ana', metadata: { cacheHit: false } });
+    expect(anonymous.metadata?.cacheHit).toBe(false);
+    expect(olgaResult).toMatchObject({ data: 'olga', metadata: { cacheHit: true } });
+    // Invalidation by key prefix covers every user
+    expect(cache.invalidate('news', '{"query":"ai"}')).toBe(3);
+  });
+
+  it('should only invalidate the named tool', async () => {
+    const result = { success: true };
+
+    await cache.execute(createTool({ name: 'a' }), {}, run(result));
+    await cache.execute(createTool({ name: 'a:b' }), {}, run(result));
+
+    expect(cache.invalidate('a')).toBe(1);
+    expect(cache.invalidate('a:b')).toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Admission Control Tests
+ *
+ * Tests for the tool concurrency limiter: global, per-tool and per-category
+ * limits, priority ordering, queue bounds, queue timeout and metrics.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { z } from 'zod';
+import { ConcurrencyLimiter } from '../../src/utils/concurrency.js';
+import { MetricsCollector } from '../../src/utils/metrics.js';
+import { McpTool, ToolCancelledError, ToolQueueError } from '../../src/types/index.js';
+
+function createTool(name: string, overrides: Partial<McpTool> = {}): McpTool {
+  return {
+    name,
+    description: name,
+    parameters: z.object({}),
+    category: 'utility',
+    version: '1.0.0',
+    examples: [],
+    execute: async () => ({ success: true }),
+    ...overrides,
+  };
+}
+
+/**
+ * A task that stays running until released by the test
+ */
+function createGate(): { task: () => Promise<void>; open: () => void } {
+  let open!: () => void;
+  const done = new Promise<void>(resolve => {
+    open = resolve;
+  });
+  return { task: () => done, open };
+}
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  const search = createTool('search');
+  const report = createTool('report', { category: 'database', priority: 5 });
+
+  it('should queue calls beyond the global limit and start them as slots free up', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const first = createGate();
+    const order: string[] = [];
+
+    const running = limiter.run(search, first.task);
+    const queued = limiter.run(search, async () => {
+      order.push('second');
+    });
+
+    expect(limiter.activeCount).toBe(1);
+    expect(limiter.queueDepth).toBe(1);
+
+    first.open();
+    await Promise.all([running, queued]);
+
+    expect(order).toEqual(['second']);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('should start higher-priority calls first and keep FIFO among equals', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const first = createGate();
+    const order: string[] = [];
+    const record = (label: string) => async () => {
+      order.push(label);
+    };
+
+    const calls = [
+      limiter.run(search, first.task),
+      limiter.run(search, record('search-1')),
+      limiter.run(report, record('report')),
+      limiter.run(search, record('search-2')),
+    ];
+
+    first.open();
+    await Promise.all(calls);
+
+    expect(order).toEqual(['report', 'search-1', 'search-2']);
+  });
+
+  it('should enforce per-tool and per-category limits without blocking other tools', async () => {
+    const limiter = new ConcurrencyLimiter({
+      maxConcurrent: 10,
+      perCategory: { database: 1 },
+    });
+    const first = createGate();
+
+    const running = limiter.run(report, first.task);
+    const blocked = limiter.run(createTool('audit', { category: 'database' }), async () => 'audit');
+    const other = limiter.run(search, async () => 'search');
+
+    await expect(other).resolves.toBe('search');
+    expect(limiter.queueDepth).toBe(1);
+
+    first.open();
+    await expect(blocked).resolves.toBe('audit');
+    await running;
+  });
+
+  it('should honour the tool maxConcurrency unless perTool overrides it', async () => {
+    const limited = createTool('limited', { maxConcurrency: 1 });
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 10, perTool: { limited: 2 } });
+    const gates = [createGate(), createGate()];
+
+    const calls = gates.map(gate => limiter.run(limited, gate.task));
+    await flush();
+
+    expect(limiter.activeCount).toBe(2);
+    gates.forEach(gate => gate.open());
+    await Promise.all(calls);
+  });
+
+  it('should reject calls when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueueSize: 1 });
+    const first = createGate();
+
+    const running = limiter.run(search, first.task);
+    const queued = limiter.run(search, async () => undefined);
+
+    await expect(limiter.run(search, async () => undefined)).rejects.toMatchObject({
+      reason: 'queue_full',
+      statusCode: 503,
+    });
+
+    first.open();
+    await Promise.all([running, queued]);
+  });
+
+  it('should reject calls that wait longer than the queue timeout', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, queueTimeout: 20 });
+    const first = createGate();
+
+    const running = limiter.run(search, first.task);
+    const queued = limiter.run(search, async () => undefined);
+
+    await expect(queued).rejects.toBeInstanceOf(ToolQueueError);
+    await expect(queued).rejects.toMatchObject({ reason: 'queue_timeout' });
+    expect(limiter.queueDepth).toBe(0);
+
+    first.open();
+    await running;
+  });
+
+  it('should remove queued calls when the caller aborts', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const first = createGate();
+    const controller = new AbortController();
+    let started = false;
+
+    const running = limiter.run(search, first.task);
+    const queued = limiter.run(
+      search,
+      async () => {
+        started = true;
+      },
+      controller.signal
+    );
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(ToolCancelledError);
+
+    first.open();
+    await running;
+    expect(started).toBe(false);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('should release the slot when the task throws', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+
+    await expect(
+      limiter.run(search, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(limiter.activeCount).toBe(0);
+  });
+});
+
+describe('ConcurrencyLimiter metrics', () => {
+  let metrics: MetricsCollector;
+
+  beforeEach(() => {
+    metrics = new MetricsCollector('limiter-test');
+  });
+
+  afterEach(() => {
+    metrics.destroy();
+  });
+
+  it('should record queue depth, wait time and rejections', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueueSize: 1, metrics });
+    const tool = createTool('search');
+    const first = createGate();
+
+    const running = limiter.run(tool, first.task);
+    const queued = limiter.run(tool, async () => undefined);
+    await expect(limiter.run(tool, async () => undefined)).rejects.toThrow(ToolQueueError);
+
+    expect(metrics.getLatestValue('tool_queue_depth')).toBe(1);
+    expect(metrics.getLatestValue('tool_active_executions')).toBe(1);
+    expect(metrics.getValues('tool_queue_rejections_total')[0]!.labels).toEqual({
+      tool: 'search',
+      reason: 'queue_full',
+    });
+
+    first.open();
+    await Promise.all([running, queued]);
+
+    expect(metrics.getValues('tool_queue_wait_time')).toHaveLength(1);
+    expect(metrics.getLatestValue('tool_queue_depth')).toBe(0);
+  });
+});
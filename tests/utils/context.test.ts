@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Request Context Tests
+ *
+ * Tests for the ambient request context: nesting and id generation, log
+ * entries and metric samples picking it up, and the HTTP request id reaching
+ * tools and tool results over REST and JSON-RPC.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import request from 'supertest';
+import { z } from 'zod';
+import { HttpMcpServer, HttpMcpServerFactory } from '../../src/transport/http-server.js';
+import { McpTool, RequestContext } from '../../src/types/index.js';
+import { getRequestContext, withRequestContext } from '../../src/utils/context.js';
+import { requestContextFormat } from '../../src/utils/logger.js';
+import { MetricsCollector } from '../../src/utils/metrics.js';
+
+describe('withRequestContext', () => {
+  it('should add fields to the current context and generate a request id at the top', async () => {
+    expect(getRequestContext()).toBeUndefined();
+
+    await withRequestContext({ transport: 'stdio' }, async () => {
+      const outer = getRequestContext()!;
+      expect(outer.requestId).toMatch(/^[0-9a-f-]{36}$/);
+
+      await withRequestContext({ toolName: 'search', transport: undefined }, async () => {
+        expect(getRequestContext()).toEqual({
+          requestId: outer.requestId,
+          transport: 'stdio',
+          toolName: 'search',
+        });
+      });
+      expect(getRequestContext()!.toolName).toBeUndefined();
+    });
+  });
+
+  it('should add the context to log entries without replacing explicit fields', () => {
+    const format = requestContextFormat();
+
+    withRequestContext({ requestId: 'req-1', toolName: 'search' }, () => {
+      expect(format.transform({ level: 'info', message: 'm', toolName: 'explicit' })).toMatchObject(
+        { requestId: 'req-1', toolName: 'explicit' }
+      );
+    });
+    expect(format.transform({ level: 'info', message: 'm' })).not.toHaveProperty('requestId');
+  });
+
+  it('should tag metric samples with the request id but keep it out of exported labels', () => {
+    const metrics = new MetricsCollector('svc');
+    withRequestContext({ requestId: 'req-2' }, () => metrics.increment('jobs_total'));
+
+    expect(metrics.getValues('jobs_total')[0]!.requestId).toBe('req-2');
+    expect(metrics.exportPrometheus({ processMetrics: false })).not.toContain('req-2');
+    metrics.destroy();
+  });
+});
+
+describe('HTTP request context', () => {
+  let server: HttpMcpServer;
+  let seen: RequestContext | undefined;
+
+  const contextTool: McpTool = {
+    name: 'whereami',
+    description: 'Report the request context',
+    parameters: z.object({}),
+    category: 'utility',
+    version: '1.0.0',
+    examples: [],
+    execute: async () => {
+      seen = getRequestContext();
+      return { success: true };
+    },
+  };
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const startServer = async () => {
+    server = HttpMcpServerFactory.createDevelopment({
+      name: 'context-server',
+      version: '1.0.0',
+      description: 'Context server',
+      enableStdio: false,
+      http: {
+        port: 8800 + Math.floor(Math.random() * 100),
+        host: 'localhost',
+        auth: { enabled: false },
+        swagger: { enabled: false, path: '/docs', title: '', description: '', version: '1.0.0' },
+      },
+    });
+    server.registerTool(contextTool);
+    await server.start();
+    return (server.httpTransport as any)._app;
+  };
+
+  it('should carry the client request id to REST tool calls and their results', async () => {
+    const app = await startServer();
+
+    const response = await request(app)
+      .post('/mcp/tools/whereami')
+      .set('X-Request-ID', 'agent-call-42')
+      .send({})
+      .expect(200);
+
+    expect(response.headers['x-request-id']).toBe('agent-call-42');
+    expect(response.body.metadata.requestId).toBe('agent-call-42');
+    expect(seen).toMatchObject({
+      requestId: 'agent-call-42',
+      transport: 'http',
+      toolName: 'whereami',
+    });
+  });
+
+  it('should keep the HTTP request id for JSON-RPC requests', async () => {
+    const app = await startServer();
+
+    const response = await request(app)
+      .post('/mcp/rpc')
+      .set('X-Request-ID', 'not a valid id!')
+      .send({ jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'whereami' } })
+      .expect(200);
+
+    const requestId = response.headers['x-request-id'];
+    expect(requestId).not.toBe('not a valid id!');
+    expect(seen).toMatchObject({ requestId, transport: 'http', toolName: 'whereami' });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tool Execution Tests
+ *
+ * Tests for timeout enforcement, signal propagation and cancellation of tool
+ * executions, including the JSON-RPC error returned by BaseMcpServer.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { BaseMcpServer } from '../../src/core/server.js';
+import {
+  DEFAULT_TIMEOUTS,
+  McpTool,
+  ToolCancelledError,
+  ToolExecutionContext,
+  ToolTimeoutError,
+} from '../../src/types/index.js';
+import { executeToolWithTimeout, resolveToolTimeout } from '../../src/utils/execution.js';
+
+/**
+ * Create a tool that never finishes on its own and records the signal it got
+ */
+function createHangingTool(overrides: Partial<McpTool> = {}): {
+  tool: McpTool;
+  contexts: ToolExecutionContext[];
+} {
+  const contexts: ToolExecutionContext[] = [];
+  const tool: McpTool = {
+    name: 'hang',
+    description: 'Never resolves until aborted',
+    parameters: z.object({}),
+    execute: (_params, context) => {
+      contexts.push(context!);
+      return new Promise(() => {});
+    },
+    ...overrides,
+  };
+
+  return { tool, contexts };
+}
+
+describe('resolveToolTimeout', () => {
+  it('should prefer the tool timeout over the server timeout', () => {
+    const { tool } = createHangingTool({ timeout: 50 });
+
+    expect(resolveToolTimeout(tool, { timeout: 1000 } as any)).toBe(50);
+  });
+
+  it('should fall back to the server timeout, then the default', () => {
+    const { tool } = createHangingTool();
+
+    expect(resolveToolTimeout(tool, { timeout: 1000 } as any)).toBe(1000);
+    expect(resolveToolTimeout(tool)).toBe(DEFAULT_TIMEOUTS.TOOL_EXECUTION);
+  });
+});
+
+describe('executeToolWithTimeout', () => {
+  it('should resolve with the tool result', async () => {
+    const tool: McpTool = {
+      name: 'echo',
+      description: 'Echo',
+      parameters: z.object({ value: z.string() }),
+      execute: async params => ({ success: true, data: params }),
+    };
+
+    await expect(executeToolWithTimeout(tool, { value: 'x' }, { timeout: 100 })).resolves.toEqual({
+      success: true,
+      data: { value: 'x' },
+    });
+  });
+
+  it('should reject with ToolTimeoutError and abort the tool signal', async () => {
+    const { tool, contexts } = createHangingTool();
+
+    const execution = executeToolWithTimeout(tool, {}, { timeout: 20 });
+
+    await expect(execution).rejects.toBeInstanceOf(ToolTimeoutError);
+    await expect(execution).rejects.toMatchObject({ code: 'TOOL_TIMEOUT', timeout: 20 });
+    expect(contexts[0]!.timeout).toBe(20);
+    expect(contexts[0]!.signal.aborted).toBe(true);
+  });
+
+  it('should reject with ToolCancelledError when the caller aborts', async () => {
+    const { tool, contexts } = createHangingTool();
+    const controller = new AbortController();
+
+    const execution = executeToolWithTimeout(
+      tool,
+      {},
+      { timeout: 1000, signal: controller.signal }
+    );
+    controller.abort('User cancelled');
+
+    await expect(execution).rejects.toBeInstanceOf(ToolCancelledError);
+    await expect(execution).rejects.toThrow(/User cancelled/);
+    expect(contexts[0]!.signal.aborted).toBe(true);
+  });
+});
+
+describe('BaseMcpServer tool timeouts', () => {
+  let client: Client;
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should answer timed-out calls with the Request timeout error code', async () => {
+    const server = new BaseMcpServer({ name: 'timeout-server', version: '1.0.0' });
+    server.registerTool(createHangingTool({ timeout: 20 }).tool);
+
+    // Connect the underlying SDK server in-process instead of over stdio
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (server as any)._server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    await expect(client.callTool({ name: 'hang', arguments: {} })).rejects.toMatchObject({
+      code: ErrorCode.RequestTimeout,
+    });
+  });
+});
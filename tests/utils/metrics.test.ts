@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Prometheus Export Tests
+ *
+ * Tests for the metrics collector's Prometheus text exposition: cumulative
+ * per-label counters, histogram buckets, escaping and process metrics, and
+ * the tool labels recorded by servers.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { z } from 'zod';
+import { BaseMcpServer } from '../../src/core/server.js';
+import { MetricsCollector } from '../../src/utils/metrics.js';
+
+describe('MetricsCollector Prometheus export', () => {
+  let metrics: MetricsCollector;
+
+  beforeEach(() => {
+    metrics = new MetricsCollector('svc');
+    metrics.reset();
+  });
+
+  afterEach(() => {
+    metrics.destroy();
+  });
+
+  const exportLines = () => metrics.exportPrometheus({ processMetrics: false }).split('\n');
+
+  it('should keep counters cumulative per label set', () => {
+    metrics.recordToolExecution('search', 12, true);
+    metrics.recordToolExecution('search', 30, true);
+    metrics.recordToolExecution('fetch', 8, false);
+
+    const lines = exportLines();
+    expect(lines).toContain('# TYPE tool_executions_total counter');
+    expect(lines).toContain(
+      'tool_executions_total{service="svc",tool="search",status="success"} 2'
+    );
+    expect(lines).toContain('tool_executions_total{service="svc",tool="fetch",status="error"} 1');
+    expect(lines).toContain('tool_errors_total{service="svc",tool="fetch"} 1');
+    // No sample timestamps
+    expect(
+      lines.filter(line => line.startsWith('tool_')).every(line => line.split(' ').length === 2)
+    ).toBe(true);
+  });
+
+  it('should export histograms with cumulative buckets, sum and count', () => {
+    metrics.registerMetric({
+      name: 'lookup_time',
+      type: 'histogram',
+      description: 'Lookup duration',
+      unit: 'milliseconds',
+      buckets: [10, 100],
+    });
+    for (const duration of [5, 50, 500]) {
+      metrics.record('lookup_time', duration, { table: 'users' });
+    }
+
+    expect(exportLines()).toEqual(
+      expect.arrayContaining([
+        '# HELP lookup_time Lookup duration',
+        '# TYPE lookup_time histogram',
+        'lookup_time_bucket{service="svc",table="users",le="10"} 1',
+        'lookup_time_bucket{service="svc",table="users",le="100"} 2',
+        'lookup_time_bucket{service="svc",table="users",le="+Inf"} 3',
+        'lookup_time_sum{service="svc",table="users"} 555',
+        'lookup_time_count{service="svc",table="users"} 3',
+      ])
+    );
+  });
+
+  it('should use the configured default buckets for timers', () => {
+    const custom = new MetricsCollector('svc', { histogramBuckets: [1000] });
+    custom.timing('request_time', 20);
+
+    const text = custom.exportPrometheus({ processMetrics: false });
+    custom.destroy();
+
+    expect(text).toContain('# TYPE request_time histogram');
+    expect(text).toContain('request_time_bucket{service="svc",le="1000"} 1');
+  });
+
+  it('should escape label values and sanitize names', () => {
+    metrics.gauge('queue.depth', 3, { path: 'a"b\\c\nd' });
+
+    expect(exportLines()).toContain('queue_depth{service="svc",path="a\\"b\\\\c\\nd"} 3');
+  });
+
+  it('should include process metrics by default', () => {
+    const text = metrics.exportPrometheus();
+
+    expect(text).toContain('# TYPE process_cpu_seconds_total counter');
+    expect(text).toMatch(/^process_resident_memory_bytes\{service="svc"\} \d+$/m);
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('BaseMcpServer tool metrics', () => {
+  it('should record calls to unregistered tools under one label', async () => {
+    const server = new BaseMcpServer({ name: 'svc', version: '1.0.0' });
+    server.registerTool({
+      name: 'search',
+      description: 'Search',
+      parameters: z.object({}),
+      category: 'utility',
+      version: '1.0.0',
+      examples: [],
+      execute: async () => ({ success: true }),
+    });
+    server.metrics.reset();
+
+    await server.callTool('search', {});
+    for (const name of ['probe-1', 'probe-2']) {
+      await expect(server.callTool(name, {})).rejects.toThrow('Tool not found');
+    }
+
+    const text = server.metrics.exportPrometheus({ processMetrics: false });
+    server.metrics.destroy();
+
+    expect(text).toContain('tool_executions_total{service="svc",tool="search",status="success"} 1');
+    expect(text).toContain('tool_executions_total{service="svc",tool="unknown",status="error"} 2');
+    expect(text).not.toContain('probe-');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview OTLP Metric Export Tests
+ *
+ * Tests for converting collected metrics to OTLP and pushing them to a
+ * collector: sums, gauges and histograms, retries with backoff, buffering
+ * while the collector is down, and discarding rejected snapshots.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { MetricsCollector } from '../../src/utils/metrics.js';
+import { OtlpMetricExporter, OtlpMetricExporterOptions } from '../../src/utils/otlp.js';
+
+describe('MetricsCollector OTLP export', () => {
+  let metrics: MetricsCollector;
+
+  beforeEach(() => {
+    metrics = new MetricsCollector('svc');
+    metrics.reset();
+  });
+
+  afterEach(() => {
+    metrics.destroy();
+  });
+
+  const findMetric = (name: string) =>
+    (metrics.exportOtlp() as any).resourceMetrics[0].scopeMetrics[0].metrics.find(
+      (metric: { name: string }) => metric.name === name
+    );
+
+  it('should export counters as cumulative monotonic sums with label attributes', () => {
+    metrics.recordToolExecution('search', 12, true);
+    metrics.recordToolExecution('search', 30, true);
+
+    const counter = findMetric('tool_executions_total');
+    expect(counter.sum).toMatchObject({ aggregationTemporality: 2, isMonotonic: true });
+    expect(counter.sum.dataPoints[0]).toMatchObject({
+      asDouble: 2,
+      attributes: expect.arrayContaining([{ key: 'tool', value: { stringValue: 'search' } }]),
+      startTimeUnixNano: expect.stringMatching(/^\d+$/),
+    });
+  });
+
+  it('should export histograms with per-bucket counts and gauges with their latest value', () => {
+    metrics.registerMetric({
+      name: 'latency',
+      type: 'histogram',
+      description: 'Latency',
+      unit: 'ms',
+      buckets: [10, 100],
+    });
+    for (const value of [5, 50, 500]) {
+      metrics.record('latency', value);
+    }
+    metrics.gauge('queue_depth', 4);
+
+    expect(findMetric('latency')).toMatchObject({
+      unit: 'ms',
+      histogram: {
+        dataPoints: [
+          { count: '3', sum: 555, explicitBounds: [10, 100], bucketCounts: ['1', '1', '1'] },
+        ],
+      },
+    });
+    expect(findMetric('queue_depth').gauge.dataPoints[0].asDouble).toBe(4);
+  });
+});
+
+describe('OtlpMetricExporter', () => {
+  let collector: Server;
+  let endpoint: string;
+  let metrics: MetricsCollector;
+  /** Status codes the collector answers with, in order; 200 once exhausted */
+  let responses: number[];
+  let received: any[];
+
+  beforeAll(async () => {
+    // Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver
+    collector = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const status = responses.shift() ?? 200;
+        if (status === 200) {
+          received.push({ url: req.url, body: JSON.parse(body) });
+        }
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => collector.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    received = [];
+    metrics = new MetricsCollector('svc');
+  });
+
+  afterEach(() => {
+    metrics.destroy();
+  });
+
+  const createExporter = (options: Partial<OtlpMetricExporterOptions> = {}) =>
+    new OtlpMetricExporter(metrics, {
+      endpoint,
+      serviceName: 'svc',
+      serviceVersion: '1.0.0',
+      retryDelay: 5,
+      ...options,
+    });
+
+  it('should push snapshots to the metrics endpoint, retrying unavailable collectors', async () => {
+    responses = [503, 503];
+    metrics.increment('jobs_total');
+
+    await createExporter().export();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/v1/metrics');
+    expect(received[0].body.resourceMetrics[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'svc' } },
+      { key: 'service.version', value: { stringValue: '1.0.0' } },
+    ]);
+  });
+
+  it('should buffer snapshots while the collector is down and send them in order', async () => {
+    const exporter = createExporter({ maxRetries: 0, maxBufferSize: 3 });
+    const generation = (request: any) =>
+      request.body.resourceMetrics[0].scopeMetrics[0].metrics.find(
+        (metric: { name: string }) => metric.name === 'generation'
+      ).gauge.dataPoints[0].asDouble;
+
+    responses = [503, 503, 503, 503];
+    for (let count = 1; count <= 4; count++) {
+      metrics.gauge('generation', count);
+      await exporter.export();
+    }
+    expect(exporter.bufferedSnapshots).toBe(3);
+    expect(exporter.droppedSnapshots).toBe(1);
+    expect(received).toHaveLength(0);
+
+    // The final snapshot pushes out the oldest buffered one
+    metrics.gauge('generation', 5);
+    await exporter.shutdown();
+
+    expect(received.map(generation)).toEqual([3, 4, 5]);
+    expect(exporter.bufferedSnapshots).toBe(0);
+  });
+
+  it('should discard snapshots the collector rejects without retrying', async () => {
+    const exporter = createExporter();
+
+    responses = [400];
+    await exporter.export();
+
+    expect(responses).toHaveLength(0);
+    expect(received).toHaveLength(0);
+    expect(exporter.bufferedSnapshots).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Schema Conversion Tests
+ *
+ * Tests for the Zod to JSON Schema (draft 2020-12) converter and the per-tool
+ * input schema cache.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  getToolInputSchema,
+  JSON_SCHEMA_DIALECT,
+  zodToJsonSchema,
+} from '../../src/utils/schema.js';
+import { McpTool, ToolResult } from '../../src/types/index.js';
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects with required, optional and default keys', () => {
+    const schema = z.object({
+      query: z.string().min(1).describe('Search query'),
+      limit: z.number().int().max(100).default(10),
+      tags: z.array(z.string()).optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query' },
+        limit: { type: 'integer', maximum: 100, default: 10 },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['query'],
+    });
+  });
+
+  it('should convert enums, literal unions and unions', () => {
+    expect(zodToJsonSchema(z.enum(['asc', 'desc']))).toEqual({
+      type: 'string',
+      enum: ['asc', 'desc'],
+    });
+    expect(zodToJsonSchema(z.union([z.literal('a'), z.literal('b')]))).toEqual({
+      type: 'string',
+      enum: ['a', 'b'],
+    });
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+  });
+
+  it('should convert records, nullables and strict objects', () => {
+    expect(zodToJsonSchema(z.record(z.boolean()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'boolean' },
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+    expect(zodToJsonSchema(z.object({}).strict())).toEqual({
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    });
+  });
+
+  it('should convert tuples with prefixItems', () => {
+    expect(zodToJsonSchema(z.tuple([z.string(), z.number()]))).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  it('should describe the input side of effects', () => {
+    const schema = z.string().transform(value => value.length);
+
+    expect(zodToJsonSchema(schema)).toEqual({ type: 'string' });
+  });
+
+  it('should terminate on recursive schemas', () => {
+    interface Node {
+      children: Node[];
+    }
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ children: z.array(node) }));
+
+    expect(zodToJsonSchema(node)).toEqual({
+      type: 'object',
+      properties: { children: { type: 'array', items: {} } },
+      required: ['children'],
+    });
+  });
+
+  it('should add the dialect when requested', () => {
+    expect(zodToJsonSchema(z.boolean(), { includeDialect: true })).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'boolean',
+    });
+  });
+});
+
+describe('getToolInputSchema', () => {
+  const tool: McpTool = {
+    name: 'echo',
+    description: 'Echo a message',
+    category: 'utility',
+    version: '1.0.0',
+    parameters: z.object({ message: z.string() }),
+    examples: [],
+    async execute(): Promise<ToolResult> {
+      return { success: true };
+    },
+  };
+
+  it('should convert the tool parameters with the dialect', () => {
+    expect(getToolInputSchema(tool)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: { message: { type: 'string' } },
+      required: ['message'],
+    });
+  });
+
+  it('should cache the converted schema per tool', () => {
+    expect(getToolInputSchema(tool)).toBe(getToolInputSchema(tool));
+  });
+});
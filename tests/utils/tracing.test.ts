@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Tracing Tests
+ *
+ * Tests for W3C trace context parsing and extraction, parent-based sampling,
+ * active span tracking, log correlation, and OTLP/HTTP export.
+ *
+ * @author MCP Boilerplate Team
+ * @version 0.3.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { traceContextFormat } from '../../src/utils/logger.js';
+import { OtlpTraceExporter } from '../../src/utils/otlp.js';
+import {
+  extractTraceContext,
+  formatTraceparent,
+  getActiveSpan,
+  parseTraceparent,
+  Tracer,
+} from '../../src/utils/tracing.js';
+import { SpanData, SpanExporter, TelemetryConfig } from '../../src/types/index.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+function createConfig(sampleRate = 1): TelemetryConfig {
+  return {
+    enabled: true,
+    serviceName: 'test-server',
+    serviceVersion: '1.0.0',
+    traces: { enabled: true, sampleRate },
+    metrics: { enabled: false, interval: 60000 },
+    logs: { enabled: true, correlation: true },
+  };
+}
+
+/**
+ * Exporter keeping completed spans in memory
+ */
+function createMemoryExporter(): SpanExporter & { spans: SpanData[] } {
+  const spans: SpanData[] = [];
+  return {
+    spans,
+    export: span => {
+      spans.push(span);
+    },
+    flush: async () => {},
+    shutdown: async () => {},
+  };
+}
+
+describe('W3C trace context', () => {
+  it('should parse valid traceparent values and reject malformed ones', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`, 'vendor=value')).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      traceFlags: 1,
+      traceState: 'vendor=value',
+    });
+
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01-extra`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent('not-a-traceparent')).toBeUndefined();
+    // Future versions may append fields
+    expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-00-extra`)).toMatchObject({
+      traceFlags: 0,
+    });
+  });
+
+  it('should prefer context from _meta over HTTP headers', () => {
+    const headers = { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`, tracestate: ['a=1', 'b=2'] };
+    expect(extractTraceContext(headers)).toMatchObject({
+      spanId: PARENT_ID,
+      traceState: 'a=1,b=2',
+    });
+
+    const meta = { traceparent: `00-${TRACE_ID}-b7ad6b7169203331-00` };
+    expect(extractTraceContext(headers, meta)).toMatchObject({
+      spanId: 'b7ad6b7169203331',
+      traceFlags: 0,
+    });
+    expect(extractTraceContext({}, {})).toBeUndefined();
+  });
+
+  it('should format a span context as a traceparent', () => {
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 1 })).toBe(
+      `00-${TRACE_ID}-${PARENT_ID}-01`
+    );
+  });
+});
+
+describe('Tracer', () => {
+  it('should nest spans under the active span and export them when they end', async () => {
+    const exporter = createMemoryExporter();
+    const tracer = new Tracer(createConfig(), exporter);
+
+    await tracer.trace('outer', { kind: 'server' }, async outer => {
+      await tracer.trace('inner', {}, async inner => {
+        expect(getActiveSpan()).toBe(inner);
+        expect(inner!.context.parentSpanId).toBe(outer!.context.spanId);
+      });
+    });
+
+    expect(exporter.spans.map(span => span.name)).toEqual(['inner', 'outer']);
+    expect(new Set(exporter.spans.map(span => span.context.traceId)).size).toBe(1);
+    expect(getActiveSpan()).toBeUndefined();
+  });
+
+  it('should record errors on the span and rethrow them', async () => {
+    const exporter = createMemoryExporter();
+    const tracer = new Tracer(createConfig(), exporter);
+
+    await expect(
+      tracer.trace('failing', {}, async () => {
+        throw new TypeError('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(exporter.spans[0]).toMatchObject({
+      status: { code: 'error', message: 'boom' },
+      events: [{ name: 'exception', attributes: { 'exception.type': 'TypeError' } }],
+    });
+  });
+
+  it('should follow the parent sampling decision and the sample rate for new traces', async () => {
+    const exporter = createMemoryExporter();
+    const never = new Tracer(createConfig(0), exporter);
+    const always = new Tracer(createConfig(1), exporter);
+
+    await never.trace('dropped', {}, async span => {
+      // Unsampled spans still carry ids for propagation
+      expect(span!.context.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span!.isRecording).toBe(false);
+    });
+    await never.trace(
+      'joined',
+      { parent: parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`) },
+      async () => {}
+    );
+    await always.trace(
+      'ignored',
+      { parent: parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`) },
+      async () => {}
+    );
+
+    expect(exporter.spans.map(span => span.name)).toEqual(['joined']);
+    expect(exporter.spans[0]!.context).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+    });
+  });
+
+  it('should add the active span ids to log entries', async () => {
+    const tracer = new Tracer(createConfig());
+    const format = traceContextFormat();
+
+    expect(format.transform({ level: 'info', message: 'outside' })).not.toHaveProperty('traceId');
+    await tracer.trace('logged', {}, async span => {
+      expect(format.transform({ level: 'info', message: 'inside' })).toMatchObject({
+        traceId: span!.context.traceId,
+        spanId: span!.context.spanId,
+      });
+    });
+  });
+});
+
+describe('OtlpTraceExporter', () => {
+  let collector: Server;
+  let endpoint: string;
+  const requests: { url?: string; body: any }[] = [];
+
+  beforeAll(async () => {
+    // Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver
+    collector = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, body: JSON.parse(body) });
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => collector.close(resolve));
+  });
+
+  it('should post queued spans as OTLP JSON', async () => {
+    const exporter = new OtlpTraceExporter({
+      endpoint,
+      serviceName: 'test-server',
+      serviceVersion: '1.0.0',
+    });
+    const tracer = new Tracer(createConfig(), exporter);
+
+    await tracer.trace(
+      'tools/call',
+      { kind: 'server', attributes: { 'rpc.method': 'tools/call' } },
+      async () => {}
+    );
+    await tracer.shutdown();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.url).toBe('/v1/traces');
+
+    const [resourceSpans] = requests[0]!.body.resourceSpans;
+    expect(resourceSpans.resource.attributes).toContainEqual({
+      key: 'service.name',
+      value: { stringValue: 'test-server' },
+    });
+    expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+      name: 'tools/call',
+      kind: 2,
+      traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+      startTimeUnixNano: expect.stringMatching(/^\d{19}$/),
+      attributes: [{ key: 'rpc.method', value: { stringValue: 'tools/call' } }],
+      status: { code: 0 },
+    });
+  });
+
+  it('should drop the oldest spans when the queue is full', async () => {
+    const exporter = new OtlpTraceExporter({
+      endpoint,
+      serviceName: 'test-server',
+      serviceVersion: '1.0.0',
+      maxQueueSize: 2,
+    });
+    const tracer = new Tracer(createConfig(), exporter);
+
+    for (const name of ['first', 'second', 'third']) {
+      await tracer.trace(name, {}, async () => {});
+    }
+    requests.length = 0;
+    await tracer.shutdown();
+
+    expect(exporter.droppedSpans).toBe(1);
+    const spans = requests[0]!.body.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((span: { name: string }) => span.name)).toEqual(['second', 'third']);
+  });
+});